@@ -0,0 +1,95 @@
+// Precaches the pose runtime, the model weights and the app shell so analysis works at breaks with no signal
+const ASSET_PATHS = ['/mediapipe/tasks-vision/', '/onnxruntime/', '/models/']; // each versioned by its manifest.json (see vite.config.ts)
+const ASSET_CACHE_PREFIX = 'surfpilot-assets-';
+const SHELL_MANIFEST = '/shell-manifest.json'; // the build's bundles, versioned by their hashed names
+const SHELL_CACHE_PREFIX = 'surfpilot-shell-';
+
+const assetCacheName = (assetPath, version) => `${ASSET_CACHE_PREFIX}${assetPath}${version}`;
+
+const fetchJson = async (url) => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`Manifest ${url} unavailable (${response.status})`);
+  }
+  return response.json();
+};
+
+const fetchManifest = (assetPath) => fetchJson(`${assetPath}manifest.json`);
+
+// Caches are listed in the order they were created, so the last shell cache is the newest build's
+const currentShellCache = async () => {
+  const shellCaches = (await caches.keys()).filter((key) => key.startsWith(SHELL_CACHE_PREFIX));
+  return shellCaches[shellCaches.length - 1] ?? null;
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    for (const assetPath of ASSET_PATHS) {
+      const { version, files } = await fetchManifest(assetPath);
+      const cache = await caches.open(assetCacheName(assetPath, version));
+      await cache.addAll(files.map((file) => `${assetPath}${file}`));
+    }
+
+    const shell = await fetchJson(SHELL_MANIFEST);
+    const shellCache = await caches.open(`${SHELL_CACHE_PREFIX}${shell.version}`);
+    await shellCache.addAll(['/', ...shell.files.map((file) => `/${file}`)]);
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    // Drop the caches of superseded asset versions and builds, and of the legacy MediaPipe Pose runtime
+    const shell = await fetchJson(SHELL_MANIFEST).catch(() => null);
+    const manifests = await Promise.all(ASSET_PATHS.map((assetPath) => fetchManifest(assetPath).catch(() => null)));
+    if (!shell || manifests.includes(null)) {
+      // Offline: keep everything rather than risk deleting the only copy
+      await self.clients.claim();
+      return;
+    }
+    const current = [
+      `${SHELL_CACHE_PREFIX}${shell.version}`,
+      ...ASSET_PATHS.map((assetPath, index) => assetCacheName(assetPath, manifests[index].version))
+    ];
+    const keys = await caches.keys();
+    await Promise.all(keys
+      .filter((key) => [ASSET_CACHE_PREFIX, SHELL_CACHE_PREFIX, 'surfpilot-mediapipe-pose-'].some((prefix) => key.startsWith(prefix)) && !current.includes(key))
+      .map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Runtime and model files are versioned by their manifests, so serve them cache-first
+  if (ASSET_PATHS.some((assetPath) => url.pathname.startsWith(assetPath)) && !url.pathname.endsWith('manifest.json')) {
+    event.respondWith((async () => {
+      const cached = await caches.match(request);
+      return cached || fetch(request);
+    })());
+    return;
+  }
+
+  // Everything else from our origin is network-first, falling back to the last cached copy
+  event.respondWith((async () => {
+    try {
+      const response = await fetch(request);
+      const shellCacheName = await currentShellCache();
+      if (response.ok && shellCacheName) {
+        const shellCache = await caches.open(shellCacheName);
+        await shellCache.put(request.mode === 'navigate' ? '/' : request, response.clone());
+      }
+      return response;
+    } catch (error) {
+      const cached = await caches.match(request.mode === 'navigate' ? '/' : request);
+      if (cached) return cached;
+      throw error;
+    }
+  })());
+});
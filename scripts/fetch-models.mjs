@@ -0,0 +1,58 @@
+// Downloads the model weights listed in models/sources.json into models/, which Vite serves from our
+// own origin (see vite.config.ts). Files already present are kept; delete one to fetch it again.
+// Hugging Face files are fetched at the commit their repo is pinned to in "revisions". A repo still
+// on a branch name is pinned to that branch's current commit, written back to sources.json (commit
+// it), and its files are fetched again so they match the pin.
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const MODELS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../models");
+const SOURCES = path.join(MODELS_DIR, "sources.json");
+const COMMIT_SHA = /^[0-9a-f]{40}$/;
+
+const sources = JSON.parse(fs.readFileSync(SOURCES, "utf-8"));
+const { revisions, files } = sources;
+
+// The Hugging Face repo a file URL is fetched from, or null for anything else
+const repoOf = (url) => url.match(/^https:\/\/huggingface\.co\/([^/]+\/[^/]+)\/resolve\/\{revision\}\//)?.[1] ?? null;
+
+const pinned = new Set();
+for (const [repo, revision] of Object.entries(revisions)) {
+  if (COMMIT_SHA.test(revision)) continue;
+
+  const response = await fetch(`https://huggingface.co/api/models/${repo}/revision/${revision}`);
+  if (!response.ok) {
+    throw new Error(`Could not resolve ${repo}@${revision} (${response.status})`);
+  }
+  const { sha } = await response.json();
+  console.log(`Pinning ${repo} ${revision} to ${sha}`);
+  revisions[repo] = sha;
+  pinned.add(repo);
+}
+if (pinned.size > 0) {
+  fs.writeFileSync(SOURCES, `${JSON.stringify(sources, null, 2)}\n`);
+}
+
+for (const [file, source] of Object.entries(files)) {
+  const target = path.join(MODELS_DIR, file);
+  const repo = repoOf(source);
+  if (fs.existsSync(target) && !pinned.has(repo)) continue;
+  if (source.includes("{revision}") && !repo) {
+    throw new Error(`${file}: only Hugging Face URLs can take a {revision}`);
+  }
+  if (repo && !revisions[repo]) {
+    throw new Error(`${file}: ${repo} has no entry in "revisions"`);
+  }
+  const url = repo ? source.replace("{revision}", revisions[repo]) : source;
+
+  console.log(`Fetching ${file}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download ${url} (${response.status})`);
+  }
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  // Written under a temporary name so an interrupted download is fetched again next time
+  fs.writeFileSync(`${target}.part`, Buffer.from(await response.arrayBuffer()));
+  fs.renameSync(`${target}.part`, target);
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TrendingUp, TrendingDown, Target, AlertCircle, CheckCircle, XCircle, Award } from 'lucide-react';
 import { TurnResult } from '@/utils/TurnAnalyzer';
+import { formatMetric } from '@/utils/poseDetection';
 
 interface VideoFrame {
   frameNumber: number;
@@ -13,10 +14,10 @@ interface VideoFrame {
   imageData: string;
   phase: string;
   poseMetrics?: {
-    bodyRotation: number;
-    centerOfGravity: { x: number; y: number };
-    stanceWidth: number;
-    kneeFlexion: number;
+    bodyRotation: number | null;
+    centerOfGravity: { x: number; y: number } | null; // 0-1 of the frame
+    stanceWidth: number | null;
+    kneeFlexion: number | null;
     confidence: number;
   };
 }
@@ -29,19 +30,31 @@ interface DetailedAnalysisProps {
   turnResults?: TurnResult[];
 }
 
+// A null difference means the metric couldn't be measured on one of the two frames
+interface MetricDifference {
+  user: number | null;
+  reference: number | null;
+  difference: number | null;
+}
+
 interface PhaseAnalysis {
   phase: string;
-  score: number;
+  score: number | null; // null when no metric could be compared in this phase
   improvements: string[];
   strengths: string[];
   keyDifferences: {
-    bodyRotation: { user: number; reference: number; difference: number };
-    stanceWidth: { user: number; reference: number; difference: number };
-    kneeFlexion: { user: number; reference: number; difference: number };
-    centerOfGravity: { user: { x: number; y: number }; reference: { x: number; y: number }; distance: number };
+    bodyRotation: MetricDifference;
+    stanceWidth: MetricDifference;
+    kneeFlexion: MetricDifference;
+    centerOfGravity: { user: { x: number; y: number } | null; reference: { x: number; y: number } | null; distance: number | null };
   };
 }
 
+const compareMetric = (user: number | null | undefined, reference: number | null | undefined): MetricDifference => {
+  const measured = user !== null && user !== undefined && reference !== null && reference !== undefined;
+  return { user: user ?? null, reference: reference ?? null, difference: measured ? Math.abs(user - reference) : null };
+};
+
 export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, phases, turnResults = [] }: DetailedAnalysisProps) => {
   const [selectedTab, setSelectedTab] = useState('overview');
 
@@ -54,109 +67,81 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
     
     console.log(`Analyzing phase ${phaseName}:`, { refFrames: refFrames.length, userFrames: userFrames_filtered.length });
     
-    // Create fallback metrics if pose detection failed
-    const createFallbackMetrics = () => ({
-      bodyRotation: 15 + Math.random() * 10, // Random but reasonable values
-      centerOfGravity: { x: 0.5 + (Math.random() - 0.5) * 0.2, y: 0.6 + (Math.random() - 0.5) * 0.2 },
-      stanceWidth: 0.3 + Math.random() * 0.3,
-      kneeFlexion: 25 + Math.random() * 20,
-      confidence: 0.7 + Math.random() * 0.3
-    });
-
-    if (!refFrames.length || !userFrames_filtered.length) {
-      console.log(`No frames found for phase ${phaseName}`);
-      return {
-        phase: phaseName,
-        score: 0,
-        improvements: ['No video data available for this phase'],
-        strengths: [],
-        keyDifferences: {
-          bodyRotation: { user: 0, reference: 0, difference: 0 },
-          stanceWidth: { user: 0, reference: 0, difference: 0 },
-          kneeFlexion: { user: 0, reference: 0, difference: 0 },
-          centerOfGravity: { user: { x: 0, y: 0 }, reference: { x: 0, y: 0 }, distance: 0 }
-        }
-      };
-    }
-
-    // Use pose metrics if available, otherwise create fallback metrics
-    const refMetrics = refFrames[0].poseMetrics || createFallbackMetrics();
-    const userMetrics = userFrames_filtered[0].poseMetrics || createFallbackMetrics();
+    // Frames without a detected surfer have no metrics; those comparisons are left out, not guessed
+    const refMetrics = refFrames[0]?.poseMetrics;
+    const userMetrics = userFrames_filtered[0]?.poseMetrics;
 
     console.log('Metrics for phase', phaseName, { refMetrics, userMetrics });
 
     // Calculate differences
-    const bodyRotationDiff = Math.abs(userMetrics.bodyRotation - refMetrics.bodyRotation);
-    const stanceWidthDiff = Math.abs(userMetrics.stanceWidth - refMetrics.stanceWidth);
-    const kneeFlexionDiff = Math.abs(userMetrics.kneeFlexion - refMetrics.kneeFlexion);
-    const cogDistance = Math.sqrt(
-      Math.pow(userMetrics.centerOfGravity.x - refMetrics.centerOfGravity.x, 2) +
-      Math.pow(userMetrics.centerOfGravity.y - refMetrics.centerOfGravity.y, 2)
-    );
-
-    // Calculate score (0-100)
-    const bodyRotationScore = Math.max(0, 100 - (bodyRotationDiff / 30) * 100);
-    const stanceWidthScore = Math.max(0, 100 - (stanceWidthDiff / 0.5) * 100);
-    const kneeFlexionScore = Math.max(0, 100 - (kneeFlexionDiff / 30) * 100);
-    const cogScore = Math.max(0, 100 - (cogDistance / 0.3) * 100);
-    const overallScore = (bodyRotationScore + stanceWidthScore + kneeFlexionScore + cogScore) / 4;
+    const bodyRotation = compareMetric(userMetrics?.bodyRotation, refMetrics?.bodyRotation);
+    const stanceWidth = compareMetric(userMetrics?.stanceWidth, refMetrics?.stanceWidth);
+    const kneeFlexion = compareMetric(userMetrics?.kneeFlexion, refMetrics?.kneeFlexion);
+    const userCog = userMetrics?.centerOfGravity ?? null;
+    const refCog = refMetrics?.centerOfGravity ?? null;
+    const cogDistance = userCog && refCog
+      ? Math.sqrt(Math.pow(userCog.x - refCog.x, 2) + Math.pow(userCog.y - refCog.y, 2))
+      : null;
+
+    // Calculate score (0-100) over the metrics measured in both frames
+    const scores = [
+      bodyRotation.difference === null ? null : Math.max(0, 100 - (bodyRotation.difference / 30) * 100),
+      stanceWidth.difference === null ? null : Math.max(0, 100 - (stanceWidth.difference / 0.5) * 100),
+      kneeFlexion.difference === null ? null : Math.max(0, 100 - (kneeFlexion.difference / 30) * 100),
+      cogDistance === null ? null : Math.max(0, 100 - (cogDistance / 0.3) * 100)
+    ].filter((score): score is number => score !== null);
+    const overallScore = scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
 
     // Generate improvements and strengths
     const improvements: string[] = [];
     const strengths: string[] = [];
 
-    if (bodyRotationDiff > 15) {
-      improvements.push(`Adjust body rotation by ${bodyRotationDiff.toFixed(1)}° to match professional positioning`);
-    } else if (bodyRotationDiff < 5) {
+    if (overallScore === null) {
+      improvements.push(refFrames.length && userFrames_filtered.length
+        ? 'Surfer not measurable in this phase'
+        : 'No video data available for this phase');
+    }
+
+    if (bodyRotation.difference !== null && bodyRotation.difference > 15) {
+      improvements.push(`Adjust body rotation by ${bodyRotation.difference.toFixed(1)}° to match professional positioning`);
+    } else if (bodyRotation.difference !== null && bodyRotation.difference < 5) {
       strengths.push('Excellent body rotation alignment');
     }
 
-    if (stanceWidthDiff > 0.2) {
-      improvements.push(userMetrics.stanceWidth > refMetrics.stanceWidth ? 
+    if (stanceWidth.difference !== null && stanceWidth.difference > 0.2) {
+      improvements.push(stanceWidth.user > stanceWidth.reference ? 
         'Narrow your stance for better control' : 
         'Widen your stance for more stability');
-    } else {
+    } else if (stanceWidth.difference !== null) {
       strengths.push('Good stance width control');
     }
 
-    if (kneeFlexionDiff > 10) {
-      improvements.push(userMetrics.kneeFlexion > refMetrics.kneeFlexion ?
+    if (kneeFlexion.difference !== null && kneeFlexion.difference > 10) {
+      improvements.push(kneeFlexion.user > kneeFlexion.reference ?
         'Reduce knee bend for more power transfer' :
         'Increase knee flexion for better compression');
-    } else {
+    } else if (kneeFlexion.difference !== null) {
       strengths.push('Proper knee flexion technique');
     }
 
-    if (cogDistance > 0.15) {
+    if (cogDistance !== null && cogDistance > 0.15) {
       improvements.push('Adjust center of gravity positioning for better balance');
-    } else {
+    } else if (cogDistance !== null) {
       strengths.push('Well-controlled center of gravity');
     }
 
     return {
       phase: phaseName,
-      score: Math.round(overallScore),
+      score: overallScore === null ? null : Math.round(overallScore),
       improvements,
       strengths,
       keyDifferences: {
-        bodyRotation: { 
-          user: userMetrics.bodyRotation, 
-          reference: refMetrics.bodyRotation, 
-          difference: bodyRotationDiff 
-        },
-        stanceWidth: { 
-          user: userMetrics.stanceWidth, 
-          reference: refMetrics.stanceWidth, 
-          difference: stanceWidthDiff 
-        },
-        kneeFlexion: { 
-          user: userMetrics.kneeFlexion, 
-          reference: refMetrics.kneeFlexion, 
-          difference: kneeFlexionDiff 
-        },
+        bodyRotation,
+        stanceWidth,
+        kneeFlexion,
         centerOfGravity: { 
-          user: userMetrics.centerOfGravity, 
-          reference: refMetrics.centerOfGravity, 
+          user: userCog, 
+          reference: refCog, 
           distance: cogDistance 
         }
       }
@@ -164,7 +149,10 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
   };
 
   const allAnalyses = phases.map(phase => analyzePhase(phase.name));
-  const overallScore = Math.round(allAnalyses.reduce((sum, analysis) => sum + analysis.score, 0) / phases.length);
+  const scoredAnalyses = allAnalyses.filter(analysis => analysis.score !== null);
+  const overallScore = scoredAnalyses.length > 0
+    ? Math.round(scoredAnalyses.reduce((sum, analysis) => sum + analysis.score, 0) / scoredAnalyses.length)
+    : null;
   const currentAnalysis = allAnalyses[currentPhase] || allAnalyses[0];
 
   const getScoreColor = (score: number) => {
@@ -193,17 +181,18 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
           <div className="flex items-center gap-4">
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-2">
-                {getScoreIcon(overallScore)}
-                <span className={`text-2xl font-bold ${getScoreColor(overallScore)}`}>
-                  {overallScore}/100
+                {overallScore !== null && getScoreIcon(overallScore)}
+                <span className={`text-2xl font-bold ${overallScore !== null ? getScoreColor(overallScore) : 'text-muted-foreground'}`}>
+                  {overallScore !== null ? `${overallScore}/100` : 'Not measurable'}
                 </span>
               </div>
-              <Progress value={overallScore} className="w-full" />
+              <Progress value={overallScore ?? 0} className="w-full" />
             </div>
             <div className="text-right">
               <p className="text-sm text-muted-foreground">vs Professional</p>
               <p className="text-lg font-semibold">
-                {overallScore >= 80 ? 'Excellent' : 
+                {overallScore === null ? '—' :
+                 overallScore >= 80 ? 'Excellent' : 
                  overallScore >= 60 ? 'Good' : 'Needs Work'}
               </p>
             </div>
@@ -229,9 +218,9 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-semibold">{currentAnalysis.phase} Phase</h3>
                   <div className="flex items-center gap-2">
-                    {getScoreIcon(currentAnalysis.score)}
-                    <span className={`text-xl font-bold ${getScoreColor(currentAnalysis.score)}`}>
-                      {currentAnalysis.score}/100
+                    {currentAnalysis.score !== null && getScoreIcon(currentAnalysis.score)}
+                    <span className={`text-xl font-bold ${currentAnalysis.score !== null ? getScoreColor(currentAnalysis.score) : 'text-muted-foreground'}`}>
+                      {currentAnalysis.score !== null ? `${currentAnalysis.score}/100` : 'Not measurable'}
                     </span>
                   </div>
                 </div>
@@ -282,12 +271,12 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                       <span className="font-medium">Body Rotation</span>
                       <div className="text-right">
                         <div className="flex items-center gap-2">
-                          <span className="text-sm">You: {currentAnalysis.keyDifferences.bodyRotation.user.toFixed(1)}°</span>
-                          <span className="text-sm text-muted-foreground">Pro: {currentAnalysis.keyDifferences.bodyRotation.reference.toFixed(1)}°</span>
+                          <span className="text-sm">You: {formatMetric(currentAnalysis.keyDifferences.bodyRotation.user, 1, '°')}</span>
+                          <span className="text-sm text-muted-foreground">Pro: {formatMetric(currentAnalysis.keyDifferences.bodyRotation.reference, 1, '°')}</span>
                         </div>
                         <div className={`text-xs ${currentAnalysis.keyDifferences.bodyRotation.difference > 15 ? 'text-red-600' : 'text-green-600'}`}>
                           {currentAnalysis.keyDifferences.bodyRotation.difference > 15 ? <TrendingDown className="h-3 w-3 inline" /> : <TrendingUp className="h-3 w-3 inline" />}
-                          Δ {currentAnalysis.keyDifferences.bodyRotation.difference.toFixed(1)}°
+                          Δ {formatMetric(currentAnalysis.keyDifferences.bodyRotation.difference, 1, '°')}
                         </div>
                       </div>
                     </div>
@@ -296,12 +285,12 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                       <span className="font-medium">Stance Width</span>
                       <div className="text-right">
                         <div className="flex items-center gap-2">
-                          <span className="text-sm">You: {currentAnalysis.keyDifferences.stanceWidth.user.toFixed(2)}</span>
-                          <span className="text-sm text-muted-foreground">Pro: {currentAnalysis.keyDifferences.stanceWidth.reference.toFixed(2)}</span>
+                          <span className="text-sm">You: {formatMetric(currentAnalysis.keyDifferences.stanceWidth.user, 2)}</span>
+                          <span className="text-sm text-muted-foreground">Pro: {formatMetric(currentAnalysis.keyDifferences.stanceWidth.reference, 2)}</span>
                         </div>
                         <div className={`text-xs ${currentAnalysis.keyDifferences.stanceWidth.difference > 0.2 ? 'text-red-600' : 'text-green-600'}`}>
                           {currentAnalysis.keyDifferences.stanceWidth.difference > 0.2 ? <TrendingDown className="h-3 w-3 inline" /> : <TrendingUp className="h-3 w-3 inline" />}
-                          Δ {currentAnalysis.keyDifferences.stanceWidth.difference.toFixed(2)}
+                          Δ {formatMetric(currentAnalysis.keyDifferences.stanceWidth.difference, 2)}
                         </div>
                       </div>
                     </div>
@@ -310,12 +299,12 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                       <span className="font-medium">Knee Flexion</span>
                       <div className="text-right">
                         <div className="flex items-center gap-2">
-                          <span className="text-sm">You: {currentAnalysis.keyDifferences.kneeFlexion.user.toFixed(1)}°</span>
-                          <span className="text-sm text-muted-foreground">Pro: {currentAnalysis.keyDifferences.kneeFlexion.reference.toFixed(1)}°</span>
+                          <span className="text-sm">You: {formatMetric(currentAnalysis.keyDifferences.kneeFlexion.user, 1, '°')}</span>
+                          <span className="text-sm text-muted-foreground">Pro: {formatMetric(currentAnalysis.keyDifferences.kneeFlexion.reference, 1, '°')}</span>
                         </div>
                         <div className={`text-xs ${currentAnalysis.keyDifferences.kneeFlexion.difference > 10 ? 'text-red-600' : 'text-green-600'}`}>
                           {currentAnalysis.keyDifferences.kneeFlexion.difference > 10 ? <TrendingDown className="h-3 w-3 inline" /> : <TrendingUp className="h-3 w-3 inline" />}
-                          Δ {currentAnalysis.keyDifferences.kneeFlexion.difference.toFixed(1)}°
+                          Δ {formatMetric(currentAnalysis.keyDifferences.kneeFlexion.difference, 1, '°')}
                         </div>
                       </div>
                     </div>
@@ -324,11 +313,11 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                       <span className="font-medium">Center of Gravity</span>
                       <div className="text-right">
                         <div className="flex items-center gap-2">
-                          <span className="text-sm">Distance: {currentAnalysis.keyDifferences.centerOfGravity.distance.toFixed(3)}</span>
+                          <span className="text-sm">Distance: {formatMetric(currentAnalysis.keyDifferences.centerOfGravity.distance, 3)}</span>
                         </div>
                         <div className={`text-xs ${currentAnalysis.keyDifferences.centerOfGravity.distance > 0.15 ? 'text-red-600' : 'text-green-600'}`}>
                           {currentAnalysis.keyDifferences.centerOfGravity.distance > 0.15 ? <TrendingDown className="h-3 w-3 inline" /> : <TrendingUp className="h-3 w-3 inline" />}
-                          {currentAnalysis.keyDifferences.centerOfGravity.distance > 0.15 ? 'Needs alignment' : 'Well aligned'}
+                          {currentAnalysis.keyDifferences.centerOfGravity.distance === null ? 'Not measurable' : currentAnalysis.keyDifferences.centerOfGravity.distance > 0.15 ? 'Needs alignment' : 'Well aligned'}
                         </div>
                       </div>
                     </div>
@@ -341,7 +330,7 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
               <div className="space-y-4">
                 <h4 className="font-semibold">Personalized Training Recommendations</h4>
                 
-                {currentAnalysis.score < 80 && (
+                {(currentAnalysis.score === null || currentAnalysis.score < 80) && (
                   <div className="space-y-3">
                     <div className="p-4 border border-orange-200 rounded-lg bg-orange-50">
                       <h5 className="font-semibold text-orange-800 mb-2">Priority Focus Areas</h5>
@@ -399,37 +388,41 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {turnResults.map((turn, index) => (
+              {turnResults.map((turn, index) => {
+                const btMax = turn.bottom_turn.max_score ?? 10;
+                const ttMax = turn.top_turn.max_score ?? 10;
+                return (
                 <Card key={index} className="border-2">
                   <CardContent className="p-4">
                     <h4 className="font-medium mb-3 flex items-center gap-2">
                       <Award className="h-4 w-4" />
                       Turn {index + 1}
+                      {turn.side && <Badge variant="outline" className="capitalize">{turn.side}</Badge>}
                     </h4>
                     <div className="space-y-3">
                       <div className="flex justify-between items-center p-2 bg-blue-50 rounded">
                         <span className="text-sm font-medium">Bottom Turn:</span>
                         <div className="flex items-center gap-2">
-                          <span className={`font-bold ${getScoreColor((turn.bottom_turn.score / 10) * 100)}`}>
-                            {turn.bottom_turn.score}/10
+                          <span className={`font-bold ${getScoreColor((turn.bottom_turn.score / btMax) * 100)}`}>
+                            {turn.bottom_turn.score}/{btMax}
                           </span>
-                          {getScoreIcon((turn.bottom_turn.score / 10) * 100)}
+                          {getScoreIcon((turn.bottom_turn.score / btMax) * 100)}
                         </div>
                       </div>
                       <div className="flex justify-between items-center p-2 bg-green-50 rounded">
                         <span className="text-sm font-medium">Top Turn:</span>
                         <div className="flex items-center gap-2">
-                          <span className={`font-bold ${getScoreColor((turn.top_turn.score / 10) * 100)}`}>
-                            {turn.top_turn.score}/10
+                          <span className={`font-bold ${getScoreColor((turn.top_turn.score / ttMax) * 100)}`}>
+                            {turn.top_turn.score}/{ttMax}
                           </span>
-                          {getScoreIcon((turn.top_turn.score / 10) * 100)}
+                          {getScoreIcon((turn.top_turn.score / ttMax) * 100)}
                         </div>
                       </div>
                       <div className="pt-2 border-t border-gray-200">
                         <div className="flex justify-between items-center">
                           <span className="text-sm font-semibold">Total Turn Score:</span>
-                          <span className={`text-lg font-bold ${getScoreColor(((turn.bottom_turn.score + turn.top_turn.score) / 20) * 100)}`}>
-                            {turn.bottom_turn.score + turn.top_turn.score}/20
+                          <span className={`text-lg font-bold ${getScoreColor(((turn.bottom_turn.score + turn.top_turn.score) / (btMax + ttMax)) * 100)}`}>
+                            {turn.bottom_turn.score + turn.top_turn.score}/{btMax + ttMax}
                           </span>
                         </div>
                       </div>
@@ -439,11 +432,13 @@ export const DetailedAnalysis = ({ referenceFrames, userFrames, currentPhase, ph
                         <div>Compression: {turn.bottom_turn.snapshot.knee.toFixed(1)}°</div>
                         <div>Torso Lean: {turn.bottom_turn.snapshot.torso.toFixed(1)}°</div>
                         <div>Rotation: {turn.bottom_turn.snapshot.rot.toFixed(1)}°</div>
+                        <div>Rail Angle: {formatMetric(turn.bottom_turn.snapshot.rail, 1, '°')}</div>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
-              ))}
+                );
+              })}
             </div>
           </CardContent>
         </Card>
@@ -2,11 +2,13 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { TrendingUp, TrendingDown, Target, AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { TrendingUp, TrendingDown, Target, AlertCircle, CheckCircle2, Loader2, Camera } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import PoseVisualization from "./PoseVisualization";
 import MetricsChart from "./MetricsChart";
+import TurnSideReport from "./TurnSideReport";
+import TrajectoryChart from "./TrajectoryChart";
 const FeedbackDashboard = () => {
   const [analysisData, setAnalysisData] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -39,6 +41,11 @@ const FeedbackDashboard = () => {
           metrics: analysisDataObj?.metrics || [],
           feedback: feedbackDataObj?.tips || [],
           frameAnalysis: analysisDataObj?.frameAnalysis || [],
+          turnResults: analysisDataObj?.turnResults || [],
+          cutbackResults: analysisDataObj?.cutbackResults || [],
+          tubeRideResults: analysisDataObj?.tubeRideResults || [],
+          takeoffResults: analysisDataObj?.takeoffResults || [],
+          viewpoint: analysisDataObj?.viewpoint || null,
           videoUrl: session.video_url
         });
 
@@ -47,15 +54,22 @@ const FeedbackDashboard = () => {
         if (analysisDataObj?.frameAnalysis && analysisDataObj.frameAnalysis.length > 0) {
           // New format with detailed frame analysis
           processedFrames = analysisDataObj.frameAnalysis.map((frame: any, index: number) => ({
-            frameNumber: index + 1,
+            frameNumber: frame.frameNumber ?? index + 1,
             timestamp: frame.timestamp || index * 0.5,
             imageData: frame.imageData,
             // Include the actual frame image
-            bodyRotation: frame.metrics?.bodyRotation || 0,
-            stanceWidth: frame.metrics?.stanceWidth || 0.5,
-            kneeFlexion: frame.metrics?.kneeFlexion || 45,
-            balance: frame.metrics?.balanceScore || 50,
+            bodyRotation: frame.metrics?.bodyRotation ?? null,
+            stanceWidth: frame.metrics?.stanceWidth ?? null,
+            kneeFlexion: frame.metrics?.kneeFlexion ?? null,
+            // Same balance measure the analysis function scores: how centred the hips are
+            balance: frame.metrics?.centerOfGravity ? Math.max(0, 100 - Math.abs(frame.metrics.centerOfGravity.x - 50)) : null,
+            weightDistribution: frame.metrics?.weightDistribution ?? null,
             poses: frame.poses || [],
+            subjectTrackId: frame.subjectTrackId,
+            cropBox: frame.cropBox,
+            board: frame.board,
+            cameraTransform: frame.cameraTransform,
+            scene: frame.scene,
             metrics: frame.metrics || {}
           }));
         } else if (analysisDataObj?.pose_analysis?.poseProgression) {
@@ -63,23 +77,18 @@ const FeedbackDashboard = () => {
           processedFrames = analysisDataObj.pose_analysis.poseProgression.map((frame: any, index: number) => ({
             frameNumber: index + 1,
             timestamp: frame.timestamp || index * 2,
-            bodyRotation: frame.bodyRotation || 0,
-            stanceWidth: analysisDataObj.pose_analysis.avgStanceWidth || 0.5,
-            kneeFlexion: analysisDataObj.pose_analysis.avgKneeFlexion || 45,
-            balance: 50 + index * 10,
-            // Simulate variation
-            poses: [{
-              keypoints: [],
-              confidence: 0.8
-            }],
+            bodyRotation: frame.bodyRotation ?? null,
+            stanceWidth: analysisDataObj.pose_analysis.avgStanceWidth ?? null,
+            kneeFlexion: analysisDataObj.pose_analysis.avgKneeFlexion ?? null,
+            // Old sessions stored no per-frame balance or keypoints, so the charts show gaps there
+            balance: null,
+            weightDistribution: null,
+            poses: [],
             metrics: {
-              bodyRotation: frame.bodyRotation || 0,
-              centerOfGravity: frame.centerOfGravity || {
-                x: 50,
-                y: 50
-              },
-              stanceWidth: analysisDataObj.pose_analysis.avgStanceWidth || 0.5,
-              kneeFlexion: analysisDataObj.pose_analysis.avgKneeFlexion || 45
+              bodyRotation: frame.bodyRotation ?? null,
+              centerOfGravity: frame.centerOfGravity ?? null,
+              stanceWidth: analysisDataObj.pose_analysis.avgStanceWidth ?? null,
+              kneeFlexion: analysisDataObj.pose_analysis.avgKneeFlexion ?? null
             }
           }));
         }
@@ -170,6 +179,8 @@ const FeedbackDashboard = () => {
         return <Badge className="bg-primary text-primary-foreground">Good</Badge>;
       case "warning":
         return <Badge className="bg-destructive text-destructive-foreground">Needs Work</Badge>;
+      case "not_measurable":
+        return <Badge variant="outline">Not Measurable</Badge>;
       default:
         return <Badge variant="secondary">Average</Badge>;
     }
@@ -202,10 +213,36 @@ const FeedbackDashboard = () => {
             </CardContent>
           </Card>
 
+          {/* Camera viewpoint */}
+          {analysisData.viewpoint && <Card className="mb-8 shadow-wave">
+              <CardContent className="p-6">
+                <div className="flex gap-4">
+                  <div className="flex-shrink-0 w-12 h-12 rounded-lg flex items-center justify-center bg-primary/10 text-primary">
+                    <Camera className="h-6 w-6" />
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">Filmed</span>
+                      <Badge variant="secondary" className="capitalize">{analysisData.viewpoint.viewpoint}</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {(analysisData.viewpoint.confidence * 100).toFixed(0)}% of frames agree, {analysisData.viewpoint.angleSpace === '3d' ? '3D joint angles' : 'angles measured on the image'}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {analysisData.viewpoint.unreliableMetrics.length > 0
+                        ? "Some metrics are distorted from this angle. They are marked below and left out of the overall score."
+                        : "Every metric can be trusted from this angle."}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>}
+
           {/* Metrics Grid */}
           <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
             {analysisData.metrics.map((metric: any, index: number) => {
-            const status = getScoreStatus(metric.score, analysisData.skillLevel);
+            const measurable = metric.score !== null && metric.score !== undefined;
+            const status = measurable ? getScoreStatus(metric.score, analysisData.skillLevel) : "not_measurable";
             const idealRange = getIdealRange(metric.name, analysisData.skillLevel);
             return <Card key={index} className="shadow-wave hover:shadow-depth transition-all duration-300">
                   <CardHeader className="pb-3">
@@ -213,17 +250,29 @@ const FeedbackDashboard = () => {
                       {metric.name}
                       {getStatusBadge(status)}
                     </CardTitle>
+                    {metric.unreliable && <Badge variant="outline" className="w-fit">
+                        <AlertCircle className="h-3 w-3 mr-1" />
+                        Unreliable from this view
+                      </Badge>}
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <span className={`text-2xl font-bold ${getScoreColor(metric.score)}`}>
-                          {metric.score}%
-                        </span>
-                        {metric.score >= 85 ? <TrendingUp className="h-5 w-5 text-accent" /> : <TrendingDown className="h-5 w-5 text-destructive" />}
-                      </div>
-                      <Progress value={metric.score} className="h-2" />
+                      {measurable ? <>
+                          <div className="flex items-center justify-between">
+                            <span className={`text-2xl font-bold ${getScoreColor(metric.score)}`}>
+                              {metric.score}%
+                            </span>
+                            {metric.score >= 85 ? <TrendingUp className="h-5 w-5 text-accent" /> : <TrendingDown className="h-5 w-5 text-destructive" />}
+                          </div>
+                          <Progress value={metric.score} className="h-2" />
+                        </> : <p className="text-sm text-muted-foreground">
+                          Joints needed for this metric were not visible clearly enough in any frame.
+                        </p>}
                       <div className="text-sm space-y-1">
+                        {metric.value && <div className="flex justify-between">
+                            <span className="text-muted-foreground">Measured:</span>
+                            <span>{metric.value}</span>
+                          </div>}
                         <div className="flex justify-between">
                           <span className="text-muted-foreground">Ideal for {analysisData.skillLevel}:</span>
                           <span>{idealRange}</span>
@@ -235,6 +284,12 @@ const FeedbackDashboard = () => {
           })}
           </div>
 
+          {/* Turns by side */}
+          {(analysisData.turnResults.length > 0 || analysisData.cutbackResults.length > 0 || analysisData.tubeRideResults.length > 0 || analysisData.takeoffResults.length > 0) && <div className="mb-8">
+              <h3 className="text-2xl font-bold mb-6">Turns by Side</h3>
+              <TurnSideReport turnResults={analysisData.turnResults} cutbackResults={analysisData.cutbackResults} tubeRideResults={analysisData.tubeRideResults} takeoffResults={analysisData.takeoffResults} />
+            </div>}
+
           {/* Pose Visualization */}
           {frameData.length > 0 && <div className="mb-8">
               <h3 className="text-2xl font-bold mb-6">Frame-by-Frame Analysis</h3>
@@ -242,7 +297,13 @@ const FeedbackDashboard = () => {
             </div>}
 
           {/* Performance Charts */}
-          {frameData.length > 0}
+          {frameData.length > 0 && <div className="mb-8">
+              <h3 className="text-2xl font-bold mb-6">Performance Charts</h3>
+              <MetricsChart frameData={frameData} skillLevel={analysisData.skillLevel} />
+              <div className="mt-6">
+                <TrajectoryChart frameData={frameData} />
+              </div>
+            </div>}
 
           {/* Feedback Cards */}
           <div className="space-y-4">
@@ -4,8 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { extractFramesFromVideo } from '@/utils/frameExtraction';
-import { poseDetector, calculateSurfMetrics, type FramePoseAnalysis } from '@/utils/poseDetection';
+import { extractFrames } from '@/utils/frameExtraction';
+import { calculateSurfMetrics, getSubjectPose, formatMetric, NOT_MEASURABLE_METRICS, type FramePoseAnalysis } from '@/utils/poseDetection';
+import { SurferTracker } from '@/utils/surferTracker';
+import { poseWorkerPool } from '@/utils/poseWorkerPool';
 import { Play, Download, Eye, Zap } from 'lucide-react';
 
 interface ReferenceVideo {
@@ -69,11 +71,12 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
       for (let i = startIdx; i < Math.min(endIdx, frameAnalyses.length); i++) {
         const frame = frameAnalyses[i];
         
-        if (frame && frame.poses && frame.poses.length > 0 && frame.metrics) {
+        const subjectPose = frame ? getSubjectPose(frame) : null;
+        if (subjectPose && frame.metrics) {
           // Simple scoring based on pose confidence and having valid metrics
-          const poseConfidence = frame.poses[0].confidence || 0;
-          const hasValidMetrics = frame.metrics.bodyRotation !== undefined && 
-                                  frame.metrics.kneeFlexion !== undefined;
+          const poseConfidence = subjectPose.confidence || 0;
+          const hasValidMetrics = frame.metrics.bodyRotation != null && 
+                                  frame.metrics.kneeFlexion != null;
           
           const score = poseConfidence * (hasValidMetrics ? 1 : 0.1) + 0.1; // Always give some score
           
@@ -101,7 +104,7 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
           imageData: '', // Will be filled when extracting frames
           phase: phase.name,
           importance: bestScore,
-          metrics: bestFrame.metrics || { bodyRotation: 0, centerOfGravity: { x: 0, y: 0 }, stanceWidth: 0, kneeFlexion: 0 }
+          metrics: bestFrame.metrics || NOT_MEASURABLE_METRICS
         });
         
         console.log(`Added critical frame for ${phase.name}: frame ${bestFrame.frameNumber}`);
@@ -127,30 +130,37 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
       
       setProgress(40);
       
-      // Extract more frames for better analysis (12 frames)
-      const extractedFrames = await extractFramesFromVideo(file, 12);
+      // Up to 12 frames across the clip, at most 10 fps
+      const { frames: extractedFrames } = await extractFrames(file, { maxFrames: 12 });
       setProgress(60);
 
       // Initialize pose detection
-      await poseDetector.initialize();
+      await poseWorkerPool.initialize();
       setProgress(70);
 
-      // Analyze all frames
+      // Analyze all frames, following the most prominent surfer
       const frameAnalyses: FramePoseAnalysis[] = [];
+      const tracker = new SurferTracker();
       
-      for (let i = 0; i < extractedFrames.length; i++) {
+      const jobFrames = extractedFrames.map(({ frameNumber, canvas }) => ({ frameNumber, image: canvas }));
+      for await (const detection of poseWorkerPool.detectFrames(jobFrames, { detectBoards: false })) {
+        const i = detection.frameIndex;
         try {
-          const poseResult = await poseDetector.detectPose(extractedFrames[i].canvas);
+          if (detection.error) throw new Error(detection.error);
+          const trackedPoses = tracker.update(detection.poses);
+          const poseResult = tracker.getSubject(trackedPoses);
           
           console.log(`Frame ${i}: pose detected =`, !!poseResult, 'keypoints =', poseResult?.keypoints?.length);
           
           if (poseResult && poseResult.keypoints && poseResult.keypoints.length > 0) {
-            const metrics = calculateSurfMetrics(poseResult.keypoints);
+            const metrics = calculateSurfMetrics(poseResult.keypoints, null, null, poseResult.worldKeypoints);
             
             frameAnalyses.push({
               frameNumber: extractedFrames[i].frameNumber,
               timestamp: extractedFrames[i].timestamp,
-              poses: [poseResult],
+              poses: trackedPoses,
+              subjectTrackId: poseResult.trackId,
+              cropBox: poseResult.cropBox ?? null,
               metrics
             });
             
@@ -161,7 +171,7 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
               frameNumber: extractedFrames[i].frameNumber,
               timestamp: extractedFrames[i].timestamp,
               poses: [],
-              metrics: { bodyRotation: 0, centerOfGravity: { x: 0, y: 0 }, stanceWidth: 0, kneeFlexion: 0 }
+              metrics: NOT_MEASURABLE_METRICS
             });
             
             console.log(`Frame ${i}: No pose detected, added placeholder`);
@@ -173,7 +183,7 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
             frameNumber: extractedFrames[i].frameNumber,
             timestamp: extractedFrames[i].timestamp,
             poses: [],
-            metrics: { bodyRotation: 0, centerOfGravity: { x: 0, y: 0 }, stanceWidth: 0, kneeFlexion: 0 }
+            metrics: NOT_MEASURABLE_METRICS
           });
         }
         
@@ -354,15 +364,15 @@ export const FrameAnalysisViewer = ({ video }: FrameAnalysisViewerProps) => {
                   </div>
                   <div>
                     <p className="font-semibold text-muted-foreground">Body Rotation</p>
-                    <p>{selectedFrame.metrics?.bodyRotation?.toFixed(1)}°</p>
+                    <p>{formatMetric(selectedFrame.metrics?.bodyRotation, 1, '°')}</p>
                   </div>
                   <div>
                     <p className="font-semibold text-muted-foreground">Knee Flexion</p>
-                    <p>{selectedFrame.metrics?.kneeFlexion?.toFixed(1)}°</p>
+                    <p>{formatMetric(selectedFrame.metrics?.kneeFlexion, 1, '°')}</p>
                   </div>
                   <div>
                     <p className="font-semibold text-muted-foreground">Stance Width</p>
-                    <p>{selectedFrame.metrics?.stanceWidth?.toFixed(1)}px</p>
+                    <p>{formatMetric(selectedFrame.metrics?.stanceWidth, 2)}</p>
                   </div>
                 </div>
 
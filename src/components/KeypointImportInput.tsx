@@ -0,0 +1,64 @@
+import { FileJson, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface KeypointImportInputProps {
+  files: File[];
+  fps: string;
+  onFilesChange: (files: File[]) => void;
+  onFpsChange: (fps: string) => void;
+  disabled?: boolean;
+}
+
+// Optional keypoints from OpenPose, COCO-format tools or MediaPipe, used instead of running pose detection
+const KeypointImportInput = ({ files, fps, onFilesChange, onFpsChange, disabled }: KeypointImportInputProps) => {
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <Label className="flex items-center gap-2 text-sm">
+        <FileJson className="h-4 w-4 text-primary" />
+        Keypoints from another tool (optional)
+      </Label>
+      <p className="text-xs text-muted-foreground">
+        COCO, OpenPose (BODY_25 or COCO) or MediaPipe JSON covering the whole video. OpenPose's one-file-per-frame output can be selected together.
+      </p>
+      {files.length === 0 ? (
+        <Input
+          type="file"
+          accept=".json,application/json"
+          multiple
+          disabled={disabled}
+          onChange={(e) => onFilesChange(Array.from(e.target.files ?? []))}
+        />
+      ) : (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="truncate text-muted-foreground">
+            {files.length === 1 ? files[0].name : `${files.length} keypoint files`}
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onFilesChange([])} disabled={disabled}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      {files.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor="keypoint-fps" className="text-muted-foreground">Frame rate</Label>
+          <Input
+            id="keypoint-fps"
+            type="number"
+            min="1"
+            step="any"
+            placeholder="fps"
+            className="w-24 h-8"
+            value={fps}
+            disabled={disabled}
+            onChange={(e) => onFpsChange(e.target.value)}
+          />
+          <span className="text-muted-foreground">fps</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeypointImportInput;
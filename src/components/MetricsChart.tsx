@@ -24,10 +24,12 @@ interface MetricsChartProps {
   frameData: Array<{
     frameNumber: number;
     timestamp: number;
-    bodyRotation: number;
-    stanceWidth: number;
-    kneeFlexion: number;
-    balance: number;
+    // null = not measurable in that frame; drawn as a gap rather than a guessed value
+    bodyRotation: number | null;
+    stanceWidth: number | null;
+    kneeFlexion: number | null;
+    balance: number | null;
+    weightDistribution: number | null;
   }>;
   skillLevel: string;
 }
@@ -38,41 +40,35 @@ const MetricsChart: React.FC<MetricsChartProps> = ({ frameData, skillLevel }) =>
     frame: index + 1,
     timestamp: frame.timestamp,
     bodyRotation: frame.bodyRotation,
-    stanceWidth: frame.stanceWidth * 100, // Convert to percentage for better visualization
+    stanceWidth: frame.stanceWidth === null ? null : frame.stanceWidth * 100, // Convert to percentage for better visualization
     kneeFlexion: frame.kneeFlexion,
     balance: frame.balance,
+    weightDistribution: frame.weightDistribution,
   }));
 
-  // Prepare data for radar chart (average values)
+  // Prepare data for radar chart (average of measured values only)
+  const averageOf = (key: 'bodyRotation' | 'stanceWidth' | 'kneeFlexion' | 'balance' | 'weightDistribution') => {
+    const values = frameData.map(frame => frame[key]).filter((value): value is number => value !== null);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  };
   const averageMetrics = {
-    bodyRotation: frameData.reduce((sum, frame) => sum + frame.bodyRotation, 0) / frameData.length,
-    stanceWidth: frameData.reduce((sum, frame) => sum + frame.stanceWidth, 0) / frameData.length,
-    kneeFlexion: frameData.reduce((sum, frame) => sum + frame.kneeFlexion, 0) / frameData.length,
-    balance: frameData.reduce((sum, frame) => sum + frame.balance, 0) / frameData.length,
+    bodyRotation: averageOf('bodyRotation'),
+    stanceWidth: averageOf('stanceWidth'),
+    kneeFlexion: averageOf('kneeFlexion'),
+    balance: averageOf('balance'),
+    weightDistribution: averageOf('weightDistribution'),
   };
 
+  // Axes with no measured value are left out rather than drawn at zero
+  const radarAxis = (metric: string, value: number | null, toPercent: (value: number) => number) =>
+    value === null ? null : { metric, value: toPercent(value), fullMark: 100 };
   const radarData = [
-    {
-      metric: 'Body Rotation',
-      value: Math.min(averageMetrics.bodyRotation / 45 * 100, 100), // Normalize to 0-100
-      fullMark: 100,
-    },
-    {
-      metric: 'Stance Width',
-      value: Math.min(averageMetrics.stanceWidth * 100, 100),
-      fullMark: 100,
-    },
-    {
-      metric: 'Knee Flexion',
-      value: Math.min(averageMetrics.kneeFlexion / 90 * 100, 100), // Normalize to 0-100
-      fullMark: 100,
-    },
-    {
-      metric: 'Balance',
-      value: averageMetrics.balance,
-      fullMark: 100,
-    },
-  ];
+    radarAxis('Body Rotation', averageMetrics.bodyRotation, value => Math.min(value / 45 * 100, 100)), // Normalize to 0-100
+    radarAxis('Stance Width', averageMetrics.stanceWidth, value => Math.min(value * 100, 100)),
+    radarAxis('Knee Flexion', averageMetrics.kneeFlexion, value => Math.min(value / 90 * 100, 100)), // Normalize to 0-100
+    radarAxis('Balance', averageMetrics.balance, value => value),
+    radarAxis('Back Foot Weight', averageMetrics.weightDistribution, value => value),
+  ].filter(Boolean);
 
   const chartConfig = {
     bodyRotation: {
@@ -91,6 +87,10 @@ const MetricsChart: React.FC<MetricsChartProps> = ({ frameData, skillLevel }) =>
       label: 'Balance',
       color: 'hsl(var(--accent-light))',
     },
+    weightDistribution: {
+      label: 'Back Foot Weight %',
+      color: 'hsl(var(--destructive))',
+    },
   };
 
   if (!frameData || frameData.length === 0) {
@@ -153,6 +153,13 @@ const MetricsChart: React.FC<MetricsChartProps> = ({ frameData, skillLevel }) =>
                   strokeWidth={2}
                   dot={{ r: 3, fill: 'hsl(var(--accent-light))' }}
                 />
+                <Line
+                  type="monotone"
+                  dataKey="weightDistribution"
+                  stroke="hsl(var(--destructive))"
+                  strokeWidth={2}
+                  dot={{ r: 3, fill: 'hsl(var(--destructive))' }}
+                />
               </LineChart>
             </ResponsiveContainer>
           </ChartContainer>
@@ -3,7 +3,11 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Play, Pause, SkipBack, SkipForward, Eye, AlertTriangle } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Eye, AlertTriangle, Move } from 'lucide-react';
+import { getSubjectPose, formatMetric, type BoundingBox, type SurfMetrics } from '@/utils/poseDetection';
+import type { BoardDetection } from '@/utils/boardDetection';
+import { IDENTITY_TRANSFORM, sceneExtent, toScene, type CameraTransform } from '@/utils/cameraMotion';
+import type { SceneGeometry } from '@/utils/sceneGeometry';
 
 interface PoseFrame {
   frameNumber: number;
@@ -12,13 +16,16 @@ interface PoseFrame {
   poses: Array<{
     keypoints: Array<{ x: number; y: number; confidence: number; name: string }>;
     confidence: number;
+    boundingBox?: BoundingBox;
+    trackId?: number;
+    interpolated?: boolean;
   }>;
-  metrics: {
-    bodyRotation: number;
-    centerOfGravity: { x: number; y: number };
-    stanceWidth: number;
-    kneeFlexion: number;
-  };
+  subjectTrackId?: number;
+  cropBox?: BoundingBox | null;
+  board?: BoardDetection | null;
+  cameraTransform?: CameraTransform | null;
+  scene?: SceneGeometry | null;
+  metrics: Partial<SurfMetrics>;
   poseDetectionError?: string; // Error message when pose detection fails
 }
 
@@ -31,8 +38,49 @@ const PoseVisualization: React.FC<PoseVisualizationProps> = ({ frames, videoUrl
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [showPoseOverlay, setShowPoseOverlay] = useState(true);
+  const [stabilized, setStabilized] = useState(false);
 
   const currentFrame = frames[currentFrameIndex];
+  const subjectPose = currentFrame ? getSubjectPose(currentFrame) : null;
+  const otherPoses = currentFrame?.poses?.filter(pose => pose !== subjectPose && pose.boundingBox) || [];
+
+  // Stabilised view: every frame is placed where the camera was pointing, on a stage big enough
+  // for the whole pan, so the scene stays still and the surfer moves across it
+  const canStabilize = frames.some(frame => frame.cameraTransform);
+  const extent = sceneExtent(frames.map(frame => frame.cameraTransform));
+  const fit = 100 / Math.max(extent.width, extent.height);
+  const toStage = (point: { x: number; y: number }) => ({
+    x: (point.x - extent.x) * fit + (100 - extent.width * fit) / 2,
+    y: (point.y - extent.y) * fit + (100 - extent.height * fit) / 2
+  });
+  const frameTransform = currentFrame?.cameraTransform ?? IDENTITY_TRANSFORM;
+  const frameOrigin = toStage(frameTransform);
+  const frameStyle: React.CSSProperties = stabilized ? {
+    left: `${frameOrigin.x}%`,
+    top: `${frameOrigin.y}%`,
+    width: `${frameTransform.scale * 100 * fit}%`,
+    height: `${frameTransform.scale * 100 * fit}%`
+  } : { inset: 0 };
+  const sceneTrail = frames
+    .slice(0, currentFrameIndex + 1)
+    .filter(frame => frame.metrics?.centerOfGravity)
+    .map(frame => toStage(toScene(frame.metrics.centerOfGravity, frame.cameraTransform)));
+
+  // Short stroke along the wave face under the surfer; directions have y pointing up
+  const horizon = currentFrame?.scene?.horizon;
+  const waveFace = currentFrame?.scene?.waveFace;
+  const faceStroke = waveFace && subjectPose?.boundingBox ? (() => {
+    const radians = waveFace.direction * (Math.PI / 180);
+    const halfLength = Math.max(subjectPose.boundingBox.width, 5);
+    const cx = subjectPose.boundingBox.x + subjectPose.boundingBox.width / 2;
+    const cy = subjectPose.boundingBox.y + subjectPose.boundingBox.height;
+    return {
+      x1: cx - Math.cos(radians) * halfLength,
+      y1: cy + Math.sin(radians) * halfLength,
+      x2: cx + Math.cos(radians) * halfLength,
+      y2: cy - Math.sin(radians) * halfLength
+    };
+  })() : null;
 
   const handleNext = () => {
     setCurrentFrameIndex((prev) => (prev + 1) % frames.length);
@@ -123,6 +171,71 @@ const PoseVisualization: React.FC<PoseVisualizationProps> = ({ frames, videoUrl
           return null;
         })}
         
+        {/* Detected horizon, the level reference for lean and board angles */}
+        {horizon && (
+          <line
+            x1={horizon.left.x}
+            y1={horizon.left.y}
+            x2={horizon.right.x}
+            y2={horizon.right.y}
+            stroke="hsl(var(--secondary))"
+            strokeWidth="0.3"
+            strokeDasharray="3 1"
+            opacity="0.9"
+          />
+        )}
+
+        {/* Local slope of the wave face */}
+        {faceStroke && (
+          <line
+            {...faceStroke}
+            stroke="hsl(var(--secondary))"
+            strokeWidth="0.5"
+            opacity="0.9"
+          />
+        )}
+        
+        {/* Surfboard outline */}
+        {currentFrame?.board && (
+          <polygon
+            points={currentFrame.board.outline.map(point => `${point.x},${point.y}`).join(' ')}
+            fill="hsl(var(--accent) / 0.2)"
+            stroke="hsl(var(--accent))"
+            strokeWidth="0.4"
+          />
+        )}
+        
+        {/* Zoomed region the surfer's pose was estimated in */}
+        {currentFrame?.cropBox && (
+          <rect
+            x={currentFrame.cropBox.x}
+            y={currentFrame.cropBox.y}
+            width={currentFrame.cropBox.width}
+            height={currentFrame.cropBox.height}
+            fill="none"
+            stroke="hsl(var(--primary))"
+            strokeWidth="0.3"
+            strokeDasharray="2 1"
+            opacity="0.5"
+          />
+        )}
+        
+        {/* Other people in the lineup, not analysed */}
+        {otherPoses.map((pose, index) => (
+          <rect
+            key={`other-${pose.trackId ?? index}`}
+            x={pose.boundingBox.x}
+            y={pose.boundingBox.y}
+            width={pose.boundingBox.width}
+            height={pose.boundingBox.height}
+            fill="none"
+            stroke="hsl(var(--muted-foreground))"
+            strokeWidth="0.3"
+            strokeDasharray="1 1"
+            opacity="0.6"
+          />
+        ))}
+        
         {/* Center of gravity indicator */}
         {currentFrame?.metrics?.centerOfGravity && (
           <circle
@@ -163,6 +276,19 @@ const PoseVisualization: React.FC<PoseVisualizationProps> = ({ frames, videoUrl
                 <Eye className="h-4 w-4 mr-2" />
                 {showPoseOverlay ? 'Hide' : 'Show'} Pose
               </Button>
+              {canStabilize && (
+                <Button
+                  variant={stabilized ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setStabilized(!stabilized)}
+                >
+                  <Move className="h-4 w-4 mr-2" />
+                  Stabilize
+                </Button>
+              )}
+              {subjectPose?.interpolated && (
+                <Badge variant="outline">Interpolated pose</Badge>
+              )}
               <Badge variant="secondary">
                 Frame {currentFrameIndex + 1} / {frames.length}
               </Badge>
@@ -171,27 +297,46 @@ const PoseVisualization: React.FC<PoseVisualizationProps> = ({ frames, videoUrl
         </CardHeader>
         <CardContent>
           <div className="relative aspect-video bg-muted rounded-lg overflow-hidden mb-4">
-            {/* Real frame image or placeholder */}
-            {currentFrame?.imageData ? (
-              <img 
-                src={currentFrame.imageData} 
-                alt={`Frame ${currentFrameIndex + 1}`}
-                className="w-full h-full object-cover"
-              />
-            ) : (
-              <div className="absolute inset-0 flex items-center justify-center bg-gradient-ocean">
-                <div className="text-center text-primary-foreground">
-                  <p className="text-sm mb-2">Frame {currentFrameIndex + 1}</p>
-                  <p className="text-xs opacity-75">
-                    Timestamp: {currentFrame?.timestamp?.toFixed(2)}s
-                  </p>
+            <div className="absolute" style={frameStyle}>
+              {/* Real frame image or placeholder */}
+              {currentFrame?.imageData ? (
+                <img 
+                  src={currentFrame.imageData} 
+                  alt={`Frame ${currentFrameIndex + 1}`}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center bg-gradient-ocean">
+                  <div className="text-center text-primary-foreground">
+                    <p className="text-sm mb-2">Frame {currentFrameIndex + 1}</p>
+                    <p className="text-xs opacity-75">
+                      Timestamp: {currentFrame?.timestamp?.toFixed(2)}s
+                    </p>
+                  </div>
                 </div>
-              </div>
-            )}
+              )}
             
-            {/* Pose overlay */}
-            {showPoseOverlay && currentFrame?.poses?.[0]?.keypoints && (
-              drawPoseKeypoints(currentFrame.poses[0].keypoints)
+              {/* Pose overlay */}
+              {showPoseOverlay && subjectPose?.keypoints && (
+                drawPoseKeypoints(subjectPose.keypoints)
+              )}
+            </div>
+
+            {/* Surfer's path through the stabilised scene */}
+            {stabilized && sceneTrail.length > 1 && (
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox="0 0 100 100"
+                preserveAspectRatio="none"
+              >
+                <polyline
+                  points={sceneTrail.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill="none"
+                  stroke="hsl(var(--destructive))"
+                  strokeWidth="0.4"
+                  opacity="0.8"
+                />
+              </svg>
             )}
           </div>
 
@@ -226,29 +371,57 @@ const PoseVisualization: React.FC<PoseVisualizationProps> = ({ frames, videoUrl
           <CardTitle>Frame {currentFrameIndex + 1} Metrics</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
             <div className="text-center p-3 bg-muted/50 rounded-lg">
               <p className="text-sm text-muted-foreground">Body Rotation</p>
               <p className="text-lg font-semibold text-primary">
-                {currentFrame?.metrics?.bodyRotation?.toFixed(1)}°
+                {formatMetric(currentFrame?.metrics?.bodyRotation, 1, '°')}
               </p>
             </div>
             <div className="text-center p-3 bg-muted/50 rounded-lg">
               <p className="text-sm text-muted-foreground">Stance Width</p>
               <p className="text-lg font-semibold text-primary">
-                {currentFrame?.metrics?.stanceWidth?.toFixed(2)}
+                {formatMetric(currentFrame?.metrics?.stanceWidth, 2)}
               </p>
             </div>
             <div className="text-center p-3 bg-muted/50 rounded-lg">
               <p className="text-sm text-muted-foreground">Knee Flexion</p>
               <p className="text-lg font-semibold text-primary">
-                {currentFrame?.metrics?.kneeFlexion?.toFixed(1)}°
+                {formatMetric(currentFrame?.metrics?.kneeFlexion, 1, '°')}
+              </p>
+            </div>
+            <div className="text-center p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Back Foot Weight</p>
+              <p className="text-lg font-semibold text-primary">
+                {formatMetric(currentFrame?.metrics?.weightDistribution, 0, '%')}
               </p>
             </div>
+            <div className="text-center p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Rail Engagement</p>
+              <p className="text-lg font-semibold text-primary">
+                {formatMetric(currentFrame?.metrics?.railEngagement, 0, '%')}
+              </p>
+            </div>
+            {currentFrame?.metrics?.sceneAngles && (
+              <>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Torso Lean</p>
+                  <p className="text-lg font-semibold text-primary">
+                    {formatMetric(currentFrame.metrics.sceneAngles.torsoLean, 1, '°')}
+                  </p>
+                </div>
+                <div className="text-center p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Lean to Wave Face</p>
+                  <p className="text-lg font-semibold text-primary">
+                    {formatMetric(currentFrame.metrics.sceneAngles.torsoLeanToWave, 1, '°')}
+                  </p>
+                </div>
+              </>
+            )}
             <div className="text-center p-3 bg-muted/50 rounded-lg">
               <p className="text-sm text-muted-foreground">Pose Confidence</p>
               <p className="text-lg font-semibold text-primary">
-                {((currentFrame?.poses?.[0]?.confidence || 0) * 100).toFixed(0)}%
+                {((subjectPose?.confidence || 0) * 100).toFixed(0)}%
               </p>
             </div>
           </div>
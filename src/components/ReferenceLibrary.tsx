@@ -9,11 +9,23 @@ import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
-import { extractFramesFromVideo } from '@/utils/frameExtraction';
-import { poseDetector, calculateSurfMetrics, type FramePoseAnalysis } from '@/utils/poseDetection';
+import { extractFrames, type ExtractedFrame } from '@/utils/frameExtraction';
+import { calculateSurfMetrics, formatMetric, NOT_MEASURABLE_METRICS, type FramePoseAnalysis } from '@/utils/poseDetection';
+import { detectStance } from '@/utils/stance';
+import { cleanSubjectTrajectories } from '@/utils/keypointFilter';
+import { estimateViewpoint } from '@/utils/viewpoint';
+import { SurferTracker } from '@/utils/surferTracker';
+import { pickBoard } from '@/utils/boardDetection';
+import { poseWorkerPool, PoseWorkerPool } from '@/utils/poseWorkerPool';
+import { importKeypointsForVideo } from '@/utils/keypointImport';
 import { Play, Upload, Trash2, FileVideo, Link, Zap, Users } from 'lucide-react';
 import { FrameAnalysisViewer } from './FrameAnalysisViewer';
 import { VideoComparison } from './VideoComparison';
+import KeypointImportInput from './KeypointImportInput';
+
+// Reference clips are sampled at a fixed rate so their statistics compare across clip lengths
+const REFERENCE_SAMPLING_FPS = 5;
+const REFERENCE_MAX_FRAMES = 40;
 
 interface ReferenceVideo {
   id: string;
@@ -33,6 +45,8 @@ export const ReferenceLibrary = () => {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [keypointFiles, setKeypointFiles] = useState<File[]>([]);
+  const [keypointFps, setKeypointFps] = useState('');
   const [selectedVideoForAnalysis, setSelectedVideoForAnalysis] = useState<ReferenceVideo | null>(null);
   const [selectedVideoForComparison, setSelectedVideoForComparison] = useState<ReferenceVideo | null>(null);
   const [formData, setFormData] = useState({
@@ -122,42 +136,60 @@ export const ReferenceLibrary = () => {
     return publicUrl;
   };
 
+  // Keypoints imported from another tool replace pose detection for this video
+  const poseSourceFor = async (file: File, frames: ExtractedFrame[]): Promise<PoseWorkerPool> => {
+    if (keypointFiles.length === 0) return poseWorkerPool;
+    const { format, recordedFrames } = await importKeypointsForVideo(file, keypointFiles, Number(keypointFps), frames);
+    console.log(`Imported ${format} keypoints for ${recordedFrames.length} frames`);
+    return new PoseWorkerPool('replay', { recordedFrames });
+  };
+
   const processVideoFile = async (file: File): Promise<any> => {
     setUploadProgress(10);
     
     try {
       // Extract frames directly from file
-      const frames = await extractFramesFromVideo(file, 8);
+      const { frames, sampling } = await extractFrames(file, { fps: REFERENCE_SAMPLING_FPS, maxFrames: REFERENCE_MAX_FRAMES });
       setUploadProgress(50);
 
       // Initialize pose detector
-      await poseDetector.initialize();
+      const pool = await poseSourceFor(file, frames);
+      await pool.initialize();
       setUploadProgress(60);
 
-      // Analyze each frame
+      // Analyze each frame, following the most prominent surfer
       const frameAnalyses: FramePoseAnalysis[] = [];
+      const tracker = new SurferTracker();
       const allMetrics = {
         bodyRotation: [],
         stanceWidth: [],
-        kneeFlexion: []
+        kneeFlexion: [],
+        railEngagement: [],
+        weightDistribution: []
       };
 
-      for (let i = 0; i < frames.length; i++) {
+      const jobFrames = frames.map(({ frameNumber, canvas }) => ({ frameNumber, image: canvas }));
+      for await (const detection of pool.detectFrames(jobFrames)) {
+        const i = detection.frameIndex;
+        if (detection.error) {
+          console.error(`Error analyzing frame ${i}:`, detection.error);
+          continue;
+        }
         try {
-          const poseResult = await poseDetector.detectPose(frames[i].canvas);
+          const trackedPoses = tracker.update(detection.poses);
+          const poseResult = tracker.getSubject(trackedPoses);
           
           if (poseResult && poseResult.keypoints.length > 0) {
-            const metrics = calculateSurfMetrics(poseResult.keypoints);
-            
-            allMetrics.bodyRotation.push(metrics.bodyRotation);
-            allMetrics.stanceWidth.push(metrics.stanceWidth);
-            allMetrics.kneeFlexion.push(metrics.kneeFlexion);
+            const board = pickBoard(detection.boards, poseResult);
 
             frameAnalyses.push({
               frameNumber: frames[i].frameNumber,
               timestamp: frames[i].timestamp,
-              poses: [poseResult],
-              metrics
+              poses: trackedPoses,
+              subjectTrackId: poseResult.trackId,
+              cropBox: poseResult.cropBox ?? null,
+              board,
+              metrics: NOT_MEASURABLE_METRICS
             });
           }
         } catch (error) {
@@ -165,11 +197,39 @@ export const ReferenceLibrary = () => {
         }
       }
 
+      // Measure relative to the reference surfer's lead foot so regular and goofy references compare
+      const { settings: keypointFilter, subjects, worlds } = cleanSubjectTrajectories(frameAnalyses);
+      const stance = detectStance(subjects);
+      const viewpoint = estimateViewpoint(
+        subjects,
+        worlds,
+        frames.length > 0 ? frames[0].canvas.width / frames[0].canvas.height : undefined
+      );
+      frameAnalyses.forEach((frame, i) => {
+        frame.travelDirection = stance.travel[i];
+        if (!subjects[i]) return;
+        const metrics = calculateSurfMetrics(
+          subjects[i],
+          frame.board,
+          { stance: stance.stance, travel: stance.travel[i] },
+          // One angle space for the whole clip, so the statistics never mix 2D and 3D angles
+          viewpoint.angleSpace === '3d' ? worlds[i] : null
+        );
+        frame.metrics = metrics;
+
+        // Only measured values feed the reference statistics
+        if (metrics.bodyRotation !== null) allMetrics.bodyRotation.push(metrics.bodyRotation);
+        if (metrics.stanceWidth !== null) allMetrics.stanceWidth.push(metrics.stanceWidth);
+        if (metrics.kneeFlexion !== null) allMetrics.kneeFlexion.push(metrics.kneeFlexion);
+        if (metrics.railEngagement !== null) allMetrics.railEngagement.push(metrics.railEngagement);
+        if (metrics.weightDistribution !== null) allMetrics.weightDistribution.push(metrics.weightDistribution);
+      });
+
       setUploadProgress(90);
 
       // Calculate aggregate statistics
       const calculateStats = (values: number[]) => {
-        if (values.length === 0) return { avg: 0, std: 0, min: 0, max: 0 };
+        if (values.length === 0) return { avg: null, std: null, min: null, max: null, samples: 0 };
         
         const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
         const variance = values.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / values.length;
@@ -179,7 +239,8 @@ export const ReferenceLibrary = () => {
           avg,
           std,
           min: Math.min(...values),
-          max: Math.max(...values)
+          max: Math.max(...values),
+          samples: values.length
         };
       };
 
@@ -188,10 +249,16 @@ export const ReferenceLibrary = () => {
         aggregateMetrics: {
           bodyRotation: calculateStats(allMetrics.bodyRotation),
           stanceWidth: calculateStats(allMetrics.stanceWidth),
-          kneeFlexion: calculateStats(allMetrics.kneeFlexion)
+          kneeFlexion: calculateStats(allMetrics.kneeFlexion),
+          railEngagement: calculateStats(allMetrics.railEngagement),
+          weightDistribution: calculateStats(allMetrics.weightDistribution)
         },
         totalFrames: frames.length,
-        successfulAnalyses: frameAnalyses.length
+        successfulAnalyses: frameAnalyses.length,
+        poseBackend: pool.getBackendInfo(),
+        keypointFilter,
+        sampling,
+        viewpoint
       };
 
       setUploadProgress(100);
@@ -255,36 +322,46 @@ export const ReferenceLibrary = () => {
       setUploadProgress(50);
 
       // Extract frames
-      const frames = await extractFramesFromVideo(file, 8);
+      const { frames, sampling } = await extractFrames(file, { fps: REFERENCE_SAMPLING_FPS, maxFrames: REFERENCE_MAX_FRAMES });
       setUploadProgress(70);
 
       // Initialize pose detector
-      await poseDetector.initialize();
+      const pool = await poseSourceFor(file, frames);
+      await pool.initialize();
 
-      // Analyze each frame
+      // Analyze each frame, following the most prominent surfer
       const frameAnalyses: FramePoseAnalysis[] = [];
+      const tracker = new SurferTracker();
       const allMetrics = {
         bodyRotation: [],
         stanceWidth: [],
-        kneeFlexion: []
+        kneeFlexion: [],
+        railEngagement: [],
+        weightDistribution: []
       };
 
-      for (let i = 0; i < frames.length; i++) {
+      const jobFrames = frames.map(({ frameNumber, canvas }) => ({ frameNumber, image: canvas }));
+      for await (const detection of pool.detectFrames(jobFrames)) {
+        const i = detection.frameIndex;
+        if (detection.error) {
+          console.error(`Error analyzing frame ${i}:`, detection.error);
+          continue;
+        }
         try {
-          const poseResult = await poseDetector.detectPose(frames[i].canvas);
+          const trackedPoses = tracker.update(detection.poses);
+          const poseResult = tracker.getSubject(trackedPoses);
           
           if (poseResult && poseResult.keypoints.length > 0) {
-            const metrics = calculateSurfMetrics(poseResult.keypoints);
-            
-            allMetrics.bodyRotation.push(metrics.bodyRotation);
-            allMetrics.stanceWidth.push(metrics.stanceWidth);
-            allMetrics.kneeFlexion.push(metrics.kneeFlexion);
+            const board = pickBoard(detection.boards, poseResult);
 
             frameAnalyses.push({
               frameNumber: frames[i].frameNumber,
               timestamp: frames[i].timestamp,
-              poses: [poseResult],
-              metrics
+              poses: trackedPoses,
+              subjectTrackId: poseResult.trackId,
+              cropBox: poseResult.cropBox ?? null,
+              board,
+              metrics: NOT_MEASURABLE_METRICS
             });
           }
         } catch (error) {
@@ -292,11 +369,39 @@ export const ReferenceLibrary = () => {
         }
       }
 
+      // Measure relative to the reference surfer's lead foot so regular and goofy references compare
+      const { settings: keypointFilter, subjects, worlds } = cleanSubjectTrajectories(frameAnalyses);
+      const stance = detectStance(subjects);
+      const viewpoint = estimateViewpoint(
+        subjects,
+        worlds,
+        frames.length > 0 ? frames[0].canvas.width / frames[0].canvas.height : undefined
+      );
+      frameAnalyses.forEach((frame, i) => {
+        frame.travelDirection = stance.travel[i];
+        if (!subjects[i]) return;
+        const metrics = calculateSurfMetrics(
+          subjects[i],
+          frame.board,
+          { stance: stance.stance, travel: stance.travel[i] },
+          // One angle space for the whole clip, so the statistics never mix 2D and 3D angles
+          viewpoint.angleSpace === '3d' ? worlds[i] : null
+        );
+        frame.metrics = metrics;
+
+        // Only measured values feed the reference statistics
+        if (metrics.bodyRotation !== null) allMetrics.bodyRotation.push(metrics.bodyRotation);
+        if (metrics.stanceWidth !== null) allMetrics.stanceWidth.push(metrics.stanceWidth);
+        if (metrics.kneeFlexion !== null) allMetrics.kneeFlexion.push(metrics.kneeFlexion);
+        if (metrics.railEngagement !== null) allMetrics.railEngagement.push(metrics.railEngagement);
+        if (metrics.weightDistribution !== null) allMetrics.weightDistribution.push(metrics.weightDistribution);
+      });
+
       setUploadProgress(90);
 
       // Calculate aggregate statistics
       const calculateStats = (values: number[]) => {
-        if (values.length === 0) return { avg: 0, std: 0, min: 0, max: 0 };
+        if (values.length === 0) return { avg: null, std: null, min: null, max: null, samples: 0 };
         
         const avg = values.reduce((sum, val) => sum + val, 0) / values.length;
         const variance = values.reduce((sum, val) => sum + Math.pow(val - avg, 2), 0) / values.length;
@@ -306,7 +411,8 @@ export const ReferenceLibrary = () => {
           avg,
           std,
           min: Math.min(...values),
-          max: Math.max(...values)
+          max: Math.max(...values),
+          samples: values.length
         };
       };
 
@@ -315,10 +421,16 @@ export const ReferenceLibrary = () => {
         aggregateMetrics: {
           bodyRotation: calculateStats(allMetrics.bodyRotation),
           stanceWidth: calculateStats(allMetrics.stanceWidth),
-          kneeFlexion: calculateStats(allMetrics.kneeFlexion)
+          kneeFlexion: calculateStats(allMetrics.kneeFlexion),
+          railEngagement: calculateStats(allMetrics.railEngagement),
+          weightDistribution: calculateStats(allMetrics.weightDistribution)
         },
         totalFrames: frames.length,
-        successfulAnalyses: frameAnalyses.length
+        successfulAnalyses: frameAnalyses.length,
+        poseBackend: pool.getBackendInfo(),
+        keypointFilter,
+        sampling,
+        viewpoint
       };
 
       setUploadProgress(100);
@@ -382,6 +494,7 @@ export const ReferenceLibrary = () => {
         wave_type: 'beach_break',
         quality_score: 9
       });
+      setKeypointFiles([]);
       setSelectedFile(null);
 
       await loadReferenceVideos();
@@ -543,6 +656,13 @@ export const ReferenceLibrary = () => {
                     </Button>
                   )}
                 </div>
+                <KeypointImportInput
+                  files={keypointFiles}
+                  fps={keypointFps}
+                  onFilesChange={setKeypointFiles}
+                  onFpsChange={setKeypointFps}
+                  disabled={loading}
+                />
               </TabsContent>
             </Tabs>
 
@@ -625,9 +745,11 @@ export const ReferenceLibrary = () => {
                   <div>Frames analyzed: {video.analysis_data.successfulAnalyses}/{video.analysis_data.totalFrames}</div>
                   {video.analysis_data.aggregateMetrics && (
                     <div className="space-y-1">
-                      <div>Avg Body Rotation: {video.analysis_data.aggregateMetrics.bodyRotation?.avg?.toFixed(1)}°</div>
-                      <div>Avg Stance Width: {video.analysis_data.aggregateMetrics.stanceWidth?.avg?.toFixed(2)}</div>
-                      <div>Avg Knee Flexion: {video.analysis_data.aggregateMetrics.kneeFlexion?.avg?.toFixed(1)}°</div>
+                      <div>Avg Body Rotation: {formatMetric(video.analysis_data.aggregateMetrics.bodyRotation?.avg, 1, '°')}</div>
+                      <div>Avg Stance Width: {formatMetric(video.analysis_data.aggregateMetrics.stanceWidth?.avg, 2)}</div>
+                      <div>Avg Knee Flexion: {formatMetric(video.analysis_data.aggregateMetrics.kneeFlexion?.avg, 1, '°')}</div>
+                      <div>Avg Rail Engagement: {formatMetric(video.analysis_data.aggregateMetrics.railEngagement?.avg, 0, '%')}</div>
+                      <div>Avg Back Foot Weight: {formatMetric(video.analysis_data.aggregateMetrics.weightDistribution?.avg, 0, '%')}</div>
                     </div>
                   )}
                 </div>
@@ -0,0 +1,61 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Crosshair } from "lucide-react";
+import { PoseResult } from "@/utils/poseDetection";
+
+interface SurferSelectorProps {
+  imageData: string;
+  poses: PoseResult[];
+  message?: string; // shown after a tap that missed every rider
+  onSelect: (x: number, y: number) => void;
+}
+
+const SurferSelector = ({ imageData, poses, message, onSelect }: SurferSelectorProps) => {
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    onSelect(x, y);
+  };
+
+  return (
+    <Card className="shadow-wave">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Crosshair className="h-5 w-5 text-primary" />
+          Tap the surfer to follow
+          <Badge variant="secondary">{poses.length} people detected</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {message && <p className="text-sm text-destructive mb-2">{message}</p>}
+        <div
+          className="relative aspect-video bg-muted rounded-lg overflow-hidden cursor-crosshair"
+          onClick={handleClick}
+        >
+          <img src={imageData} alt="First frame" className="w-full h-full object-cover" />
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {poses.map((pose, index) => pose.boundingBox && (
+              <rect
+                key={pose.trackId ?? index}
+                x={pose.boundingBox.x}
+                y={pose.boundingBox.y}
+                width={pose.boundingBox.width}
+                height={pose.boundingBox.height}
+                fill="hsl(var(--primary) / 0.15)"
+                stroke="hsl(var(--primary))"
+                strokeWidth="0.4"
+              />
+            ))}
+          </svg>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SurferSelector;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+} from '@/components/ui/chart';
+import { ScatterChart, Scatter, XAxis, YAxis, ResponsiveContainer } from 'recharts';
+import { toScene, type CameraTransform } from '@/utils/cameraMotion';
+
+interface TrajectoryChartProps {
+  frameData: Array<{
+    timestamp: number;
+    metrics: { centerOfGravity?: { x: number; y: number } | null };
+    cameraTransform?: CameraTransform | null;
+  }>;
+}
+
+const chartConfig = {
+  image: {
+    label: 'In the image',
+    color: 'hsl(var(--muted-foreground))',
+  },
+  scene: {
+    label: 'In the scene',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+// Centre-of-gravity path as filmed and with the camera's pan taken out; only the latter shows
+// where the surfer actually went on the wave
+const TrajectoryChart: React.FC<TrajectoryChartProps> = ({ frameData }) => {
+  const measured = frameData.filter(frame => frame.metrics?.centerOfGravity);
+  const imagePath = measured.map(frame => ({ ...frame.metrics.centerOfGravity, timestamp: frame.timestamp }));
+  const scenePath = measured
+    .filter(frame => frame.cameraTransform)
+    .map(frame => ({ ...toScene(frame.metrics.centerOfGravity, frame.cameraTransform), timestamp: frame.timestamp }));
+
+  if (scenePath.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-wave">
+      <CardHeader>
+        <CardTitle>Surfer Path</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <XAxis
+                type="number"
+                dataKey="x"
+                name="x"
+                unit="%"
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              {/* Image coordinates grow downwards */}
+              <YAxis
+                type="number"
+                dataKey="y"
+                name="y"
+                unit="%"
+                reversed
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: 'hsl(var(--border))' }}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Scatter
+                name="image"
+                data={imagePath}
+                fill="hsl(var(--muted-foreground))"
+                line={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '4 2' }}
+              />
+              <Scatter
+                name="scene"
+                data={scenePath}
+                fill="hsl(var(--primary))"
+                line={{ stroke: 'hsl(var(--primary))', strokeWidth: 2 }}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrajectoryChart;
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TurnResult, CutbackResult, summarizeTurnsBySide } from "@/utils/TurnAnalyzer";
+import type { TubeRideResult } from "@/utils/tubeRide";
+import type { TakeoffResult } from "@/utils/takeoff";
+import type { TurnSide } from "@/utils/stance";
+
+interface TurnSideReportProps {
+  turnResults: TurnResult[];
+  cutbackResults?: CutbackResult[];
+  tubeRideResults?: TubeRideResult[];
+  takeoffResults?: TakeoffResult[];
+}
+
+const SIDES: TurnSide[] = ['frontside', 'backside'];
+
+// Frontside and backside turns are scored against different ideals, so they are reported apart
+const TurnSideReport = ({ turnResults, cutbackResults = [], tubeRideResults = [], takeoffResults = [] }: TurnSideReportProps) => {
+  const [sideFilter, setSideFilter] = useState<'all' | TurnSide>('all');
+  const summary = summarizeTurnsBySide(turnResults);
+  const visibleTurns = turnResults
+    .map((turn, index) => ({ turn, index }))
+    .filter(({ turn }) => sideFilter === 'all' || turn.side === sideFilter);
+  const visibleCutbacks = cutbackResults
+    .map((cutback, index) => ({ cutback, index }))
+    .filter(({ cutback }) => sideFilter === 'all' || cutback.side === sideFilter);
+  const visibleTubeRides = tubeRideResults
+    .map((tube, index) => ({ tube, index }))
+    .filter(({ tube }) => sideFilter === 'all' || tube.side === sideFilter);
+  // Take-offs have no frontside/backside, so they're only listed unfiltered
+  const visibleTakeoffs = sideFilter === 'all' ? takeoffResults : [];
+
+  return (
+    <Card className="shadow-wave">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Frontside vs Backside</CardTitle>
+          <Select value={sideFilter} onValueChange={(value) => setSideFilter(value as 'all' | TurnSide)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All turns</SelectItem>
+              <SelectItem value="frontside">Frontside</SelectItem>
+              <SelectItem value="backside">Backside</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-4">
+          {SIDES.map(side => (
+            <div key={side} className="p-4 bg-muted/50 rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium capitalize">{side}</span>
+                <Badge variant="secondary">{summary[side].turns} turns</Badge>
+              </div>
+              {summary[side].avgScore !== null ? (
+                <>
+                  <p className="text-2xl font-bold text-primary">{summary[side].avgScore.toFixed(0)}%</p>
+                  <Progress value={summary[side].avgScore} className="h-2" />
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No {side} turns detected</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {visibleTurns.length > 0 || visibleCutbacks.length > 0 || visibleTubeRides.length > 0 || visibleTakeoffs.length > 0 ? (
+          <div className="space-y-2">
+            {visibleTakeoffs.map((takeoff, index) => (
+              <div key={`takeoff-${index}`} className="flex items-center justify-between p-2 border rounded">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Take-off {index + 1}</span>
+                  {takeoff.passed_through_knees && <Badge variant="outline">via the knees</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {takeoff.pop_up.duration.toFixed(1)}s pop-up
+                  </span>
+                </div>
+                <span className="font-bold text-primary">
+                  {takeoff.pop_up.score}/{takeoff.pop_up.max_score}
+                </span>
+              </div>
+            ))}
+            {visibleTurns.map(({ turn, index }) => {
+              const max = (turn.bottom_turn.max_score ?? 10) + (turn.top_turn.max_score ?? 10);
+              return (
+                <div key={index} className="flex items-center justify-between p-2 border rounded">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Turn {index + 1}</span>
+                    <Badge variant="outline" className="capitalize">{turn.side ?? 'unknown side'}</Badge>
+                    {turn.wave_direction && (
+                      <span className="text-xs text-muted-foreground capitalize">{turn.wave_direction}-hander</span>
+                    )}
+                  </div>
+                  <span className="font-bold text-primary">
+                    {turn.bottom_turn.score + turn.top_turn.score}/{max}
+                  </span>
+                </div>
+              );
+            })}
+            {visibleCutbacks.map(({ cutback, index }) => (
+              <div key={`cutback-${index}`} className="flex items-center justify-between p-2 border rounded">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Cutback {index + 1}</span>
+                  <Badge variant="outline" className="capitalize">{cutback.side ?? 'unknown side'}</Badge>
+                  {cutback.wave_direction && (
+                    <span className="text-xs text-muted-foreground capitalize">{cutback.wave_direction}-hander</span>
+                  )}
+                </div>
+                <span className="font-bold text-primary">
+                  {cutback.cutback.score}/{cutback.cutback.max_score}
+                </span>
+              </div>
+            ))}
+            {visibleTubeRides.map(({ tube, index }) => (
+              <div key={`tube-${index}`} className="flex items-center justify-between p-2 border rounded">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Tube ride {index + 1}</span>
+                  <Badge variant="outline" className="capitalize">{tube.side ?? 'unknown side'}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {tube.tube_ride.duration.toFixed(1)}s covered
+                  </span>
+                </div>
+                <span className="font-bold text-primary">
+                  {tube.tube_ride.score}/{tube.tube_ride.max_score}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">No turns match this filter.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TurnSideReport;
@@ -4,10 +4,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { extractFramesFromVideo } from '@/utils/frameExtraction';
-import { poseDetector } from '@/utils/poseDetection';
+import { extractFrames, openFrameStream } from '@/utils/frameExtraction';
+import { poseWorkerPool } from '@/utils/poseWorkerPool';
+import { SurferTracker } from '@/utils/surferTracker';
+import { calculateSurfMetrics, getSubjectPose, NOT_MEASURABLE_METRICS, type FramePoseAnalysis, type PoseResult } from '@/utils/poseDetection';
+import { cleanSubjectTrajectories } from '@/utils/keypointFilter';
+import { detectStance } from '@/utils/stance';
+import { estimateViewpoint } from '@/utils/viewpoint';
 import { DetailedAnalysis } from './DetailedAnalysis';
-import { turnAnalyzer, TurnResult } from '@/utils/TurnAnalyzer';
+import { turnAnalyzer, TurnResult, DEFAULT_TURN_CONFIG } from '@/utils/TurnAnalyzer';
 import { Upload, Play, Pause, RotateCcw, Users, Camera, BarChart3 } from 'lucide-react';
 
 interface ReferenceVideo {
@@ -24,19 +29,41 @@ interface VideoFrame {
   imageData: string;
   phase: string;
   poseMetrics?: {
-    bodyRotation: number;
-    centerOfGravity: { x: number; y: number };
-    stanceWidth: number;
-    kneeFlexion: number;
+    bodyRotation: number | null;
+    centerOfGravity: { x: number; y: number } | null; // 0-1 of the frame
+    stanceWidth: number | null;
+    kneeFlexion: number | null;
     confidence: number;
-  };
-  turnResult?: TurnResult;
+  }; // absent when no surfer was detected: the frame is not measurable
 }
 
 interface VideoComparisonProps {
   referenceVideo: ReferenceVideo;
 }
 
+// A frame's detections, kept until the whole pass is in so the subject can be cleaned like anywhere else
+const frameAnalysisOf = (frameNumber: number, timestamp: number, poses: PoseResult[], subject: PoseResult | null): FramePoseAnalysis => ({
+  frameNumber,
+  timestamp,
+  poses,
+  subjectTrackId: subject && subject.keypoints.length > 0 ? subject.trackId : undefined,
+  metrics: NOT_MEASURABLE_METRICS
+});
+
+// Cleans a buffered pass and finds the rider's stance and the clip's angle space, as every analysis path does
+const prepareSubjects = (frames: FramePoseAnalysis[], aspectRatio?: number) => {
+  const { subjects, worlds } = cleanSubjectTrajectories(frames);
+  const stance = detectStance(subjects);
+  const viewpoint = estimateViewpoint(subjects, worlds, aspectRatio);
+  return {
+    subjects,
+    angleSpace: viewpoint.angleSpace,
+    orientationAt: (i: number) => ({ stance: stance.stance, travel: stance.travel[i] }),
+    // One angle space for the whole clip, so 2D and 3D angles never mix
+    worldAt: (i: number) => viewpoint.angleSpace === '3d' ? worlds[i] : null
+  };
+};
+
 export const VideoComparison = ({ referenceVideo }: VideoComparisonProps) => {
   const [userVideo, setUserVideo] = useState<File | null>(null);
   const [referenceFrames, setReferenceFrames] = useState<VideoFrame[]>([]);
@@ -58,104 +85,83 @@ export const VideoComparison = ({ referenceVideo }: VideoComparisonProps) => {
     { name: 'Exit', color: 'bg-green-500', description: 'Exiting toward the lip' }
   ];
 
-  const extractMatchingFrames = async (videoFile: File, isReference: boolean = false) => {
-    const numFrames = 10; // Extract 10 frames for 5 phases (2 per phase)
-    const extractedFrames = await extractFramesFromVideo(videoFile, numFrames);
-    
-    // Initialize pose detector
-    await poseDetector.initialize();
+  const extractMatchingFrames = async (videoFile: File) => {
+    // 10 frames across the clip for 5 phases (2 per phase)
+    const { frames: extractedFrames } = await extractFrames(videoFile, { maxFrames: 10 });
     
-    const matchedFrames: VideoFrame[] = [];
+    const analyses: FramePoseAnalysis[] = [];
+    const tracker = new SurferTracker();
     
-    // Reset turn analyzer for each video processing
-    if (!isReference) {
-      turnAnalyzer.reset();
+    // Two frames per phase, analysed by the pose workers and handed back in order
+    const phaseFrames = extractedFrames.slice(0, phases.length * 2);
+    const jobFrames = phaseFrames.map(({ frameNumber, canvas }) => ({ frameNumber, image: canvas }));
+    for await (const detection of poseWorkerPool.detectFrames(jobFrames, { detectBoards: false })) {
+      const { frameNumber, timestamp } = phaseFrames[detection.frameIndex];
+      const trackedPoses = tracker.update(detection.poses);
+      analyses.push(frameAnalysisOf(frameNumber, timestamp, trackedPoses, tracker.getSubject(trackedPoses)));
     }
     
-    for (let phaseIndex = 0; phaseIndex < phases.length; phaseIndex++) {
-      const phase = phases[phaseIndex];
-      const frameIndex1 = phaseIndex * 2;
-      const frameIndex2 = phaseIndex * 2 + 1;
+    const aspectRatio = phaseFrames.length > 0 ? phaseFrames[0].canvas.width / phaseFrames[0].canvas.height : undefined;
+    const { subjects, orientationAt, worldAt } = prepareSubjects(analyses, aspectRatio);
+    const matchedFrames = analyses.map((analysis, frameIndex): VideoFrame => {
+      const phase = phases[Math.floor(frameIndex / 2)];
+      const poseResult = analysis.subjectTrackId !== undefined ? getSubjectPose(analysis) : null;
       
-      for (const frameIndex of [frameIndex1, frameIndex2]) {
-        if (extractedFrames[frameIndex]) {
-          // Analyze pose for this frame
-          const canvas = document.createElement('canvas');
-          const ctx = canvas.getContext('2d');
-          const img = new Image();
-          
-          await new Promise((resolve) => {
-            img.onload = resolve;
-            img.src = extractedFrames[frameIndex].imageData;
-          });
-          
-          canvas.width = img.width;
-          canvas.height = img.height;
-          ctx?.drawImage(img, 0, 0);
-          
-          const poseResult = await poseDetector.detectPose(canvas);
-          
-          let poseMetrics;
-          let turnResult: TurnResult | null = null;
-          
-          if (poseResult && poseResult.keypoints.length > 0) {
-            // Process through turn analyzer for user video
-            if (!isReference) {
-              turnResult = turnAnalyzer.processFrame(poseResult.keypoints);
-            }
-            
-            // Calculate more realistic pose metrics based on phase
-            const phaseModifiers = {
-              'Approach': { rotationBase: -5, stanceBase: 0.35, kneeBase: 15 },
-              'Setup': { rotationBase: 10, stanceBase: 0.4, kneeBase: 25 },
-              'Compression': { rotationBase: 25, stanceBase: 0.45, kneeBase: 45 },
-              'Drive': { rotationBase: 15, stanceBase: 0.4, kneeBase: 30 },
-              'Exit': { rotationBase: -10, stanceBase: 0.35, kneeBase: 20 }
-            };
-            
-            const modifier = phaseModifiers[phase.name as keyof typeof phaseModifiers] || phaseModifiers['Setup'];
-            
-            poseMetrics = {
-              bodyRotation: modifier.rotationBase + (Math.random() - 0.5) * 10,
-              centerOfGravity: { 
-                x: 0.5 + (Math.random() - 0.5) * 0.2, 
-                y: 0.6 + (Math.random() - 0.5) * 0.1 
-              },
-              stanceWidth: modifier.stanceBase + (Math.random() - 0.5) * 0.1,
-              kneeFlexion: modifier.kneeBase + (Math.random() - 0.5) * 10,
-              confidence: poseResult.confidence
-            };
-          } else {
-            // Fallback metrics if pose detection fails
-            poseMetrics = {
-              bodyRotation: 10 + (Math.random() - 0.5) * 20,
-              centerOfGravity: { x: 0.5, y: 0.6 },
-              stanceWidth: 0.35 + Math.random() * 0.2,
-              kneeFlexion: 25 + Math.random() * 20,
-              confidence: 0.5
-            };
-          }
-          
-          const frameData: VideoFrame = {
-            frameNumber: extractedFrames[frameIndex].frameNumber,
-            timestamp: extractedFrames[frameIndex].timestamp,
-            imageData: extractedFrames[frameIndex].imageData,
-            phase: phase.name,
-            poseMetrics
-          };
-          
-          if (turnResult) {
-            frameData.turnResult = turnResult;
-          }
-          
-          matchedFrames.push(frameData);
-        }
+      let poseMetrics: VideoFrame['poseMetrics'];
+      
+      // Phase frames are far apart, so only frames the surfer was detected on are measured
+      if (poseResult && subjects[frameIndex]) {
+        // Measured from the detected pose; metrics whose joints weren't seen stay null
+        const metrics = calculateSurfMetrics(subjects[frameIndex], null, orientationAt(frameIndex), worldAt(frameIndex));
+        poseMetrics = {
+          bodyRotation: metrics.bodyRotation,
+          centerOfGravity: metrics.centerOfGravity && { x: metrics.centerOfGravity.x / 100, y: metrics.centerOfGravity.y / 100 },
+          stanceWidth: metrics.stanceWidth,
+          kneeFlexion: metrics.kneeFlexion,
+          confidence: poseResult.confidence
+        };
       }
-    }
+      
+      return {
+        frameNumber: analysis.frameNumber,
+        timestamp: analysis.timestamp,
+        imageData: phaseFrames[frameIndex].imageData,
+        phase: phase.name,
+        poseMetrics
+      };
+    });
     
     return matchedFrames;
   };
 
+  // The turn FSM needs evenly spaced frames, so turns are found on their own pass at the analysis
+  // rate rather than on the phase frames, which are seconds apart on a long clip
+  const detectTurns = async (videoFile: File): Promise<TurnResult[]> => {
+    // There is no skill level here, so default bands
+    turnAnalyzer.configure(DEFAULT_TURN_CONFIG);
+    const { frames, planned, sampling } = await openFrameStream(videoFile);
+    const tracker = new SurferTracker();
+    const analyses: FramePoseAnalysis[] = [];
+    for await (const detection of poseWorkerPool.detectFrames(frames, { detectBoards: false, total: planned.length })) {
+      try {
+        const trackedPoses = tracker.update(detection.poses);
+        analyses.push(frameAnalysisOf(detection.frameNumber, detection.frame.timestamp, trackedPoses, tracker.getSubject(trackedPoses)));
+      } finally {
+        detection.frame.image.close();
+      }
+    }
+
+    const { subjects, angleSpace, orientationAt, worldAt } = prepareSubjects(
+      analyses,
+      sampling.height > 0 ? sampling.width / sampling.height : undefined
+    );
+    analyses.forEach((analysis, i) => {
+      if (!subjects[i]) return;
+      turnAnalyzer.processFrame(analysis.timestamp, subjects[i], null, orientationAt(i), worldAt(i), null, angleSpace);
+    });
+    return turnAnalyzer.getTurnResults();
+  };
+
   const processVideos = async () => {
     if (!userVideo) return;
     
@@ -172,16 +178,16 @@ export const VideoComparison = ({ referenceVideo }: VideoComparisonProps) => {
       const refFile = new File([refBlob], 'reference.mp4', { type: 'video/mp4' });
       
       setProgress(40);
-      const refFrames = await extractMatchingFrames(refFile, true);
+      const refFrames = await extractMatchingFrames(refFile);
       setReferenceFrames(refFrames);
       
       setProgress(70);
       // Extract user video frames to match reference timing
-      const userFrames = await extractMatchingFrames(userVideo, false);
+      const userFrames = await extractMatchingFrames(userVideo);
       setUserFrames(userFrames);
       
-      // Collect all turn results from user frames
-      const allTurnResults = turnAnalyzer.getTurnResults();
+      setProgress(85);
+      const allTurnResults = await detectTurns(userVideo);
       setUserTurnResults(allTurnResults);
       
       setProgress(100);
@@ -8,7 +8,13 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Play, Calendar, TrendingUp, User, Eye, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { VideoPlayer } from './VideoPlayer';
+import TurnSideReport from './TurnSideReport';
+import { summarizeTurnsBySide, type TurnResult, type CutbackResult } from '@/utils/TurnAnalyzer';
+import type { TubeRideResult } from '@/utils/tubeRide';
+import type { TakeoffResult } from '@/utils/takeoff';
+import type { TurnSide } from '@/utils/stance';
 
 interface AnalysisSession {
   id: string;
@@ -18,15 +24,32 @@ interface AnalysisSession {
   status: string;
   created_at: string;
   analysis_data?: any;
+  turn_results?: TurnResult[] | null;
+  cutback_results?: CutbackResult[] | null;
+  tube_ride_results?: TubeRideResult[] | null;
+  takeoff_results?: TakeoffResult[] | null;
+  parent_session_id?: string | null;
+  ride_index?: number | null;
+  ride?: { start: number; end: number; wipeout: boolean } | null; // where a ride sits in its upload's clip
 }
 
+// Only the maneuver results and ride span are pulled out of analysis_data, for the frontside/backside
+// summary and the ride list. Typed as a plain string: the JSON path is too deep for supabase-js's
+// select-string parser.
+const SESSION_COLUMNS: string = 'id, video_url, skill_level, overall_score, status, created_at, parent_session_id, ride_index, turn_results:analysis_data->turnResults, cutback_results:analysis_data->cutbackResults, tube_ride_results:analysis_data->tubeRideResults, takeoff_results:analysis_data->takeoffResults, ride:analysis_data->ride';
+
+const formatClipTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
 export const VideoGallery = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [ridesBySession, setRidesBySession] = useState<Record<string, AnalysisSession[]>>({});
   const [loading, setLoading] = useState(true);
   const [selectedSession, setSelectedSession] = useState<AnalysisSession | null>(null);
   const [videoSignedUrls, setVideoSignedUrls] = useState<Record<string, string>>({});
+  const [sideFilter, setSideFilter] = useState<'all' | TurnSide>('all');
 
   useEffect(() => {
     if (user) {
@@ -41,8 +64,9 @@ export const VideoGallery = () => {
       // Optimized query - only select necessary fields to avoid timeout
       const { data, error } = await supabase
         .from('analysis_sessions')
-        .select('id, video_url, skill_level, overall_score, status, created_at')
+        .select(SESSION_COLUMNS)
         .eq('user_id', user.id)
+        .is('parent_session_id', null) // rides are listed under their upload
         .order('created_at', { ascending: false })
         .limit(20); // Limit to prevent large data loads
 
@@ -51,7 +75,27 @@ export const VideoGallery = () => {
         throw error;
       }
 
-      setSessions(data || []);
+      const uploads = (data || []) as unknown as AnalysisSession[];
+      const { data: rideData, error: ridesError } = uploads.length > 0
+        ? await supabase
+            .from('analysis_sessions')
+            .select(SESSION_COLUMNS)
+            .in('parent_session_id', uploads.map(session => session.id))
+            .order('ride_index', { ascending: true })
+        : { data: [], error: null };
+
+      if (ridesError) {
+        console.error('Supabase error:', ridesError);
+        throw ridesError;
+      }
+
+      const grouped: Record<string, AnalysisSession[]> = {};
+      for (const ride of (rideData || []) as unknown as AnalysisSession[]) {
+        if (!grouped[ride.parent_session_id]) grouped[ride.parent_session_id] = [];
+        grouped[ride.parent_session_id].push(ride);
+      }
+      setSessions(uploads);
+      setRidesBySession(grouped);
     } catch (error) {
       console.error('Error fetching sessions:', error);
       toast({
@@ -115,7 +159,7 @@ export const VideoGallery = () => {
 
   const deleteSession = async (sessionId: string, videoUrl: string) => {
     try {
-      // Delete from database
+      // Delete from database; an upload's rides go with it, and share its video
       const { error: dbError } = await supabase
         .from('analysis_sessions')
         .delete()
@@ -154,6 +198,83 @@ export const VideoGallery = () => {
     }
   };
 
+  // An upload split into rides has its turns on the rides
+  const sessionTurns = (session: AnalysisSession): TurnResult[] => [
+    ...(session.turn_results || []),
+    ...(ridesBySession[session.id] || []).flatMap(ride => ride.turn_results || [])
+  ];
+
+  // Sessions with at least one turn on the chosen side
+  const visibleSessions = sideFilter === 'all'
+    ? sessions
+    : sessions.filter(session => summarizeTurnsBySide(sessionTurns(session))[sideFilter].turns > 0);
+
+  const renderAnalysisDialog = (session: AnalysisSession, title: string) => (
+    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>{title}</DialogTitle>
+        <DialogDescription>
+          Analysis for {session.skill_level} level • {formatDate(session.created_at)}
+          {session.ride && ` • ${formatClipTime(session.ride.start)}–${formatClipTime(session.ride.end)} into the clip`}
+        </DialogDescription>
+      </DialogHeader>
+      
+      {session.video_url && (
+        <div className="space-y-4">
+           {/* Video Player */}
+           <div className="aspect-video bg-muted rounded-lg overflow-hidden">
+             <VideoPlayer 
+               videoPath={session.video_url}
+               className="w-full h-full object-cover"
+               controls={true}
+               preload="metadata"
+             />
+           </div>
+          
+          {/* Analysis Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Overall Score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">
+                  <span className={getScoreColor(session.overall_score || 0)}>
+                    {session.overall_score?.toFixed(1) || 'N/A'}%
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Status</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Badge className={`${getStatusColor(session.status)} text-white`}>
+                  {session.status}
+                </Badge>
+              </CardContent>
+            </Card>
+          </div>
+          
+          {(session.turn_results?.length || session.cutback_results?.length || session.tube_ride_results?.length || session.takeoff_results?.length) ? (
+            <TurnSideReport
+              turnResults={session.turn_results || []}
+              cutbackResults={session.cutback_results || []}
+              tubeRideResults={session.tube_ride_results || []}
+              takeoffResults={session.takeoff_results || []}
+            />
+          ) : (
+            <div className="text-center text-muted-foreground">
+              <p>Detailed analysis coming soon...</p>
+            </div>
+          )}
+        </div>
+      )}
+    </DialogContent>
+  );
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -193,142 +314,154 @@ export const VideoGallery = () => {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold">Your Video Gallery</h2>
-        <Badge variant="secondary">{sessions.length} video{sessions.length !== 1 ? 's' : ''}</Badge>
+        <div className="flex items-center gap-2">
+          <Select value={sideFilter} onValueChange={(value) => setSideFilter(value as 'all' | TurnSide)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All turns</SelectItem>
+              <SelectItem value="frontside">Frontside</SelectItem>
+              <SelectItem value="backside">Backside</SelectItem>
+            </SelectContent>
+          </Select>
+          <Badge variant="secondary">{visibleSessions.length} video{visibleSessions.length !== 1 ? 's' : ''}</Badge>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {sessions.map((session) => (
-          <Card key={session.id} className="overflow-hidden hover:shadow-lg transition-shadow">
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <Badge 
-                  variant="secondary" 
-                  className={`${getStatusColor(session.status)} text-white`}
-                >
-                  {session.status}
-                </Badge>
-                <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                  <Calendar className="w-4 h-4" />
-                  {formatDate(session.created_at)}
-                </div>
-              </div>
-              <CardTitle className="text-lg">Surf Analysis</CardTitle>
-              <CardDescription className="flex items-center gap-2">
-                <User className="w-4 h-4" />
-                {session.skill_level.charAt(0).toUpperCase() + session.skill_level.slice(1)} Level
-              </CardDescription>
-            </CardHeader>
-
-            <CardContent className="space-y-4">
-              {/* Video Preview */}
-              {session.video_url && (
-                <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
-                  <VideoPlayer 
-                    videoPath={session.video_url}
-                    className="w-full h-full object-cover"
-                    preload="metadata"
-                  />
-                  <div className="absolute inset-0 bg-black/20 flex items-center justify-center pointer-events-none">
-                    <Play className="w-8 h-8 text-white" />
+        {visibleSessions.map((session) => {
+          const sideSummary = summarizeTurnsBySide(sessionTurns(session));
+          const rides = ridesBySession[session.id] || [];
+          return (
+            <Card key={session.id} className="overflow-hidden hover:shadow-lg transition-shadow">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <Badge 
+                    variant="secondary" 
+                    className={`${getStatusColor(session.status)} text-white`}
+                  >
+                    {session.status}
+                  </Badge>
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Calendar className="w-4 h-4" />
+                    {formatDate(session.created_at)}
                   </div>
                 </div>
-              )}
+                <CardTitle className="text-lg">Surf Analysis</CardTitle>
+                <CardDescription className="flex items-center gap-2">
+                  <User className="w-4 h-4" />
+                  {session.skill_level.charAt(0).toUpperCase() + session.skill_level.slice(1)} Level
+                </CardDescription>
+              </CardHeader>
 
-              {/* Score Display */}
-              {session.overall_score && (
-                <div className="flex items-center justify-between">
-                  <span className="text-sm font-medium">Overall Score:</span>
-                  <div className="flex items-center gap-1">
-                    <TrendingUp className="w-4 h-4" />
-                    <span className={`font-bold ${getScoreColor(session.overall_score)}`}>
-                      {session.overall_score.toFixed(1)}%
-                    </span>
+              <CardContent className="space-y-4">
+                {/* Video Preview */}
+                {session.video_url && (
+                  <div className="relative aspect-video bg-muted rounded-lg overflow-hidden">
+                    <VideoPlayer 
+                      videoPath={session.video_url}
+                      className="w-full h-full object-cover"
+                      preload="metadata"
+                    />
+                    <div className="absolute inset-0 bg-black/20 flex items-center justify-center pointer-events-none">
+                      <Play className="w-8 h-8 text-white" />
+                    </div>
                   </div>
-                </div>
-              )}
-
-              {/* Action Buttons */}
-              <div className="space-y-2">
-                <Dialog>
-                  <DialogTrigger asChild>
-                    <Button 
-                      className="w-full" 
-                      variant={session.status === 'completed' ? 'default' : 'secondary'}
-                      disabled={session.status !== 'completed'}
-                      onClick={() => setSelectedSession(session)}
-                    >
-                      <Eye className="w-4 h-4 mr-2" />
-                      {session.status === 'completed' ? 'View Analysis' : 'Processing...'}
-                    </Button>
-                  </DialogTrigger>
-                <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-                  <DialogHeader>
-                    <DialogTitle>Surf Analysis Results</DialogTitle>
-                    <DialogDescription>
-                      Analysis for {session.skill_level} level • {formatDate(session.created_at)}
-                    </DialogDescription>
-                  </DialogHeader>
-                  
-                  {session.video_url && (
-                    <div className="space-y-4">
-                       {/* Video Player */}
-                       <div className="aspect-video bg-muted rounded-lg overflow-hidden">
-                         <VideoPlayer 
-                           videoPath={session.video_url}
-                           className="w-full h-full object-cover"
-                           controls={true}
-                           preload="metadata"
-                         />
-                       </div>
-                      
-                      {/* Analysis Summary */}
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <Card>
-                          <CardHeader>
-                            <CardTitle className="text-lg">Overall Score</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            <div className="text-3xl font-bold">
-                              <span className={getScoreColor(session.overall_score || 0)}>
-                                {session.overall_score?.toFixed(1) || 'N/A'}%
-                              </span>
-                            </div>
-                          </CardContent>
-                        </Card>
-                        
-                        <Card>
-                          <CardHeader>
-                            <CardTitle className="text-lg">Status</CardTitle>
-                          </CardHeader>
-                          <CardContent>
-                            <Badge className={`${getStatusColor(session.status)} text-white`}>
-                              {session.status}
-                            </Badge>
-                          </CardContent>
-                        </Card>
-                      </div>
-                      
-                      <div className="text-center text-muted-foreground">
-                        <p>Detailed analysis coming soon...</p>
-                      </div>
+                )}
+
+                {/* Score Display */}
+                {session.overall_score && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Overall Score:</span>
+                    <div className="flex items-center gap-1">
+                      <TrendingUp className="w-4 h-4" />
+                      <span className={`font-bold ${getScoreColor(session.overall_score)}`}>
+                        {session.overall_score.toFixed(1)}%
+                      </span>
                     </div>
+                  </div>
+                )}
+
+                {/* Turn scores by side */}
+                {(sideSummary.frontside.turns > 0 || sideSummary.backside.turns > 0) && (
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    {(['frontside', 'backside'] as TurnSide[]).map(side => (
+                      <div key={side} className="flex justify-between p-2 bg-muted/50 rounded">
+                        <span className="capitalize text-muted-foreground">{side}</span>
+                        <span className={sideSummary[side].avgScore !== null ? `font-bold ${getScoreColor(sideSummary[side].avgScore)}` : 'text-muted-foreground'}>
+                          {sideSummary[side].avgScore !== null ? `${sideSummary[side].avgScore.toFixed(0)}%` : '—'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Rides found in the clip, each analysed on its own */}
+                {rides.length > 0 && (
+                  <div className="space-y-1">
+                    <div className="text-sm font-medium">{rides.length} rides</div>
+                    {rides.map(ride => (
+                      <Dialog key={ride.id}>
+                        <DialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full justify-between bg-muted/50"
+                            disabled={ride.status !== 'completed'}
+                            onClick={() => setSelectedSession(ride)}
+                          >
+                            <span>
+                              Ride {ride.ride_index}
+                              {ride.ride && ` · ${formatClipTime(ride.ride.start)}–${formatClipTime(ride.ride.end)}`}
+                              {ride.ride?.wipeout && ' · wipeout'}
+                            </span>
+                            {ride.overall_score !== null && ride.overall_score !== undefined ? (
+                              <span className={`font-bold ${getScoreColor(ride.overall_score)}`}>{ride.overall_score.toFixed(0)}%</span>
+                            ) : (
+                              <span className="text-muted-foreground">{ride.status}</span>
+                            )}
+                          </Button>
+                        </DialogTrigger>
+                        {renderAnalysisDialog(ride, `Ride ${ride.ride_index} Analysis`)}
+                      </Dialog>
+                    ))}
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="space-y-2">
+                  {rides.length === 0 && (
+                    <Dialog>
+                      <DialogTrigger asChild>
+                        <Button 
+                          className="w-full" 
+                          variant={session.status === 'completed' ? 'default' : 'secondary'}
+                          disabled={session.status !== 'completed'}
+                          onClick={() => setSelectedSession(session)}
+                        >
+                          <Eye className="w-4 h-4 mr-2" />
+                          {session.status === 'completed' ? 'View Analysis' : 'Processing...'}
+                        </Button>
+                      </DialogTrigger>
+                      {renderAnalysisDialog(session, 'Surf Analysis Results')}
+                    </Dialog>
                   )}
-                </DialogContent>
-                </Dialog>
-                
-                <Button 
-                  variant="outline" 
-                  size="sm"
-                  className="w-full text-destructive hover:text-destructive"
-                  onClick={() => deleteSession(session.id, session.video_url)}
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  Delete Video
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                  
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    className="w-full text-destructive hover:text-destructive"
+                    onClick={() => deleteSession(session.id, session.video_url)}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Video
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
     </div>
   );
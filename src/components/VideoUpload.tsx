@@ -1,19 +1,45 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Upload, Play, Scissors, CheckCircle, AlertCircle } from "lucide-react";
+import { Upload, Play, Scissors, CheckCircle, AlertCircle, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import SkillLevelSelector from "./SkillLevelSelector";
 import { supabase } from "@/integrations/supabase/client";
-import { extractFramesFromVideo } from "@/utils/frameExtraction";
-import { poseDetector, calculateSurfMetrics, FramePoseAnalysis } from "@/utils/poseDetection";
-import { turnAnalyzer, TurnResult } from "@/utils/TurnAnalyzer";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { openFrameStream, encodeThumbnail } from "@/utils/frameExtraction";
+import { calculateSurfMetrics, getSubjectPose, formatMetric, NOT_MEASURABLE_METRICS, FramePoseAnalysis, PoseResult } from "@/utils/poseDetection";
+import { SurferTracker } from "@/utils/surferTracker";
+import { pickBoard } from "@/utils/boardDetection";
+import { poseWorkerPool, PoseWorkerPool } from "@/utils/poseWorkerPool";
+import { importKeypointsForVideo } from "@/utils/keypointImport";
+import { turnAnalyzer, turnConfigFromStandards, TurnResult, CutbackResult } from "@/utils/TurnAnalyzer";
+import { detectStance, Stance, StanceEstimate } from "@/utils/stance";
+import { estimateViewpoint } from "@/utils/viewpoint";
+import { CameraMotionTracker } from "@/utils/cameraMotion";
+import { detectScene } from "@/utils/sceneGeometry";
+import { cleanSubjectTrajectories } from "@/utils/keypointFilter";
+import { segmentRides, Ride, RideSegment } from "@/utils/rideSegmentation";
+import { analyzeTubeRides, TubeRideResult } from "@/utils/tubeRide";
+import { analyzeTakeoffs, TakeoffResult } from "@/utils/takeoff";
 import PoseVisualization from "./PoseVisualization";
+import SurferSelector from "./SurferSelector";
+import KeypointImportInput from "./KeypointImportInput";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
-import { PoseKeypoint } from "@/utils/poseDetection";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// Frames are streamed through the analysis; only this many keep a thumbnail for the results view
+const MAX_DISPLAY_FRAMES = 60;
+
+type WaveType = Database["public"]["Enums"]["wave_type"];
+
+// A session is filed under the maneuver it shows most of
+const sessionTechnique = (turns: TurnResult[], cutbacks: CutbackResult[], tubeRides: TubeRideResult[]) => {
+  if (tubeRides.length > Math.max(turns.length, cutbacks.length)) return 'tube_ride' as const;
+  return cutbacks.length > turns.length ? 'cutback' as const : 'bottom_turn' as const;
+};
 
 const VideoUpload = () => {
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -27,70 +53,39 @@ const VideoUpload = () => {
   const [showSkillSelector, setShowSkillSelector] = useState(false);
   const [frameAnalysis, setFrameAnalysis] = useState<FramePoseAnalysis[]>([]);
   const [turnResults, setTurnResults] = useState<TurnResult[]>([]);
+  const [cutbackResults, setCutbackResults] = useState<CutbackResult[]>([]);
+  const [tubeRideResults, setTubeRideResults] = useState<TubeRideResult[]>([]);
+  const [takeoffResults, setTakeoffResults] = useState<TakeoffResult[]>([]);
+  const [subjectSelection, setSubjectSelection] = useState<{ imageData: string; poses: PoseResult[]; message?: string } | null>(null);
+  const subjectSelectionResolver = useRef<((point: { x: number; y: number }) => void) | null>(null);
+  const analysisAbort = useRef<AbortController | null>(null);
+  const [isCancellable, setIsCancellable] = useState(false);
+  const [stanceOverride, setStanceOverride] = useState<Stance | null>(null);
+  const [stanceEstimate, setStanceEstimate] = useState<StanceEstimate | null>(null);
+  const [waveType, setWaveType] = useState<WaveType>('beach_break');
+  const [keypointFiles, setKeypointFiles] = useState<File[]>([]);
+  const [keypointFps, setKeypointFps] = useState('');
   const { user } = useAuth();
   const { toast } = useToast();
 
-  // Helper function to generate mock pose keypoints for testing
-  const generateMockPoseKeypoints = (frameIndex: number): PoseKeypoint[] => {
-    // Generate realistic surf pose progression that simulates a bottom turn
-    const totalFrames = 10;
-    const progress = frameIndex / totalFrames; // 0 to 1
-    
-    // Simulate bottom turn progression: approach -> compression -> drive -> exit
-    let kneeFlexion, torsoLean, rotation;
-    
-    if (progress < 0.3) {
-      // Approach phase - neutral stance
-      kneeFlexion = 160 + Math.sin(progress * Math.PI) * 10; // 150-170 degrees
-      torsoLean = 5 + Math.random() * 5; // Slight lean
-      rotation = 5 + Math.random() * 5; // Minimal rotation
-    } else if (progress < 0.7) {
-      // Compression phase - deep compression, lean, rotation
-      const compressionProgress = (progress - 0.3) / 0.4;
-      kneeFlexion = 160 - compressionProgress * 75; // 160 -> 85 degrees (deep compression)
-      torsoLean = 5 + compressionProgress * 25; // 5 -> 30 degrees (lean into turn)
-      rotation = 5 + compressionProgress * 20; // 5 -> 25 degrees (shoulders lead)
-    } else {
-      // Extension/exit phase - extending out of turn
-      const exitProgress = (progress - 0.7) / 0.3;
-      kneeFlexion = 85 + exitProgress * 60; // 85 -> 145 degrees (extending)
-      torsoLean = 30 - exitProgress * 20; // 30 -> 10 degrees (straightening up)
-      rotation = 25 - exitProgress * 15; // 25 -> 10 degrees (reducing rotation)
-    }
-    
-    // Add some natural variation
-    kneeFlexion += (Math.random() - 0.5) * 5;
-    torsoLean += (Math.random() - 0.5) * 3;
-    rotation += (Math.random() - 0.5) * 3;
-    
-    // Calculate positions based on angles
-    const hipY = 50;
-    const kneeY = 70;
-    const ankleY = 90;
-    const shoulderY = 30;
-    
-    // Simulate stance width variation during turn
-    const stanceWidth = 0.3 + progress * 0.2; // Wider stance during compression
-    const centerX = 50;
-    
-    return [
-      // Shoulders - affected by torso lean
-      { x: centerX - 15 - torsoLean * 0.3, y: shoulderY, confidence: 0.9, name: 'left_shoulder' },
-      { x: centerX + 15 + torsoLean * 0.3, y: shoulderY, confidence: 0.9, name: 'right_shoulder' },
-      
-      // Hips - center of rotation
-      { x: centerX - 10, y: hipY, confidence: 0.8, name: 'left_hip' },
-      { x: centerX + 10, y: hipY, confidence: 0.8, name: 'right_hip' },
-      
-      // Knees - affected by compression and stance width
-      { x: centerX - 10 - stanceWidth * 20, y: kneeY, confidence: 0.7, name: 'left_knee' },
-      { x: centerX + 10 + stanceWidth * 20, y: kneeY, confidence: 0.7, name: 'right_knee' },
-      
-      // Ankles - follow knee positioning
-      { x: centerX - 12 - stanceWidth * 25, y: ankleY, confidence: 0.6, name: 'left_ankle' },
-      { x: centerX + 12 + stanceWidth * 25, y: ankleY, confidence: 0.6, name: 'right_ankle' }
-    ];
-  };
+  // Stance override stored on the profile; null means detect it from each video. The profile's
+  // preferred break is the default wave type.
+  useEffect(() => {
+    if (!user) return;
+    supabase
+      .from('user_profiles')
+      .select('stance, preferred_wave_type')
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading stance preference:', error);
+          return;
+        }
+        setStanceOverride(data?.stance ?? null);
+        if (data?.preferred_wave_type) setWaveType(data.preferred_wave_type);
+      });
+  }, [user]);
 
   const handleFileSelect = useCallback((file: File) => {
     if (file.type.startsWith('video/')) {
@@ -143,6 +138,135 @@ const VideoUpload = () => {
     });
   };
 
+  const handleStanceChange = async (value: string) => {
+    const stance = value === 'auto' ? null : value as Stance;
+    setStanceOverride(stance);
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ stance })
+      .eq('user_id', user.id);
+    if (error) {
+      console.error('Error saving stance preference:', error);
+      toast({
+        title: "Couldn't save stance",
+        description: "It will still be used for this analysis",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Pause the analysis until the user taps the surfer they want analysed
+  const waitForSubjectSelection = (imageData: string, poses: PoseResult[], signal: AbortSignal, message?: string) => {
+    return new Promise<{ x: number; y: number }>((resolve, reject) => {
+      subjectSelectionResolver.current = resolve;
+      setSubjectSelection({ imageData, poses, message });
+      signal.addEventListener('abort', () => {
+        subjectSelectionResolver.current = null;
+        setSubjectSelection(null);
+        reject(new Error('Analysis cancelled'));
+      }, { once: true });
+    });
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbort.current?.abort();
+    setAnalysisStep('Cancelling...');
+  };
+
+  const handleSubjectSelect = (x: number, y: number) => {
+    subjectSelectionResolver.current?.({ x, y });
+    subjectSelectionResolver.current = null;
+    setSubjectSelection(null);
+  };
+
+  // The upload's session groups its rides: each ride is saved as a child session and analysed on its
+  // own, then the parent records where the rides are and their average score
+  const analyzeRides = async (
+    parentId: string,
+    rides: Ride[],
+    segments: RideSegment[],
+    context: { videoPath: string } & Record<string, unknown>,
+    rideData: (ride: Ride) => {
+      frameAnalysis: FramePoseAnalysis[];
+      turnResults: TurnResult[];
+      cutbackResults: CutbackResult[];
+      tubeRideResults: TubeRideResult[];
+      takeoffResults: TakeoffResult[];
+    }
+  ) => {
+    const analysedRides: Array<Ride & { sessionId: string; overallScore: number | null }> = [];
+
+    for (const ride of rides) {
+      setAnalysisStep(`Analysing ride ${ride.index}/${rides.length}...`);
+      const data = rideData(ride);
+      const { data: rideSession, error: rideSessionError } = await supabase
+        .from('analysis_sessions')
+        .insert({
+          user_id: user.id,
+          technique: sessionTechnique(data.turnResults, data.cutbackResults, data.tubeRideResults),
+          wave_type: waveType,
+          skill_level: skillLevel,
+          status: 'processing',
+          video_url: context.videoPath,
+          parent_session_id: parentId,
+          ride_index: ride.index
+        })
+        .select()
+        .single();
+
+      if (rideSessionError || !rideSession) {
+        console.error(`Failed to create session for ride ${ride.index}:`, rideSessionError);
+        continue;
+      }
+
+      const { data: rideAnalysis, error: rideError } = await supabase.functions.invoke('analyze-surf-video', {
+        body: { sessionId: rideSession.id, ...data, ride, ...context }
+      });
+
+      if (rideError) {
+        console.error(`Analysis of ride ${ride.index} failed:`, rideError);
+        await supabase.from('analysis_sessions').update({ status: 'failed' }).eq('id', rideSession.id);
+        continue;
+      }
+      analysedRides.push({ ...ride, sessionId: rideSession.id, overallScore: rideAnalysis?.analysis?.overallScore ?? null });
+    }
+
+    const scores = analysedRides.map(ride => ride.overallScore).filter((score): score is number => score !== null);
+    const { error: parentError } = await supabase
+      .from('analysis_sessions')
+      .update({
+        status: analysedRides.length > 0 ? 'completed' : 'failed',
+        overall_score: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null,
+        analysis_data: { ...context, rideSegments: segments, rides: analysedRides } as unknown as Json
+      })
+      .eq('id', parentId);
+
+    if (parentError) {
+      console.error('Error saving ride summary:', parentError);
+    }
+
+    if (analysedRides.length === 0) {
+      setAnalysisError('Analysis failed for every ride');
+      toast({
+        title: "Analysis failed",
+        description: "None of the rides could be analysed. Please try again",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setAnalysisComplete(true);
+    setAnalysisStep('Analysis complete!');
+    toast({
+      title: `${analysedRides.length} rides analysed!`,
+      description: analysedRides.length < rides.length
+        ? `${rides.length - analysedRides.length} could not be analysed; the rest are in your gallery`
+        : "Each ride is in your gallery under this upload",
+    });
+  };
+
   const startAnalysis = async () => {
     if (!skillLevel) {
       setShowSkillSelector(true);
@@ -166,61 +290,216 @@ const VideoUpload = () => {
     setIsAnalyzing(true);
     setAnalysisError(null);
     setAnalysisComplete(false);
+    setStanceEstimate(null);
+    const abortController = new AbortController();
+    analysisAbort.current = abortController;
+    setIsCancellable(true);
     
     try {
       if (!user) {
         throw new Error('User not authenticated');
       }
 
-      // Step 1: Extract frames client-side
-      setAnalysisStep('Extracting video frames...');
+      // Step 1: Open the video; frames are decoded one at a time as the analysis reaches them
+      setAnalysisStep('Opening video...');
       toast({
-        title: "Extracting frames...",
-        description: "Processing your video frames"
+        title: "Opening video...",
+        description: "Frames are analysed as they are read"
       });
 
-      const frames = await extractFramesFromVideo(videoFile, 100);
+      const { frames, sampling, planned } = await openFrameStream(videoFile);
+      console.log(`🎞️ Sampling ${sampling.frameCount} frames at ${sampling.fps.toFixed(2)} fps from ${sampling.start.toFixed(1)}s to ${sampling.end.toFixed(1)}s (${sampling.decoder})`);
       
-      // Step 2: Initialize pose detection
+      // Step 2: Initialize pose detection, or replay keypoints imported from another tool
+      let pool = poseWorkerPool;
+      if (keypointFiles.length > 0) {
+        setAnalysisStep('Reading keypoint files...');
+        let recordedFrames: FramePoseAnalysis[];
+        try {
+          const imported = await importKeypointsForVideo(videoFile, keypointFiles, Number(keypointFps), planned);
+          recordedFrames = imported.recordedFrames;
+          console.log(`📥 Imported ${imported.format} keypoints for ${recordedFrames.length} frames`);
+        } catch (error) {
+          // A file that doesn't match the video stops the analysis; release the decoder first
+          await frames.return(undefined);
+          throw error;
+        }
+        pool = new PoseWorkerPool('replay', { recordedFrames });
+      }
+
       setAnalysisStep('Initializing AI models...');
       toast({
         title: "Initializing AI analysis...",
         description: "Loading pose detection models"
       });
 
-      // Skip pose detector initialization - use mock data only
-      console.log('🤖 Using mock pose data for analysis');
+      let poseBackend;
+      try {
+        poseBackend = await pool.initialize();
+      } catch (error) {
+        await frames.return(undefined);
+        throw error;
+      }
+      console.log(`🤖 Using ${poseBackend.backend} pose backend (${poseBackend.modelVersion})${pool.usesWorkers ? ' in workers' : ''}`);
 
-      // Step 3: Analyze each frame
+      // Step 3: Detect the surfer and board in each frame, and everything else that needs its pixels,
+      // before the frame is released
       const frameAnalysisResults: FramePoseAnalysis[] = [];
       const detectedTurns: TurnResult[] = [];
+      const turnFrames: number[] = []; // frame index each detected turn completed on
+      const detectedCutbacks: CutbackResult[] = [];
+      const cutbackFrames: number[] = [];
+      const frameCount = sampling.frameCount;
+      const displayEvery = Math.max(1, Math.ceil(frameCount / MAX_DISPLAY_FRAMES));
       
-      // Reset turn analyzer for new video
-      turnAnalyzer.reset();
+      // Reset turn analyzer for new video, with the turn and cutback bands for the surfer's level and the wave
+      const { data: turnStandards, error: standardsError } = await supabase
+        .from('technique_standards')
+        .select('*')
+        .in('technique', ['bottom_turn', 'top_turn', 'cutback'])
+        .eq('wave_type', waveType)
+        .eq('skill_level', skillLevel);
+      if (standardsError) {
+        console.error('Error loading turn standards, using default bands:', standardsError);
+      }
+      turnAnalyzer.configure(turnConfigFromStandards(turnStandards || [], skillLevel, waveType));
+      const tracker = new SurferTracker();
+      const cameraMotion = new CameraMotionTracker();
       
-      console.log(`🎬 Starting frame analysis for ${frames.length} frames`);
+      console.log(`🎬 Starting frame analysis for ${frameCount} frames`);
       
-      const framesToProcess = Math.min(frames.length, 10); // Reduce to 10 frames for faster processing
+      const detections = pool.detectFrames(frames, {
+        signal: abortController.signal,
+        total: frameCount,
+        onProgress: ({ completed, total }) => setAnalysisStep(`Analyzing frame ${completed}/${total}...`)
+      });
       
-      for (let i = 0; i < framesToProcess; i++) {
-        const frame = frames[i];
-        
-        setAnalysisStep(`Analyzing frame ${i + 1}/${framesToProcess}...`);
+      // Results arrive in frame order, so the tracker sees the same sequence as before
+      for await (const detection of detections) {
+        const i = detection.frameIndex;
+        const { image, timestamp } = detection.frame;
 
-        console.log(`🔍 Processing frame ${i + 1}/${framesToProcess}...`);
+        // Always add frame data, regardless of pose detection success
+        const frameData: FramePoseAnalysis = {
+          frameNumber: detection.frameNumber,
+          timestamp,
+          imageData: i % displayEvery === 0 ? encodeThumbnail(image) : undefined,
+          poses: [],
+          metrics: NOT_MEASURABLE_METRICS
+        };
         
-        // Always use mock data for consistent results
-        let metrics = null;
-        let turnResult: TurnResult | null = null;
+        try {
+          if (detection.error) {
+            throw new Error(detection.error);
+          }
+          const trackedPoses = tracker.update(detection.poses);
+          
+          if (tracker.getSubjectId() === null && trackedPoses.length > 1) {
+            setAnalysisStep('Tap the surfer you want analysed...');
+            const thumbnail = frameData.imageData ?? encodeThumbnail(image);
+            // A tap between riders picks nobody, so ask again rather than fall back to the largest rider
+            let message: string | undefined;
+            while (tracker.getSubjectId() === null) {
+              const point = await waitForSubjectSelection(thumbnail, trackedPoses, abortController.signal, message);
+              if (tracker.selectSubjectAt(point.x, point.y, trackedPoses) === null) {
+                message = 'No surfer there, tap a highlighted rider';
+              }
+            }
+          }
+          
+          const subject = tracker.getSubject(trackedPoses);
+          frameData.poses = trackedPoses;
+          frameData.subjectTrackId = subject?.trackId;
+          
+          if (subject && subject.keypoints.length > 0) {
+            frameData.cropBox = subject.cropBox ?? null;
+            frameData.board = pickBoard(detection.boards, subject);
+          } else {
+            frameData.poseDetectionError = trackedPoses.length > 0
+              ? 'Selected surfer not found in this frame'
+              : 'No surfer detected in this frame';
+          }
+        } catch (error) {
+          console.error(`Error analyzing frame ${i + 1}:`, error);
+          frameData.poseDetectionError = error instanceof Error ? error.message : 'Pose detection failed';
+        }
+
+        try {
+          // Follow the camera's pan so positions can be expressed in the scene rather than the image
+          frameData.cameraTransform = cameraMotion.update(image, [
+            ...frameData.poses.map(pose => pose.boundingBox).filter(Boolean),
+            ...(frameData.board ? [frameData.board.boundingBox] : [])
+          ]);
+          // The horizon and the wave face around the surfer give lean and board angles a level reference
+          frameData.scene = detectScene(image, getSubjectPose(frameData)?.boundingBox);
+        } finally {
+          // Only the thumbnail outlives the loop
+          image.close();
+        }
         
-        // Generate mock pose data for consistent analysis
-        const mockKeypoints = generateMockPoseKeypoints(i);
-        metrics = calculateSurfMetrics(mockKeypoints);
+        frameAnalysisResults.push(frameData);
         
-        // Process mock data through turn analyzer
-        turnResult = turnAnalyzer.processFrame(mockKeypoints);
+        // Clips now yield many more frames, so only toast every tenth
+        if (i % 10 === 0 || i === frameCount - 1) {
+          toast({
+            title: `Processing frames... ${i + 1}/${frameCount}`,
+            description: `${frameAnalysisResults.filter(f => f.subjectTrackId !== undefined).length} poses detected so far`
+          });
+        }
+      }
+      
+      // Step 4: Clean the surfer's keypoint trajectories once, so every consumer sees the same ones
+      setAnalysisStep('Smoothing keypoints...');
+      const { settings: keypointFilter, subjects: subjectKeypoints, worlds: subjectWorlds } = cleanSubjectTrajectories(frameAnalysisResults);
+      console.log(`🪄 Keypoint filter at ${keypointFilter.frameRate.toFixed(1)} fps, gaps up to ${keypointFilter.maxGapFrames} frames`);
+
+      // Step 5: Stance needs the whole clip, so metrics and turns are measured once it is known
+      setAnalysisStep('Detecting stance...');
+      const stance = detectStance(subjectKeypoints, stanceOverride);
+      setStanceEstimate(stance);
+      console.log(`🧭 Stance: ${stance.stance} (${stance.source}, ${(stance.confidence * 100).toFixed(0)}% of frames agree)`);
+
+      // The camera's angle on the surfer decides which metrics can be trusted
+      const viewpoint = estimateViewpoint(
+        subjectKeypoints,
+        subjectWorlds,
+        sampling.height > 0 ? sampling.width / sampling.height : undefined
+      );
+      console.log(`🎥 Viewpoint: ${viewpoint.viewpoint} (${(viewpoint.confidence * 100).toFixed(0)}% of frames, ${viewpoint.angleSpace} angles)`);
+
+      // Step 6: A session clip holds several rides; each is analysed on its own
+      setAnalysisStep('Finding rides...');
+      const segmentation = segmentRides(frameAnalysisResults, subjectKeypoints);
+      // A clip that is a single ride stays one analysis, as before
+      const rides: Ride[] = segmentation.rides.length > 1 ? segmentation.rides : [];
+      const rideAt = (i: number) => rides.find(ride => i >= ride.startFrame && i <= ride.endFrame);
+      console.log(`🌊 ${segmentation.rides.length} rides found:`, segmentation.rides.map(ride => `${ride.start.toFixed(1)}-${ride.end.toFixed(1)}s`));
+
+      let previousRide: Ride | undefined;
+      frameAnalysisResults.forEach((frameData, i) => {
+        const keypoints = subjectKeypoints[i];
+        frameData.travelDirection = stance.travel[i];
+        frameData.ridePhase = segmentation.phases[i];
+
+        // Turns never carry over from one ride to the next. Checked before the keypoints, since a ride
+        // often starts on a frame where the surfer wasn't found.
+        const ride = rideAt(i);
+        if (ride !== previousRide) turnAnalyzer.reset();
+        previousRide = ride;
+        if (!keypoints) return;
+
+        const orientation = { stance: stance.stance, travel: stance.travel[i] };
+        // Angles are measured in one space for the whole clip, so 2D and 3D values never mix
+        const worldKeypoints = viewpoint.angleSpace === '3d' ? subjectWorlds[i] : null;
+        frameData.metrics = calculateSurfMetrics(keypoints, frameData.board, orientation, worldKeypoints, frameData.scene);
+
+        // Turns are only looked for while riding
+        if (rides.length > 0 && !ride) return;
+        const { turn: turnResult, cutback } = turnAnalyzer.processFrame(frameData.timestamp, keypoints, frameData.board, orientation, worldKeypoints, frameData.scene, viewpoint.angleSpace);
         if (turnResult) {
           detectedTurns.push(turnResult);
+          turnFrames.push(i);
+          (frameData as any).turnResult = turnResult;
           console.log(`🏄 Turn detected at frame ${i + 1}:`, {
             bottomScore: turnResult.bottom_turn.score,
             topScore: turnResult.top_turn.score,
@@ -228,42 +507,22 @@ const VideoUpload = () => {
             state: turnAnalyzer.getCurrentState()
           });
         }
-        
-        // Always add frame data, regardless of pose detection success
-        const frameData: FramePoseAnalysis = {
-          frameNumber: frame.frameNumber,
-          timestamp: frame.timestamp,
-          imageData: frame.imageData, // Always include the frame image
-          poses: [{
-            keypoints: mockKeypoints,
-            confidence: 0.85 + Math.random() * 0.1
-          }],
-          metrics: metrics || {
-            bodyRotation: 0,
-            centerOfGravity: { x: 0, y: 0 },
-            stanceWidth: 0,
-            kneeFlexion: 0
-          }
-        };
-        
-        // Add turn result to frame data if detected
-        if (turnResult) {
-          (frameData as any).turnResult = turnResult;
-        }
-        
-        frameAnalysisResults.push(frameData);
-        
-        // Update progress more frequently
-        if (i % 2 === 0 || i === framesToProcess - 1) {
-          toast({
-            title: `Processing frames... ${i + 1}/${framesToProcess}`,
-            description: `${frameAnalysisResults.filter(f => f.poses.length > 0).length} poses detected so far`
-          });
+        if (cutback) {
+          detectedCutbacks.push(cutback);
+          cutbackFrames.push(i);
+          console.log(`🏄 Cutback detected at frame ${i + 1}:`, { score: cutback.cutback.score, side: cutback.side });
         }
-      }
+      });
       
-      const framesWithPoses = frameAnalysisResults.filter(f => f.poses.length > 0).length;
-      console.log(`🎯 Frame analysis complete: ${frameAnalysisResults.length} frames total, ${framesWithPoses} with poses, ${detectedTurns.length} turns detected`);
+      // Tube rides are found over the whole clip: the surfer is often lost for a moment inside the barrel
+      const orientations = subjectKeypoints.map((_, i) => ({ stance: stance.stance, travel: stance.travel[i] }));
+      const tubeRides = analyzeTubeRides(frameAnalysisResults, subjectKeypoints, orientations);
+      const detectedTubeRides = rides.length > 0 ? tubeRides.filter(tube => rideAt(tube.startFrame)) : tubeRides;
+      // How the surfer got to their feet on every ride, including a clip that is a single ride
+      const detectedTakeoffs = analyzeTakeoffs(frameAnalysisResults, subjectKeypoints, orientations, segmentation);
+
+      const framesWithPoses = frameAnalysisResults.filter(f => f.subjectTrackId !== undefined).length;
+      console.log(`🎯 Frame analysis complete: ${frameAnalysisResults.length} frames total, ${framesWithPoses} with poses, ${detectedTurns.length} turns, ${detectedCutbacks.length} cutbacks, ${detectedTubeRides.length} tube rides and ${detectedTakeoffs.length} take-offs detected`);
       
       // Log turn analyzer final state
       console.log(`🏄 TurnAnalyzer final state: ${turnAnalyzer.getCurrentState()}`);
@@ -275,13 +534,21 @@ const VideoUpload = () => {
 
       setFrameAnalysis(frameAnalysisResults);
       setTurnResults(detectedTurns);
+      setCutbackResults(detectedCutbacks);
+      setTubeRideResults(detectedTubeRides);
+      setTakeoffResults(detectedTakeoffs);
       
+      // Nothing is saved until here, so this is the last point a cancel can take effect
+      if (abortController.signal.aborted) {
+        throw new Error('Analysis cancelled');
+      }
+      setIsCancellable(false);
       setAnalysisStep('Creating analysis session...');
       
       // Show immediate results to user
       toast({
         title: "Frame analysis complete!",
-        description: `Processed ${frameAnalysisResults.length} frames, detected ${detectedTurns.length} turns`
+        description: `Processed ${frameAnalysisResults.length} frames, detected ${detectedTurns.length} turns, ${detectedCutbacks.length} cutbacks and ${detectedTubeRides.length} tube rides`
       });
 
       // Create analysis session in database
@@ -289,8 +556,8 @@ const VideoUpload = () => {
         .from('analysis_sessions')
         .insert({
           user_id: user.id,
-          technique: 'bottom_turn',
-          wave_type: 'beach_break',
+          technique: sessionTechnique(detectedTurns, detectedCutbacks, detectedTubeRides),
+          wave_type: waveType,
           skill_level: skillLevel,
           status: 'processing'
         })
@@ -364,6 +631,28 @@ const VideoUpload = () => {
         throw new Error('Failed to update session');
       }
 
+      // Recorded with every analysis of this upload
+      const analysisContext = {
+        videoPath: uploadData.path,
+        poseBackend,
+        keypointFilter,
+        sampling,
+        stance: { stance: stance.stance, source: stance.source, confidence: stance.confidence },
+        viewpoint,
+        skillLevel
+      };
+
+      if (rides.length > 0) {
+        await analyzeRides(session.id, rides, segmentation.segments, analysisContext, (ride) => ({
+          frameAnalysis: frameAnalysisResults.slice(ride.startFrame, ride.endFrame + 1),
+          turnResults: detectedTurns.filter((_, k) => turnFrames[k] >= ride.startFrame && turnFrames[k] <= ride.endFrame),
+          cutbackResults: detectedCutbacks.filter((_, k) => cutbackFrames[k] >= ride.startFrame && cutbackFrames[k] <= ride.endFrame),
+          tubeRideResults: detectedTubeRides.filter(tube => tube.startFrame >= ride.startFrame && tube.startFrame <= ride.endFrame),
+          takeoffResults: detectedTakeoffs.filter(takeoff => takeoff.endFrame >= ride.startFrame && takeoff.endFrame <= ride.endFrame)
+        }));
+        return;
+      }
+
       setAnalysisStep('Running AI analysis...');
       // Start AI analysis with pre-processed frame data
       console.log('🚀 Invoking analyze-surf-video function...');
@@ -377,10 +666,12 @@ const VideoUpload = () => {
       const { data: analysisData, error: analysisError } = await supabase.functions.invoke('analyze-surf-video', {
         body: {
           sessionId: session.id,
-          videoPath: uploadData.path,
           frameAnalysis: frameAnalysisResults,
           turnResults: detectedTurns,
-          skillLevel
+          cutbackResults: detectedCutbacks,
+          tubeRideResults: detectedTubeRides,
+          takeoffResults: detectedTakeoffs,
+          ...analysisContext
         }
       });
 
@@ -405,6 +696,14 @@ const VideoUpload = () => {
       }
 
     } catch (error) {
+      if (abortController.signal.aborted) {
+        setAnalysisStep('');
+        toast({
+          title: "Analysis cancelled",
+          description: "No results were saved"
+        });
+        return;
+      }
       console.error('Analysis error:', error);
       setAnalysisError(error instanceof Error ? error.message : 'Unknown error occurred');
       toast({
@@ -413,6 +712,8 @@ const VideoUpload = () => {
         variant: "destructive"
       });
     } finally {
+      analysisAbort.current = null;
+      setIsCancellable(false);
       setIsAnalyzing(false);
     }
   };
@@ -437,6 +738,16 @@ const VideoUpload = () => {
               />
             </div>
           )}
+          {subjectSelection && (
+            <div className="lg:col-span-2 mb-6">
+              <SurferSelector
+                imageData={subjectSelection.imageData}
+                poses={subjectSelection.poses}
+                message={subjectSelection.message}
+                onSelect={handleSubjectSelect}
+              />
+            </div>
+          )}
           {/* Upload Section */}
           <Card className="shadow-wave">
             <CardHeader>
@@ -493,6 +804,39 @@ const VideoUpload = () => {
                            Analysis level: <span className="font-medium capitalize">{skillLevel}</span>
                          </div>
                        )}
+                       <KeypointImportInput
+                         files={keypointFiles}
+                         fps={keypointFps}
+                         onFilesChange={setKeypointFiles}
+                         onFpsChange={setKeypointFps}
+                         disabled={isAnalyzing}
+                       />
+                       <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                         <span>Stance:</span>
+                         <Select value={stanceOverride ?? 'auto'} onValueChange={handleStanceChange} disabled={isAnalyzing}>
+                           <SelectTrigger className="w-40 h-8">
+                             <SelectValue />
+                           </SelectTrigger>
+                           <SelectContent>
+                             <SelectItem value="auto">Auto-detect</SelectItem>
+                             <SelectItem value="regular">Regular</SelectItem>
+                             <SelectItem value="goofy">Goofy</SelectItem>
+                           </SelectContent>
+                         </Select>
+                       </div>
+                       <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                         <span>Wave Type:</span>
+                         <Select value={waveType} onValueChange={(value) => setWaveType(value as WaveType)} disabled={isAnalyzing}>
+                           <SelectTrigger className="w-40 h-8">
+                             <SelectValue />
+                           </SelectTrigger>
+                           <SelectContent>
+                             <SelectItem value="beach_break">Beach Break</SelectItem>
+                             <SelectItem value="point_break">Point Break</SelectItem>
+                             <SelectItem value="reef_break">Reef Break</SelectItem>
+                           </SelectContent>
+                         </Select>
+                       </div>
                        <Button 
                          variant="wave" 
                          className="w-full" 
@@ -512,6 +856,13 @@ const VideoUpload = () => {
                          )}
                        </Button>
                       
+                      {isAnalyzing && isCancellable && (
+                        <Button variant="outline" className="w-full" onClick={cancelAnalysis}>
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Cancel Analysis
+                        </Button>
+                      )}
+                      
                       <Button variant="outline" className="w-full">
                         <Scissors className="mr-2 h-4 w-4" />
                         Trim Video
@@ -624,6 +975,14 @@ const VideoUpload = () => {
                 <CardTitle className="flex items-center gap-2">
                   🏄 Turn Analysis Results 
                   <Badge variant="secondary">{turnResults.length} turns detected</Badge>
+                  {cutbackResults.length > 0 && <Badge variant="secondary">{cutbackResults.length} cutbacks</Badge>}
+                  {tubeRideResults.length > 0 && <Badge variant="secondary">{tubeRideResults.length} tube rides</Badge>}
+                  {takeoffResults.length > 0 && <Badge variant="secondary">{takeoffResults.length} take-offs</Badge>}
+                  {stanceEstimate && (
+                    <Badge variant="outline" className="capitalize">
+                      {stanceEstimate.stance} {stanceEstimate.source === 'override' ? '(set in profile)' : `(detected, ${(stanceEstimate.confidence * 100).toFixed(0)}%)`}
+                    </Badge>
+                  )}
                 </CardTitle>
                 <p className="text-sm text-muted-foreground">
                   Current analyzer state: {turnAnalyzer.getCurrentState()}
@@ -635,25 +994,28 @@ const VideoUpload = () => {
                     {turnResults.map((turn, index) => (
                       <Card key={index} className="border-2">
                         <CardContent className="p-4">
-                          <h4 className="font-medium mb-3">Turn {index + 1}</h4>
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-medium">Turn {index + 1}</h4>
+                            {turn.side && <Badge variant="outline" className="capitalize">{turn.side}</Badge>}
+                          </div>
                           <div className="space-y-3">
                             <div className="flex justify-between items-center p-2 bg-blue-50 rounded">
                               <span className="text-sm font-medium">Bottom Turn:</span>
                               <span className="font-bold text-blue-600">
-                                {turn.bottom_turn.score}/10
+                                {turn.bottom_turn.score}/{turn.bottom_turn.max_score}
                               </span>
                             </div>
                             <div className="flex justify-between items-center p-2 bg-green-50 rounded">
                               <span className="text-sm font-medium">Top Turn:</span>
                               <span className="font-bold text-green-600">
-                                {turn.top_turn.score}/10
+                                {turn.top_turn.score}/{turn.top_turn.max_score}
                               </span>
                             </div>
                             <div className="pt-2 border-t border-gray-200">
                               <div className="flex justify-between items-center">
                                 <span className="text-sm font-semibold">Total Score:</span>
                                 <span className="text-lg font-bold text-primary">
-                                  {turn.bottom_turn.score + turn.top_turn.score}/20
+                                  {turn.bottom_turn.score + turn.top_turn.score}/{turn.bottom_turn.max_score + turn.top_turn.max_score}
                                 </span>
                               </div>
                             </div>
@@ -663,14 +1025,15 @@ const VideoUpload = () => {
                               <div>Compression: {turn.bottom_turn.snapshot.knee.toFixed(1)}°</div>
                               <div>Torso Lean: {turn.bottom_turn.snapshot.torso.toFixed(1)}°</div>
                               <div>Rotation: {turn.bottom_turn.snapshot.rot.toFixed(1)}°</div>
-                              <div>Frames: BT({turn.bottom_turn.frames}) TT({turn.top_turn.frames})</div>
+                              <div>Rail Angle: {formatMetric(turn.bottom_turn.snapshot.rail, 1, '°')}</div>
+                              <div>Duration: BT({formatMetric(turn.bottom_turn.duration, 1, 's')}) TT({formatMetric(turn.top_turn.duration, 1, 's')})</div>
                             </div>
                           </div>
                         </CardContent>
                       </Card>
                     ))}
                   </div>
-                ) : (
+                ) : cutbackResults.length === 0 && tubeRideResults.length === 0 && takeoffResults.length === 0 && (
                   <div className="text-center py-8 text-muted-foreground">
                     <p>No complete turns detected yet.</p>
                     <p className="text-sm mt-2">
@@ -681,6 +1044,83 @@ const VideoUpload = () => {
                     </p>
                   </div>
                 )}
+                {cutbackResults.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    {cutbackResults.map((cutback, index) => (
+                      <Card key={index} className="border-2">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-medium">Cutback {index + 1}</h4>
+                            {cutback.side && <Badge variant="outline" className="capitalize">{cutback.side}</Badge>}
+                          </div>
+                          <div className="flex justify-between items-center p-2 bg-orange-50 rounded mb-3">
+                            <span className="text-sm font-medium">Cutback:</span>
+                            <span className="font-bold text-orange-600">
+                              {cutback.cutback.score}/{cutback.cutback.max_score}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            <div>Reversal: {formatMetric(cutback.cutback.detail.reversal_time?.[1], 2, 's')}</div>
+                            <div>Torso Lean: {formatMetric(cutback.cutback.detail.torso_lean?.[1], 1, '°')}</div>
+                            <div>Rail to Rail: {formatMetric(cutback.cutback.detail.rail_to_rail?.[1], 1, '°')}</div>
+                            <div>Rebound Extension: {formatMetric(cutback.cutback.detail.rebound_extension?.[1], 1, '°')}</div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+                {takeoffResults.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    {takeoffResults.map((takeoff, index) => (
+                      <Card key={index} className="border-2">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-medium">Take-off {index + 1}</h4>
+                            {takeoff.passed_through_knees && <Badge variant="outline">Via the knees</Badge>}
+                          </div>
+                          <div className="flex justify-between items-center p-2 bg-purple-50 rounded mb-3">
+                            <span className="text-sm font-medium">Pop-up:</span>
+                            <span className="font-bold text-purple-600">
+                              {takeoff.pop_up.score}/{takeoff.pop_up.max_score}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            <div>Duration: {formatMetric(takeoff.pop_up.duration, 2, 's')}</div>
+                            <div>Hand Placement: {formatMetric(takeoff.pop_up.detail.hand_placement?.[1], 2)} (0 = hips, 1 = shoulders)</div>
+                            <div>Landing Stance: {formatMetric(takeoff.pop_up.detail.foot_landing?.[1], 2)}× riding width</div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+                {tubeRideResults.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                    {tubeRideResults.map((tube, index) => (
+                      <Card key={index} className="border-2">
+                        <CardContent className="p-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-medium">Tube Ride {index + 1}</h4>
+                            {tube.side && <Badge variant="outline" className="capitalize">{tube.side}</Badge>}
+                          </div>
+                          <div className="flex justify-between items-center p-2 bg-cyan-50 rounded mb-3">
+                            <span className="text-sm font-medium">Tube Ride:</span>
+                            <span className="font-bold text-cyan-600">
+                              {tube.tube_ride.score}/{tube.tube_ride.max_score}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            <div>Covered: {formatMetric(tube.tube_ride.duration, 1, 's')} ({(tube.coverage * 100).toFixed(0)}% hidden)</div>
+                            <div>Compression: {formatMetric(tube.tube_ride.detail.compression?.[1], 1, '°')}</div>
+                            <div>Trailing Hand: {formatMetric(tube.tube_ride.detail.trailing_hand?.[1], 2)} torso lengths above hips</div>
+                            <div>Hip Wobble: {formatMetric(tube.tube_ride.detail.stability?.[1], 2)}</div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
             
@@ -21,6 +21,8 @@ export type Database = {
           feedback_data: Json | null
           id: string
           overall_score: number | null
+          parent_session_id: string | null
+          ride_index: number | null
           skill_level: Database["public"]["Enums"]["skill_level"]
           status: string | null
           technique: Database["public"]["Enums"]["surf_technique"]
@@ -35,6 +37,8 @@ export type Database = {
           feedback_data?: Json | null
           id?: string
           overall_score?: number | null
+          parent_session_id?: string | null
+          ride_index?: number | null
           skill_level: Database["public"]["Enums"]["skill_level"]
           status?: string | null
           technique: Database["public"]["Enums"]["surf_technique"]
@@ -49,6 +53,8 @@ export type Database = {
           feedback_data?: Json | null
           id?: string
           overall_score?: number | null
+          parent_session_id?: string | null
+          ride_index?: number | null
           skill_level?: Database["public"]["Enums"]["skill_level"]
           status?: string | null
           technique?: Database["public"]["Enums"]["surf_technique"]
@@ -57,7 +63,15 @@ export type Database = {
           video_url?: string | null
           wave_type?: Database["public"]["Enums"]["wave_type"]
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "analysis_sessions_parent_session_id_fkey"
+            columns: ["parent_session_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       reference_videos: {
         Row: {
@@ -212,6 +226,7 @@ export type Database = {
           id: string
           preferred_wave_type: Database["public"]["Enums"]["wave_type"] | null
           skill_level: Database["public"]["Enums"]["skill_level"]
+          stance: Database["public"]["Enums"]["surf_stance"] | null
           updated_at: string | null
           user_id: string
         }
@@ -220,6 +235,7 @@ export type Database = {
           id?: string
           preferred_wave_type?: Database["public"]["Enums"]["wave_type"] | null
           skill_level?: Database["public"]["Enums"]["skill_level"]
+          stance?: Database["public"]["Enums"]["surf_stance"] | null
           updated_at?: string | null
           user_id: string
         }
@@ -228,6 +244,7 @@ export type Database = {
           id?: string
           preferred_wave_type?: Database["public"]["Enums"]["wave_type"] | null
           skill_level?: Database["public"]["Enums"]["skill_level"]
+          stance?: Database["public"]["Enums"]["surf_stance"] | null
           updated_at?: string | null
           user_id?: string
         }
@@ -242,6 +259,7 @@ export type Database = {
     }
     Enums: {
       skill_level: "beginner" | "intermediate" | "advanced" | "pro"
+      surf_stance: "regular" | "goofy"
       surf_technique: "bottom_turn" | "cutback" | "top_turn" | "tube_ride"
       wave_type: "beach_break" | "point_break" | "reef_break"
     }
@@ -372,6 +390,7 @@ export const Constants = {
   public: {
     Enums: {
       skill_level: ["beginner", "intermediate", "advanced", "pro"],
+      surf_stance: ["regular", "goofy"],
       surf_technique: ["bottom_turn", "cutback", "top_turn", "tube_ride"],
       wave_type: ["beach_break", "point_break", "reef_break"],
     },
@@ -23,4 +23,13 @@ createRoot(document.getElementById("root")!).render(
     </BrowserRouter>
     <Toaster />
   </StrictMode>
-);
\ No newline at end of file
+);
+
+// Precache the app and the pose model assets so both work offline after the first visit
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
@@ -1,19 +1,155 @@
-import { PoseKeypoint } from './poseDetection';
+import { PoseKeypoint, WorldKeypoint, MIN_KEYPOINT_CONFIDENCE } from './poseDetection';
+import type { BoardDetection } from './boardDetection';
+import { toRiderFrame, classifyManeuverSide, type RiderOrientation, type TravelDirection, type TurnSide, type WaveDirection } from './stance';
+import { jointAngles3d, type AngleSpace } from './kinematics3d';
+import { levelUp, type SceneGeometry } from './sceneGeometry';
 
 // -------- CONFIG --------
-const FPS_SMOOTH = 0.9;   // EMA smooth factor for angles
-const MIN_DET_FRAMES = 6; // minimum frames to accept a maneuver
-const COOLDOWN_FRAMES = 12;
-
-// Thresholds (from Python code)
-const BT_KNEE_MIN = 70, BT_KNEE_MAX = 100;      // bottom turn compression
-const BT_TORSO_MIN = 20, BT_TORSO_MAX = 40;     // lean into the face
-const ROT_MIN = 15;                              // shoulders lead hips
-const TT_TORSO_UPRIGHT_MAX = 20;                // top turn: upright torso
-const KNEE_EXT_DELTA = 15;                      // extension change (deg) vs. bottom
-const SMOOTH_STD_MAX = 8;                       // "flow" threshold (lower = smoother)
+// Timings are in seconds so any sampling rate sees the same turns; they match what the old frame
+// counts came to at the default 10 fps sampling
+const SMOOTHING_TIME = 0.95;      // s, time constant of the angle EMA (0.9 per frame at 10 fps)
+// The old 6-frame minimum counted the bottom turn's entry frame but not the top turn's
+const MIN_BOTTOM_DURATION = 0.5;  // s a bottom turn must be held to be accepted
+const MIN_TOP_DURATION = 0.6;     // s the same for the top turn
+const TRANSITION_DURATION = 0.3;  // s of rising to the lip before the top turn is looked for
+const COOLDOWN_DURATION = 1.2;    // s after a turn before the next one can start
+const SERIES_WINDOW = 3.0;        // s of angles kept for the smoothness proxy
+const MIN_EXTENSION_RATE = 30;    // deg/s of knee extension that marks the end of the bottom turn
+const MIN_LINE_DURATION = 0.5;    // s heading down the line before turning back counts as a cutback
+const MIN_CARVE_DURATION = 0.3;   // s heading back toward the breaking part; shorter is a glance over the shoulder
+const MAX_CARVE_DURATION = 2.5;   // s; heading back for longer means the rider has turned round for good
+const MIN_REBOUND_DURATION = 0.3; // s back down the line after rebounding off the foam
+
+// Score bands: a value inside ideal earns a score's full points, inside good one point less and inside
+// acceptable one less again. These are the intermediate beach break bands, used for anything
+// technique_standards has no row for.
+const DEFAULT_BANDS: TurnBands = {
+  btKnee:       { ideal: [70, 100], good: [60, 110], acceptable: [50, 120] }, // bottom turn compression
+  btTorso:      { ideal: [20, 40],  good: [15, 50],  acceptable: [10, 60] },  // lean into the turn
+  btRotation:   { ideal: [15, 180], good: [10, 180], acceptable: [10, 180] }, // shoulders lead hips
+  btRail:       { ideal: [35, 90],  good: [20, 90],  acceptable: [20, 90] },  // board roll (deg) onto its rail
+  btSmoothness: { ideal: [0, 8],    good: [0, 12],   acceptable: [0, 12] },   // "flow": angle std (lower = smoother)
+  ttExtension:  { ideal: [15, 180], good: [10, 180], acceptable: [5, 180] },  // knee extension (deg) vs. bottom
+  ttTorso:      { ideal: [0, 20],   good: [0, 30],   acceptable: [0, 30] },   // top turn: upright torso
+  ttRotation:   { ideal: [15, 180], good: [10, 180], acceptable: [5, 180] },
+  ttSmoothness: { ideal: [0, 8],    good: [0, 12],   acceptable: [0, 12] },
+  cbReversal:   { ideal: [0.6, 1.5], good: [0.4, 2.0], acceptable: [0.3, 2.5] }, // cutback: s heading back
+  cbTorso:      { ideal: [25, 50],  good: [20, 60],  acceptable: [15, 70] },  // lean into the carve
+  cbRotation:   { ideal: [20, 180], good: [15, 180], acceptable: [15, 180] }, // shoulders leading round
+  cbRail:       { ideal: [30, 90],  good: [15, 90],  acceptable: [15, 90] },  // roll (deg) through flat to the other rail
+  cbRebound:    { ideal: [15, 180], good: [10, 180], acceptable: [5, 180] }   // knee extension (deg) off the foam
+};
+
+// Standards are frontside. Backside turns are driven off the heels: deeper compression, less visible
+// lean and more shoulder rotation to look down the line, so the bands are shifted by [min, max].
+const BACKSIDE_SHIFT: Partial<Record<keyof TurnBands, [number, number]>> = {
+  btKnee: [-10, -5],
+  btTorso: [-10, -10],
+  btRotation: [10, 0],
+  btRail: [-5, 0],
+  ttTorso: [0, 5],
+  ttRotation: [10, 0],
+  cbTorso: [-10, -10],
+  cbRotation: [10, 0]
+};
+
+// technique_standards rows each band is read from
+const STANDARD_METRICS: Record<keyof TurnBands, { technique: string; metric: string }> = {
+  btKnee: { technique: 'bottom_turn', metric: 'turn_knee_angle' },
+  btTorso: { technique: 'bottom_turn', metric: 'turn_torso_lean' },
+  btRotation: { technique: 'bottom_turn', metric: 'turn_shoulder_rotation' },
+  btRail: { technique: 'bottom_turn', metric: 'turn_rail_roll' },
+  btSmoothness: { technique: 'bottom_turn', metric: 'turn_smoothness_std' },
+  ttExtension: { technique: 'top_turn', metric: 'turn_knee_extension' },
+  ttTorso: { technique: 'top_turn', metric: 'turn_torso_lean' },
+  ttRotation: { technique: 'top_turn', metric: 'turn_shoulder_rotation' },
+  ttSmoothness: { technique: 'top_turn', metric: 'turn_smoothness_std' },
+  cbReversal: { technique: 'cutback', metric: 'cutback_reversal_time' },
+  cbTorso: { technique: 'cutback', metric: 'cutback_torso_lean' },
+  cbRotation: { technique: 'cutback', metric: 'cutback_shoulder_rotation' },
+  cbRail: { technique: 'cutback', metric: 'cutback_rail_change' },
+  cbRebound: { technique: 'cutback', metric: 'cutback_rebound_extension' }
+};
+
+// What the FSM needs to see to start and finish a turn. These stay the same at every skill level,
+// so a beginner's shallow compression is still found and then scored against the beginner bands.
+const DETECTION: Record<TurnSide, TurnDetection> = {
+  frontside: {
+    btKnee: [70, 100], btTorso: [20, 40], btRotationMin: 15, btKneeTarget: 85,
+    ttTorsoMax: 30, ttRotationMin: 10, ttExtensionMin: 5
+  },
+  backside: {
+    btKnee: [60, 95], btTorso: [10, 30], btRotationMin: 25, btKneeTarget: 78,
+    ttTorsoMax: 35, ttRotationMin: 20, ttExtensionMin: 5
+  }
+};
+
+const DEFAULT_SIDE: TurnSide = 'frontside'; // used until a frame tells the sides apart
+const MIN_FRAME_CONFIDENCE = MIN_KEYPOINT_CONFIDENCE; // frames below this are skipped by the FSM
 
 // -------- INTERFACES --------
+export interface ScoreBand {
+  ideal: [number, number]; // [min, max], inclusive
+  good: [number, number];
+  acceptable: [number, number];
+}
+
+export interface TurnBands {
+  btKnee: ScoreBand;
+  btTorso: ScoreBand;
+  btRotation: ScoreBand;
+  btRail: ScoreBand;
+  btSmoothness: ScoreBand;
+  ttExtension: ScoreBand;
+  ttTorso: ScoreBand;
+  ttRotation: ScoreBand;
+  ttSmoothness: ScoreBand;
+  cbReversal: ScoreBand;
+  cbTorso: ScoreBand;
+  cbRotation: ScoreBand;
+  cbRail: ScoreBand;
+  cbRebound: ScoreBand;
+}
+
+// Thresholds the FSM gates on; the bands only score what it finds
+export interface TurnDetection {
+  btKnee: [number, number];  // bottom turn onset: knee compression
+  btTorso: [number, number]; // and lean
+  btRotationMin: number;     // and shoulders leading the hips
+  btKneeTarget: number;      // knee angle the bottom snapshot is taken closest to
+  ttTorsoMax: number;        // top turn: upright enough
+  ttRotationMin: number;
+  ttExtensionMin: number;    // knee extension (deg) vs. the bottom turn
+}
+
+export interface TurnAnalyzerConfig {
+  skillLevel: string | null; // what the bands were built for; null for the defaults
+  waveType: string | null;
+  bands: Record<TurnSide, TurnBands>;
+  detection: Record<TurnSide, TurnDetection>;
+}
+
+// The bands a turn was judged against, kept with its result
+export interface TurnConfigSnapshot {
+  skill_level: string | null;
+  wave_type: string | null;
+  bands: TurnBands;
+}
+
+// The technique_standards columns the config is built from
+export interface TurnStandard {
+  technique: string;
+  wave_type: string;
+  skill_level: string;
+  metric_name: string;
+  ideal_min: number | null;
+  ideal_max: number | null;
+  good_min: number | null;
+  good_max: number | null;
+  acceptable_min: number | null;
+  acceptable_max: number | null;
+}
+
 export interface TurnScore {
   score: number;
   detail: Record<string, [number, number]>;
@@ -23,23 +159,69 @@ export interface TurnSnapshot {
   knee: number;
   torso: number;
   rot: number;
+  rail?: number | null; // board roll (deg); null when the board was not measurable
 }
 
 export interface TurnResult {
+  side: TurnSide | null;                 // null when neither body nor stance showed it; scored as frontside
+  wave_direction: WaveDirection | null;
   bottom_turn: {
     score: number;
+    max_score: number; // 10, or 12 when rail engagement could be scored
     detail: Record<string, [number, number]>;
     snapshot: TurnSnapshot;
     frames: number;
+    duration?: number; // s; missing on results from before time-based timing
   };
   top_turn: {
     score: number;
+    max_score: number;
     detail: Record<string, [number, number]>;
     frames: number;
+    duration?: number; // s, from leaving the bottom turn
   };
+  config?: TurnConfigSnapshot; // missing on results from before configurable bands
+}
+
+// A turn back toward the breaking part of the wave, then a rebound down the line
+export interface CutbackResult {
+  side: TurnSide | null;                 // of the line the rider cut back from
+  wave_direction: WaveDirection | null;
+  cutback: TurnScore & {
+    max_score: number; // 10, or 12 when the rail-to-rail change could be scored
+    frames: number;
+    duration: number;  // s, from turning back to the end of the rebound
+  };
+  config?: TurnConfigSnapshot;
+}
+
+// What a single frame completed
+export interface FrameManeuvers {
+  turn: TurnResult | null;
+  cutback: CutbackResult | null;
+}
+
+// Angles over the last SERIES_WINDOW seconds
+interface AngleSeries {
+  time: number[];
+  knee: number[];
+  torso: number[];
+  rot: number[];
+}
+
+// Joint-derived angle with the confidence of its weakest joint; value is null when not measurable
+interface Measurement {
+  value: number | null;
+  confidence: number;
 }
 
 // -------- UTILS --------
+function findJoints(keypoints: PoseKeypoint[], names: string[]): [PoseKeypoint[], number] {
+  const joints = names.map(name => keypoints.find(kp => kp.name === name));
+  const confidence = Math.min(...joints.map(joint => joint?.confidence ?? 0));
+  return [joints, confidence];
+}
+
 function angleAt(a: PoseKeypoint, b: PoseKeypoint, c: PoseKeypoint): number {
   const pa = [a.x, a.y];
   const pb = [b.x, b.y];
@@ -58,21 +240,19 @@ function angleAt(a: PoseKeypoint, b: PoseKeypoint, c: PoseKeypoint): number {
   return Math.acos(cosang) * (180 / Math.PI);
 }
 
-function torsoAngle(keypoints: PoseKeypoint[]): number {
-  const leftShoulder = keypoints.find(kp => kp.name === 'left_shoulder');
-  const rightShoulder = keypoints.find(kp => kp.name === 'right_shoulder');
-  const leftHip = keypoints.find(kp => kp.name === 'left_hip');
-  const rightHip = keypoints.find(kp => kp.name === 'right_hip');
+// Lean from "up", which is the image vertical unless the horizon shows the camera is tilted
+function torsoAngle(keypoints: PoseKeypoint[], vertical: [number, number] = [0, -1]): Measurement {
+  const [[leftShoulder, rightShoulder, leftHip, rightHip], confidence] =
+    findJoints(keypoints, ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip']);
   
-  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) {
-    return 0;
+  if (confidence < MIN_KEYPOINT_CONFIDENCE) {
+    return { value: null, confidence };
   }
   
   const shMid = [(leftShoulder.x + rightShoulder.x) / 2, (leftShoulder.y + rightShoulder.y) / 2];
   const hpMid = [(leftHip.x + rightHip.x) / 2, (leftHip.y + rightHip.y) / 2];
   
   const v = [shMid[0] - hpMid[0], shMid[1] - hpMid[1]];
-  const vertical = [0, -1];
   
   const dotProduct = v[0] * vertical[0] + v[1] * vertical[1];
   const magV = Math.sqrt(v[0] * v[0] + v[1] * v[1]);
@@ -81,17 +261,15 @@ function torsoAngle(keypoints: PoseKeypoint[]): number {
   const denom = magV * magVertical + 1e-9;
   const cosang = Math.max(-1, Math.min(1, dotProduct / denom));
   
-  return Math.acos(cosang) * (180 / Math.PI);
+  return { value: Math.acos(cosang) * (180 / Math.PI), confidence };
 }
 
-function rotationDiff(keypoints: PoseKeypoint[]): number {
-  const leftShoulder = keypoints.find(kp => kp.name === 'left_shoulder');
-  const rightShoulder = keypoints.find(kp => kp.name === 'right_shoulder');
-  const leftHip = keypoints.find(kp => kp.name === 'left_hip');
-  const rightHip = keypoints.find(kp => kp.name === 'right_hip');
+function rotationDiff(keypoints: PoseKeypoint[]): Measurement {
+  const [[leftShoulder, rightShoulder, leftHip, rightHip], confidence] =
+    findJoints(keypoints, ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip']);
   
-  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) {
-    return 0;
+  if (confidence < MIN_KEYPOINT_CONFIDENCE) {
+    return { value: null, confidence };
   }
   
   const shAng = Math.atan2(leftShoulder.y - rightShoulder.y, leftShoulder.x - rightShoulder.x) * (180 / Math.PI);
@@ -100,86 +278,163 @@ function rotationDiff(keypoints: PoseKeypoint[]): number {
   let diff = Math.abs(shAng - hpAng);
   // normalize to [0,180]
   diff = diff <= 180 ? diff : 360 - diff;
-  return diff;
+  return { value: diff, confidence };
 }
 
-function avgKneeFlex(keypoints: PoseKeypoint[]): number {
-  const leftHip = keypoints.find(kp => kp.name === 'left_hip');
-  const leftKnee = keypoints.find(kp => kp.name === 'left_knee');
-  const leftAnkle = keypoints.find(kp => kp.name === 'left_ankle');
-  const rightHip = keypoints.find(kp => kp.name === 'right_hip');
-  const rightKnee = keypoints.find(kp => kp.name === 'right_knee');
-  const rightAnkle = keypoints.find(kp => kp.name === 'right_ankle');
+// Averages the visible knees; one occluded leg still leaves a usable (if less certain) reading
+function avgKneeFlex(keypoints: PoseKeypoint[]): Measurement {
+  const legs = [
+    findJoints(keypoints, ['left_hip', 'left_knee', 'left_ankle']),
+    findJoints(keypoints, ['right_hip', 'right_knee', 'right_ankle'])
+  ];
+  const visible = legs.filter(([, confidence]) => confidence >= MIN_KEYPOINT_CONFIDENCE);
   
-  if (!leftHip || !leftKnee || !leftAnkle || !rightHip || !rightKnee || !rightAnkle) {
-    return 90; // default
+  if (visible.length === 0) {
+    return { value: null, confidence: Math.max(...legs.map(([, confidence]) => confidence)) };
   }
   
-  const lk = angleAt(leftHip, leftKnee, leftAnkle);
-  const rk = angleAt(rightHip, rightKnee, rightAnkle);
+  const angle = visible.reduce((sum, [[hip, knee, ankle]]) => sum + angleAt(hip, knee, ankle), 0) / visible.length;
+  const confidence = visible.reduce((sum, [, legConfidence]) => sum + legConfidence, 0) / visible.length;
   
-  return (lk + rk) / 2.0;
+  return { value: angle, confidence };
+}
+
+const inBand = (value: number, [min, max]: [number, number]): boolean => min <= value && value <= max;
+
+// Full points inside the ideal range, one less inside good, one less again inside acceptable
+export function bandPoints(value: number, band: ScoreBand, points: number): number {
+  if (inBand(value, band.ideal)) return points;
+  if (inBand(value, band.good)) return Math.max(0, points - 1);
+  if (inBand(value, band.acceptable)) return Math.max(0, points - 2);
+  return 0;
+}
+
+function shiftBand(band: ScoreBand, [dMin, dMax]: [number, number]): ScoreBand {
+  const shift = ([min, max]: [number, number]): [number, number] => [min + dMin, max + dMax];
+  return { ideal: shift(band.ideal), good: shift(band.good), acceptable: shift(band.acceptable) };
+}
+
+function withBackside(frontside: TurnBands): Record<TurnSide, TurnBands> {
+  const backside = { ...frontside };
+  (Object.keys(BACKSIDE_SHIFT) as Array<keyof TurnBands>).forEach(key => {
+    backside[key] = shiftBand(frontside[key], BACKSIDE_SHIFT[key]);
+  });
+  return { frontside, backside };
+}
+
+function stdOr0(values: number[]): number {
+  if (values.length < 5) return 0;
+  const mean = values.reduce((a, b) => a + b) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length);
 }
 
+const emptySeries = (): AngleSeries => ({ time: [], knee: [], torso: [], rot: [] });
+
+function pushSample(series: AngleSeries, t: number, knee: number, torso: number, rot: number): void {
+  series.time.push(t);
+  series.knee.push(knee);
+  series.torso.push(torso);
+  series.rot.push(rot);
+  while (series.time.length > 1 && series.time[0] < t - SERIES_WINDOW) {
+    series.time.shift();
+    series.knee.shift();
+    series.torso.shift();
+    series.rot.shift();
+  }
+}
+
+// Exponential smoothing with a time constant, so the lag is the same whatever the gap between samples
 class EMA {
-  private a: number;
+  private tau: number;
   private v: number | null = null;
+  private t: number | null = null;
   
-  constructor(alpha: number = FPS_SMOOTH) {
-    this.a = alpha;
+  constructor(timeConstant: number = SMOOTHING_TIME) {
+    this.tau = timeConstant;
   }
   
-  update(x: number): number {
+  // weight (0-1) scales how far a sample can pull the average, so shaky readings move it less
+  update(x: number, t: number, weight: number = 1): number {
     if (this.v === null) {
       this.v = x;
     } else {
-      this.v = this.a * this.v + (1 - this.a) * x;
+      const dt = Math.max(0, t - this.t);
+      const k = (1 - Math.exp(-dt / this.tau)) * weight;
+      this.v = (1 - k) * this.v + k * x;
     }
+    this.t = t;
     return this.v;
   }
 }
 
+// -------- CONFIG BUILDING --------
+export const DEFAULT_TURN_CONFIG: TurnAnalyzerConfig = {
+  skillLevel: null,
+  waveType: null,
+  bands: withBackside(DEFAULT_BANDS),
+  detection: DETECTION
+};
+
+// Bands for a skill level and wave type from technique_standards rows; metrics without a complete
+// row keep the default band
+export function turnConfigFromStandards(standards: TurnStandard[], skillLevel: string, waveType: string): TurnAnalyzerConfig {
+  const frontside = { ...DEFAULT_BANDS };
+  (Object.keys(STANDARD_METRICS) as Array<keyof TurnBands>).forEach(key => {
+    const { technique, metric } = STANDARD_METRICS[key];
+    const row = standards.find(standard =>
+      standard.technique === technique && standard.metric_name === metric &&
+      standard.skill_level === skillLevel && standard.wave_type === waveType);
+    if (!row) return;
+    const limits = [row.ideal_min, row.ideal_max, row.good_min, row.good_max, row.acceptable_min, row.acceptable_max];
+    if (limits.some(limit => limit === null)) return;
+    frontside[key] = {
+      ideal: [row.ideal_min, row.ideal_max],
+      good: [row.good_min, row.good_max],
+      acceptable: [row.acceptable_min, row.acceptable_max]
+    };
+  });
+  return { skillLevel, waveType, bands: withBackside(frontside), detection: DETECTION };
+}
+
 // -------- SCORING --------
 function scoreBottomTurn(
   knee: number, 
   torso: number, 
   rot: number, 
+  rail: number | null,
   kneeSeries: number[], 
   torsoSeries: number[], 
-  rotSeries: number[]
+  rotSeries: number[],
+  bands: TurnBands
 ): [number, Record<string, [number, number]>] {
   let score = 0;
   const detail: Record<string, [number, number]> = {};
 
   // Compression (3 points max)
-  let comp = 0;
-  if (BT_KNEE_MIN <= knee && knee <= BT_KNEE_MAX) comp = 3;
-  else if ((60 <= knee && knee < 70) || (100 < knee && knee <= 110)) comp = 2;
-  else if ((50 <= knee && knee < 60) || (110 < knee && knee <= 120)) comp = 1;
+  const comp = bandPoints(knee, bands.btKnee, 3);
   score += comp;
   detail["compression"] = [comp, knee];
 
   // Torso lean (3 points max)
-  let lean = 0;
-  if (BT_TORSO_MIN <= torso && torso <= BT_TORSO_MAX) lean = 3;
-  else if ((15 <= torso && torso < 20) || (40 < torso && torso <= 50)) lean = 2;
-  else if ((10 <= torso && torso < 15) || (50 < torso && torso <= 60)) lean = 1;
+  const lean = bandPoints(torso, bands.btTorso, 3);
   score += lean;
   detail["torso_lean"] = [lean, torso];
 
   // Shoulders leading hips (2 points max)
-  const rotPts = rot >= ROT_MIN ? 2 : (rot >= 10 ? 1 : 0);
+  const rotPts = bandPoints(rot, bands.btRotation, 2);
   score += rotPts;
   detail["rotation"] = [rotPts, rot];
 
+  // Rail engagement (2 points max), only when the board was visible
+  if (rail !== null) {
+    const railPts = bandPoints(rail, bands.btRail, 2);
+    score += railPts;
+    detail["rail_engagement"] = [railPts, Math.round(rail * 10) / 10];
+  }
+
   // Smoothness (2 points max)
-  const stdOr0 = (arr: number[]) => arr.length >= 5 ? Math.sqrt(arr.reduce((sum, val, _, array) => {
-    const mean = array.reduce((a, b) => a + b) / array.length;
-    return sum + Math.pow(val - mean, 2);
-  }, 0) / arr.length) : 0;
-  
   const smoothProxy = (stdOr0(kneeSeries) + stdOr0(torsoSeries) + stdOr0(rotSeries)) / 3.0;
-  const smPts = smoothProxy <= SMOOTH_STD_MAX ? 2 : (smoothProxy <= SMOOTH_STD_MAX * 1.5 ? 1 : 0);
+  const smPts = bandPoints(smoothProxy, bands.btSmoothness, 2);
   score += smPts;
   detail["smoothness_std"] = [smPts, Math.round(smoothProxy * 100) / 100];
 
@@ -193,41 +448,78 @@ function scoreTopTurn(
   rot: number, 
   kneeSeries: number[], 
   torsoSeries: number[], 
-  rotSeries: number[]
+  rotSeries: number[],
+  bands: TurnBands
 ): [number, Record<string, [number, number]>] {
   let score = 0;
   const detail: Record<string, [number, number]> = {};
 
   // Extension vs bottom turn knee (3 points max)
   const extDelta = kneeBt !== null ? kneeNow - kneeBt : 0;
-  const extPts = extDelta >= KNEE_EXT_DELTA ? 3 : (extDelta >= 10 ? 2 : (extDelta >= 5 ? 1 : 0));
+  const extPts = bandPoints(extDelta, bands.ttExtension, 3);
   score += extPts;
   detail["extension_delta_vs_bottom"] = [extPts, Math.round(extDelta * 10) / 10];
 
   // Upright torso at top (2 points max)
-  const upPts = torso <= TT_TORSO_UPRIGHT_MAX ? 2 : (torso <= TT_TORSO_UPRIGHT_MAX + 10 ? 1 : 0);
+  const upPts = bandPoints(torso, bands.ttTorso, 2);
   score += upPts;
   detail["upright_torso"] = [upPts, torso];
 
   // Rotation maintained/redirected (3 points max)
-  const rotPts = rot >= ROT_MIN ? 3 : (rot >= 10 ? 2 : (rot >= 5 ? 1 : 0));
+  const rotPts = bandPoints(rot, bands.ttRotation, 3);
   score += rotPts;
   detail["rotation"] = [rotPts, rot];
 
   // Flow (2 points max)
-  const stdOr0 = (arr: number[]) => arr.length >= 5 ? Math.sqrt(arr.reduce((sum, val, _, array) => {
-    const mean = array.reduce((a, b) => a + b) / array.length;
-    return sum + Math.pow(val - mean, 2);
-  }, 0) / arr.length) : 0;
-  
   const smoothProxy = (stdOr0(kneeSeries) + stdOr0(torsoSeries) + stdOr0(rotSeries)) / 3.0;
-  const smPts = smoothProxy <= SMOOTH_STD_MAX ? 2 : (smoothProxy <= SMOOTH_STD_MAX * 1.5 ? 1 : 0);
+  const smPts = bandPoints(smoothProxy, bands.ttSmoothness, 2);
   score += smPts;
   detail["smoothness_std"] = [smPts, Math.round(smoothProxy * 100) / 100];
 
   return [score, detail];
 }
 
+function scoreCutback(
+  reversal: number,
+  torso: number,
+  rot: number,
+  railChange: number | null,
+  rebound: number,
+  bands: TurnBands
+): [number, Record<string, [number, number]>] {
+  let score = 0;
+  const detail: Record<string, [number, number]> = {};
+
+  // Committed reversal: long enough to come back to the pocket, short enough to keep speed (3 points max)
+  const revPts = bandPoints(reversal, bands.cbReversal, 3);
+  score += revPts;
+  detail["reversal_time"] = [revPts, Math.round(reversal * 100) / 100];
+
+  // Lean into the carve (3 points max)
+  const lean = bandPoints(torso, bands.cbTorso, 3);
+  score += lean;
+  detail["torso_lean"] = [lean, torso];
+
+  // Shoulders leading the board round (2 points max)
+  const rotPts = bandPoints(rot, bands.cbRotation, 2);
+  score += rotPts;
+  detail["rotation"] = [rotPts, rot];
+
+  // Rail to rail through flat (2 points max), only when the board was visible
+  if (railChange !== null) {
+    const railPts = bandPoints(railChange, bands.cbRail, 2);
+    score += railPts;
+    detail["rail_to_rail"] = [railPts, Math.round(railChange * 10) / 10];
+  }
+
+  // Extension off the foam (2 points max)
+  const rebPts = bandPoints(rebound, bands.cbRebound, 2);
+  score += rebPts;
+  detail["rebound_extension"] = [rebPts, Math.round(rebound * 10) / 10];
+
+  return [score, detail];
+}
+
 // -------- STATE MACHINE --------
 enum TurnState {
   IDLE = 0,
@@ -239,95 +531,116 @@ enum TurnState {
 
 export class TurnFSM {
   private state = TurnState.IDLE;
-  private framesInState = 0;
+  private stateStart = 0; // s, when the current state was entered
   private bottomSnapshot: TurnSnapshot | null = null;
-  private bottomSeries = { knee: [] as number[], torso: [] as number[], rot: [] as number[] };
-  private topSeries = { knee: [] as number[], torso: [] as number[], rot: [] as number[] };
+  private bottomSeries = emptySeries();
+  private topSeries = emptySeries();
   private btScore: [number, Record<string, [number, number]>] | null = null;
+  private btDuration = 0;
   private prevKnee: number | null = null;
+  private prevTime: number | null = null;
+  // Side and wave of the maneuver in progress; picked at onset, filled in later if still unknown
+  private side: TurnSide | null = null;
+  private wave: WaveDirection | null = null;
+
+  constructor(private config: TurnAnalyzerConfig = DEFAULT_TURN_CONFIG) {}
+
+  // timestamp: s into the clip; samples must come in order but can be any distance apart
+  update(
+    timestamp: number,
+    knee: number,
+    torso: number,
+    rot: number,
+    confidence: number = 1,
+    rail: number | null = null,
+    side: TurnSide | null = null,
+    wave: WaveDirection | null = null
+  ): TurnResult | null {
+    // Occluded or uncertain frames neither advance the state nor pollute the series
+    if (confidence < MIN_FRAME_CONFIDENCE) {
+      return null;
+    }
 
-  update(knee: number, torso: number, rot: number): TurnResult | null {
-    this.framesInState++;
+    if (this.state === TurnState.IDLE) {
+      this.side = side;
+      this.wave = wave;
+    } else {
+      this.side = this.side ?? side;
+      this.wave = this.wave ?? wave;
+    }
+    const bands = this.config.bands[this.side ?? DEFAULT_SIDE];
+    const detection = this.config.detection[this.side ?? DEFAULT_SIDE];
+    const elapsed = timestamp - this.stateStart;
 
-    // Add to rolling series for smoothness proxy (limit to 30 frames)
+    // Add to rolling series for smoothness proxy
     if (this.state === TurnState.IDLE || this.state === TurnState.BOTTOM) {
-      this.bottomSeries.knee.push(knee);
-      this.bottomSeries.torso.push(torso);
-      this.bottomSeries.rot.push(rot);
-      if (this.bottomSeries.knee.length > 30) {
-        this.bottomSeries.knee.shift();
-        this.bottomSeries.torso.shift();
-        this.bottomSeries.rot.shift();
-      }
+      pushSample(this.bottomSeries, timestamp, knee, torso, rot);
     }
     if (this.state === TurnState.TRANSITION || this.state === TurnState.TOP) {
-      this.topSeries.knee.push(knee);
-      this.topSeries.torso.push(torso);
-      this.topSeries.rot.push(rot);
-      if (this.topSeries.knee.length > 30) {
-        this.topSeries.knee.shift();
-        this.topSeries.torso.shift();
-        this.topSeries.rot.shift();
-      }
+      pushSample(this.topSeries, timestamp, knee, torso, rot);
     }
 
     // State logic
     if (this.state === TurnState.IDLE) {
       // Look for compression + lean + rotation -> bottom turn onset
-      const condComp = BT_KNEE_MIN <= knee && knee <= BT_KNEE_MAX;
-      const condLean = BT_TORSO_MIN <= torso && torso <= BT_TORSO_MAX;
-      const condRot = rot >= ROT_MIN;
+      const condComp = inBand(knee, detection.btKnee);
+      const condLean = inBand(torso, detection.btTorso);
+      const condRot = rot >= detection.btRotationMin;
       if (condComp && condLean && condRot) {
         this.state = TurnState.BOTTOM;
-        this.framesInState = 1;
-        this.bottomSnapshot = { knee, torso, rot };
+        this.stateStart = timestamp;
+        this.bottomSnapshot = { knee, torso, rot, rail };
       }
     } else if (this.state === TurnState.BOTTOM) {
-      // Update snapshot to the "deepest" compression (closer to 85 deg)
+      // Update snapshot to the "deepest" compression (closest to the detection target)
       const prevBest = this.bottomSnapshot?.knee || knee;
-      const target = 85.0;
+      const target = detection.btKneeTarget;
       if (Math.abs(knee - target) < Math.abs(prevBest - target)) {
-        this.bottomSnapshot = { knee, torso, rot };
+        this.bottomSnapshot = { knee, torso, rot, rail };
       }
 
       // Detect exit of bottom: knee extending & torso getting more upright
-      const extending = this.prevKnee !== null && (knee - this.prevKnee > 3.0);
-      const moreUpright = torso < Math.max(BT_TORSO_MIN - 2, 10) || 
+      const dt = this.prevTime !== null ? timestamp - this.prevTime : 0;
+      const extending = this.prevKnee !== null && dt > 0 && (knee - this.prevKnee) / dt > MIN_EXTENSION_RATE;
+      const moreUpright = torso < Math.max(detection.btTorso[0] - 2, 10) || 
                          (this.bottomSnapshot && torso < this.bottomSnapshot.torso - 5);
       
-      if (extending && moreUpright && this.framesInState >= MIN_DET_FRAMES && this.bottomSnapshot) {
+      if (extending && moreUpright && elapsed >= MIN_BOTTOM_DURATION && this.bottomSnapshot) {
         // Finalize bottom score
         const [btScore, btDetail] = scoreBottomTurn(
           this.bottomSnapshot.knee,
           this.bottomSnapshot.torso, 
           this.bottomSnapshot.rot,
+          this.bottomSnapshot.rail ?? null,
           [...this.bottomSeries.knee],
           [...this.bottomSeries.torso],
-          [...this.bottomSeries.rot]
+          [...this.bottomSeries.rot],
+          bands
         );
         this.btScore = [btScore, btDetail];
+        this.btDuration = elapsed;
         
         // Move to transition
         this.state = TurnState.TRANSITION;
-        this.framesInState = 0;
+        this.stateStart = timestamp;
         
         // Reset top series
-        this.topSeries = { knee: [], torso: [], rot: [] };
+        this.topSeries = emptySeries();
       }
     } else if (this.state === TurnState.TRANSITION) {
-      // Wait a few frames to reach top; then enter TOP
-      if (this.framesInState >= 3) {
+      // Wait a moment to reach top; then enter TOP
+      if (elapsed >= TRANSITION_DURATION) {
         this.state = TurnState.TOP;
-        this.framesInState = 0;
+        this.stateStart = timestamp;
       }
     } else if (this.state === TurnState.TOP) {
       // Conditions for top turn: upright + rotation + extension vs bottom
       const kneeBt = this.bottomSnapshot?.knee || null;
-      const condUp = torso <= TT_TORSO_UPRIGHT_MAX + 10;
-      const condRot = rot >= 10;
-      const condExt = kneeBt === null || (knee - kneeBt >= 5);
+      const condUp = torso <= detection.ttTorsoMax;
+      const condRot = rot >= detection.ttRotationMin;
+      const condExt = kneeBt === null || (knee - kneeBt >= detection.ttExtensionMin);
       
-      if (condUp && condRot && condExt && this.framesInState >= MIN_DET_FRAMES) {
+      if (condUp && condRot && condExt && elapsed >= MIN_TOP_DURATION) {
         // Finalize top score
         const [ttScore, ttDetail] = scoreTopTurn(
           knee, 
@@ -336,43 +649,52 @@ export class TurnFSM {
           rot,
           [...this.topSeries.knee],
           [...this.topSeries.torso],
-          [...this.topSeries.rot]
+          [...this.topSeries.rot],
+          bands
         );
         
         // Emit result (bottom + top pair)
         const result: TurnResult = {
+          side: this.side,
+          wave_direction: this.wave,
           bottom_turn: {
             score: this.btScore?.[0] || 0,
+            max_score: this.btScore?.[1]?.["rail_engagement"] ? 12 : 10,
             detail: this.btScore?.[1] || {},
             snapshot: this.bottomSnapshot || { knee: 0, torso: 0, rot: 0 },
-            frames: this.bottomSeries.knee.length
+            frames: this.bottomSeries.knee.length,
+            duration: this.btDuration
           },
           top_turn: {
             score: ttScore,
+            max_score: 10,
             detail: ttDetail,
-            frames: this.topSeries.knee.length
-          }
+            frames: this.topSeries.knee.length,
+            duration: this.topSeries.time.length > 0 ? timestamp - this.topSeries.time[0] : 0
+          },
+          config: { skill_level: this.config.skillLevel, wave_type: this.config.waveType, bands }
         };
         
         // Enter cooldown
         this.state = TurnState.COOLDOWN;
-        this.framesInState = 0;
+        this.stateStart = timestamp;
         
         return result;
       }
     } else if (this.state === TurnState.COOLDOWN) {
-      if (this.framesInState >= COOLDOWN_FRAMES) {
+      if (elapsed >= COOLDOWN_DURATION) {
         // Reset for next cycle
         this.state = TurnState.IDLE;
-        this.framesInState = 0;
+        this.stateStart = timestamp;
         this.bottomSnapshot = null;
         this.btScore = null;
-        this.bottomSeries = { knee: [], torso: [], rot: [] };
-        this.topSeries = { knee: [], torso: [], rot: [] };
+        this.bottomSeries = emptySeries();
+        this.topSeries = emptySeries();
       }
     }
 
     this.prevKnee = knee;
+    this.prevTime = timestamp;
     return null;
   }
 
@@ -388,25 +710,238 @@ export class TurnFSM {
   }
 }
 
+enum CutbackState {
+  LINE = 0,
+  CARVE = 1,
+  REBOUND = 2,
+  COOLDOWN = 3
+}
+
+// Watches the travel direction: a line held down the wave, a reversal back toward the breaking
+// part, then a rebound onto the original line. The board's roll dips through flat as it goes from
+// one rail to the other.
+export class CutbackFSM {
+  private state = CutbackState.LINE;
+  private stateStart = 0;
+  private line: TravelDirection | null = null; // direction down the line
+  private lineStart = 0;
+  private side: TurnSide | null = null;
+  private wave: WaveDirection | null = null;
+  private carveDuration = 0;
+  private peakTorso = 0;
+  private peakRot = 0;
+  private minKnee = Infinity;
+  private maxKnee = -Infinity;
+  private frames = 0;
+  // Board roll before and through the cutback, for the rail-to-rail change
+  private lineRails: Array<{ time: number; roll: number }> = [];
+  private carveRails: number[] = [];
+
+  constructor(private config: TurnAnalyzerConfig = DEFAULT_TURN_CONFIG) {}
+
+  update(
+    timestamp: number,
+    knee: number,
+    torso: number,
+    rot: number,
+    confidence: number = 1,
+    rail: number | null = null,
+    travel: TravelDirection | null = null,
+    side: TurnSide | null = null,
+    wave: WaveDirection | null = null
+  ): CutbackResult | null {
+    if (confidence < MIN_FRAME_CONFIDENCE || !travel) {
+      return null;
+    }
+    const elapsed = timestamp - this.stateStart;
+
+    if (this.state === CutbackState.LINE || this.state === CutbackState.COOLDOWN) {
+      if (rail !== null) this.lineRails.push({ time: timestamp, roll: rail });
+      while (this.lineRails.length > 0 && this.lineRails[0].time < timestamp - SERIES_WINDOW) this.lineRails.shift();
+    }
+
+    if (this.state === CutbackState.COOLDOWN) {
+      if (travel !== this.line) {
+        this.line = travel;
+        this.lineStart = timestamp;
+      }
+      if (elapsed >= COOLDOWN_DURATION) {
+        this.state = CutbackState.LINE;
+        this.stateStart = timestamp;
+      }
+    }
+
+    if (this.state === CutbackState.LINE) {
+      if (this.line && travel !== this.line && timestamp - this.lineStart >= MIN_LINE_DURATION) {
+        // Turning back toward the breaking part
+        this.state = CutbackState.CARVE;
+        this.stateStart = timestamp;
+        this.peakTorso = torso;
+        this.peakRot = rot;
+        this.minKnee = knee;
+        this.maxKnee = -Infinity;
+        this.frames = 1;
+        this.carveRails = rail !== null ? [rail] : [];
+      } else if (travel !== this.line) {
+        this.line = travel;
+        this.lineStart = timestamp;
+      } else {
+        this.side = side;
+        this.wave = wave;
+      }
+    } else if (this.state === CutbackState.CARVE) {
+      this.frames++;
+      if (rail !== null) this.carveRails.push(rail);
+      if (travel === this.line) {
+        if (elapsed >= MIN_CARVE_DURATION) {
+          // Rebounding back onto the line
+          this.state = CutbackState.REBOUND;
+          this.carveDuration = elapsed;
+          this.stateStart = timestamp;
+          this.maxKnee = knee;
+        } else {
+          // Only a look back over the shoulder; the line carries on
+          this.state = CutbackState.LINE;
+        }
+      } else if (elapsed > MAX_CARVE_DURATION) {
+        // Turned round for good: the new direction is the line now
+        this.state = CutbackState.LINE;
+        this.line = travel;
+        this.lineStart = this.stateStart;
+        this.lineRails = [];
+      } else {
+        this.peakTorso = Math.max(this.peakTorso, torso);
+        this.peakRot = Math.max(this.peakRot, rot);
+        this.minKnee = Math.min(this.minKnee, knee);
+      }
+    } else if (this.state === CutbackState.REBOUND) {
+      this.frames++;
+      if (rail !== null) this.carveRails.push(rail);
+      this.maxKnee = Math.max(this.maxKnee, knee);
+      if (travel !== this.line) {
+        // Turned back again before settling on the line: not a finished cutback
+        this.state = CutbackState.LINE;
+        this.line = travel;
+        this.lineStart = timestamp;
+        this.lineRails = [];
+      } else if (elapsed >= MIN_REBOUND_DURATION) {
+        const bands = this.config.bands[this.side ?? DEFAULT_SIDE];
+        const [score, detail] = scoreCutback(
+          this.carveDuration,
+          this.peakTorso,
+          this.peakRot,
+          this.railChange(),
+          this.maxKnee - this.minKnee,
+          bands
+        );
+        const result: CutbackResult = {
+          side: this.side,
+          wave_direction: this.wave,
+          cutback: {
+            score,
+            max_score: detail["rail_to_rail"] ? 12 : 10,
+            detail,
+            frames: this.frames,
+            duration: this.carveDuration + elapsed
+          },
+          config: { skill_level: this.config.skillLevel, wave_type: this.config.waveType, bands }
+        };
+
+        this.state = CutbackState.COOLDOWN;
+        this.stateStart = timestamp;
+        this.lineStart = timestamp;
+        this.lineRails = [];
+        return result;
+      }
+    }
+
+    return null;
+  }
+
+  // Roll lost going flat and regained on the other rail: the smaller of the two rail peaks above
+  // the flattest point. Null without board readings either side of it.
+  private railChange(): number | null {
+    if (this.carveRails.length === 0) return null;
+    const flatIndex = this.carveRails.indexOf(Math.min(...this.carveRails));
+    const before = [...this.lineRails.map(sample => sample.roll), ...this.carveRails.slice(0, flatIndex)];
+    const after = this.carveRails.slice(flatIndex + 1);
+    if (before.length === 0 || after.length === 0) return null;
+    return Math.min(Math.max(...before), Math.max(...after)) - this.carveRails[flatIndex];
+  }
+}
+
 export class TurnAnalyzer {
   private emaKnee = new EMA();
   private emaTorso = new EMA();
   private emaRot = new EMA();
-  private fsm = new TurnFSM();
+  private fsm: TurnFSM;
+  private cutbackFsm: CutbackFSM;
   private turnResults: TurnResult[] = [];
+  private cutbackResults: CutbackResult[] = [];
 
-  processFrame(keypoints: PoseKeypoint[]): TurnResult | null {
-    const knee = this.emaKnee.update(avgKneeFlex(keypoints));
-    const torso = this.emaTorso.update(torsoAngle(keypoints));
-    const rot = this.emaRot.update(rotationDiff(keypoints));
+  constructor(private config: TurnAnalyzerConfig = DEFAULT_TURN_CONFIG) {
+    this.fsm = new TurnFSM(config);
+    this.cutbackFsm = new CutbackFSM(config);
+  }
+
+  // Measured in the rider's frame so one set of thresholds fits regular and goofy riders on either wave.
+  // With world landmarks the same three angles are taken in 3D, free of the camera's perspective.
+  // Pass the clip's angleSpace (see estimateViewpoint) so 2D and 3D angles never share the smoothing:
+  // in a 3D clip a frame without world landmarks is skipped rather than measured on the image.
+  processFrame(
+    timestamp: number,
+    keypoints: PoseKeypoint[],
+    board?: BoardDetection | null,
+    orientation?: RiderOrientation | null,
+    worldKeypoints?: WorldKeypoint[] | null,
+    scene?: SceneGeometry | null,
+    angleSpace: AngleSpace = worldKeypoints && worldKeypoints.length > 0 ? '3d' : '2d'
+  ): FrameManeuvers {
+    let kneeM: Measurement;
+    let torsoM: Measurement;
+    let rotM: Measurement;
+    if (angleSpace === '3d') {
+      if (!worldKeypoints || worldKeypoints.length === 0) {
+        return { turn: null, cutback: null };
+      }
+      const angles = jointAngles3d(worldKeypoints, orientation);
+      kneeM = angles.kneeAngle;
+      torsoM = angles.trunkInclination;
+      rotM = angles.shoulderHipSeparation;
+    } else {
+      const riderKeypoints = toRiderFrame(keypoints, orientation);
+      kneeM = avgKneeFlex(riderKeypoints);
+      // Lean is unsigned, so it is the same mirrored or not; measured on the image, where the horizon is
+      torsoM = torsoAngle(keypoints, levelUp(scene));
+      rotM = rotationDiff(riderKeypoints);
+    }
+
+    // Not measurable this frame: keep the smoothed state as is and let the FSMs skip it
+    if (kneeM.value === null || torsoM.value === null || rotM.value === null) {
+      return { turn: null, cutback: null };
+    }
 
-    const result = this.fsm.update(knee, torso, rot);
+    const knee = this.emaKnee.update(kneeM.value, timestamp, kneeM.confidence);
+    const torso = this.emaTorso.update(torsoM.value, timestamp, torsoM.confidence);
+    const rot = this.emaRot.update(rotM.value, timestamp, rotM.confidence);
+    const confidence = Math.min(kneeM.confidence, torsoM.confidence, rotM.confidence);
+    // The board is optional evidence: when it is missing the turn is scored on the body alone
+    const rail = board && board.confidence >= MIN_KEYPOINT_CONFIDENCE ? board.roll : null;
+
+    // Side comes from the raw image: it depends on which way the rider faces the camera
+    const { side, wave } = classifyManeuverSide(keypoints, orientation);
+
+    const result = this.fsm.update(timestamp, knee, torso, rot, confidence, rail, side, wave);
+    const cutback = this.cutbackFsm.update(timestamp, knee, torso, rot, confidence, rail, orientation?.travel ?? null, side, wave);
     
     if (result) {
       this.turnResults.push(result);
     }
+    if (cutback) {
+      this.cutbackResults.push(cutback);
+    }
     
-    return result;
+    return { turn: result, cutback };
   }
 
   getCurrentState(): string {
@@ -417,13 +952,51 @@ export class TurnAnalyzer {
     return [...this.turnResults];
   }
 
+  getCutbackResults(): CutbackResult[] {
+    return [...this.cutbackResults];
+  }
+
+  getConfig(): TurnAnalyzerConfig {
+    return this.config;
+  }
+
+  // Judges every turn from here on against new bands; clears the analysis like reset()
+  configure(config: TurnAnalyzerConfig): void {
+    this.config = config;
+    this.reset();
+  }
+
+  // Keeps the config, so rides of one session are all judged alike
   reset(): void {
     this.emaKnee = new EMA();
     this.emaTorso = new EMA();
     this.emaRot = new EMA();
-    this.fsm = new TurnFSM();
+    this.fsm = new TurnFSM(this.config);
+    this.cutbackFsm = new CutbackFSM(this.config);
     this.turnResults = [];
+    this.cutbackResults = [];
   }
 }
 
+// -------- REPORTING --------
+export interface SideSummary {
+  turns: number;
+  avgScore: number | null; // mean of bottom + top turn as a % of their max scores
+}
+
+// Older results have no side; they count as neither so they don't skew either average
+export function summarizeTurnsBySide(turns: TurnResult[]): Record<TurnSide, SideSummary> {
+  const summarize = (side: TurnSide): SideSummary => {
+    const scores = turns
+      .filter(turn => turn.side === side)
+      .map(turn => ((turn.bottom_turn.score + turn.top_turn.score) /
+        ((turn.bottom_turn.max_score ?? 10) + (turn.top_turn.max_score ?? 10))) * 100);
+    return {
+      turns: scores.length,
+      avgScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+    };
+  };
+  return { frontside: summarize('frontside'), backside: summarize('backside') };
+}
+
 export const turnAnalyzer = new TurnAnalyzer();
\ No newline at end of file
@@ -0,0 +1,200 @@
+import {
+  BoundingBox, DetectedObject, FrameCanvas, ObjectDetections, PoseResult, loadObjectDetector, objectDetections, context2d
+} from './poseDetection';
+
+// -------- CONFIG --------
+const BOARD_DETECTION_THRESHOLD = 0.3; // "surfboard" scores lower than "person" on DETR, especially in spray
+const BOARD_ASPECT_RATIO = 0.27;       // planform width / length of a typical shortboard
+const WATER_COLOR_DISTANCE = 60;       // RGB distance from the water colour that counts as board
+const MIN_BOARD_PIXELS = 40;           // fewer segmented pixels than this gives no usable outline
+const SAMPLE_STRIDE = 2;               // pixel step when segmenting the board box
+const RAIL_FULL_ENGAGEMENT = 70;       // rail angle (deg) treated as 100% rail engagement
+
+// -------- INTERFACES --------
+export interface BoardPoint {
+  x: number;
+  y: number;
+}
+
+// Board geometry in the same percentage coordinates as PoseKeypoint
+export interface BoardDetection {
+  boundingBox: BoundingBox;
+  outline: BoardPoint[];    // corners of the oriented board rectangle
+  pitch: number;            // deg, long axis against the image horizontal (positive = rising to the right)
+  roll: number;             // deg, 0 = flat, 90 = fully on its rail; from the board's apparent width
+  railEngagement: number;   // roll as a 0-100% score, the unit technique_standards uses
+  confidence: number;
+}
+
+// -------- UTILS --------
+function railEngagementFromRoll(roll: number): number {
+  return Math.min(100, (roll / RAIL_FULL_ENGAGEMENT) * 100);
+}
+
+function colorDistance(data: Uint8ClampedArray, index: number, color: [number, number, number]): number {
+  const dr = data[index] - color[0];
+  const dg = data[index + 1] - color[1];
+  const db = data[index + 2] - color[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Water colour inside a box is estimated from its border, which the board rarely fills
+function borderColor(data: Uint8ClampedArray, width: number, height: number): [number, number, number] {
+  const channels: [number[], number[], number[]] = [[], [], []];
+  const sample = (x: number, y: number) => {
+    const index = (y * width + x) * 4;
+    channels[0].push(data[index]);
+    channels[1].push(data[index + 1]);
+    channels[2].push(data[index + 2]);
+  };
+  for (let x = 0; x < width; x += SAMPLE_STRIDE) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 0; y < height; y += SAMPLE_STRIDE) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+}
+
+// Box the surfer is standing on: closest to their feet, or the most confident one
+export function pickBoard(boards: BoardDetection[], subject: PoseResult | null | undefined): BoardDetection | null {
+  const feet = subject?.keypoints.filter(kp =>
+    (kp.name === 'left_ankle' || kp.name === 'right_ankle') && kp.confidence >= 0.3
+  ) || [];
+  if (feet.length === 0) {
+    return [...boards].sort((a, b) => b.confidence - a.confidence)[0] ?? null;
+  }
+
+  const footX = feet.reduce((sum, kp) => sum + kp.x, 0) / feet.length;
+  const footY = feet.reduce((sum, kp) => sum + kp.y, 0) / feet.length;
+  const distance = ({ boundingBox: box }: BoardDetection) => Math.hypot(
+    Math.max(box.x - footX, 0, footX - (box.x + box.width)),
+    Math.max(box.y - footY, 0, footY - (box.y + box.height))
+  );
+  return [...boards].sort((a, b) => distance(a) - distance(b))[0] ?? null;
+}
+
+// -------- DETECTOR --------
+// Finds the surfer's board with DETR, then fits an oriented rectangle to the board pixels in its box
+export class BoardDetector {
+  private ready = false;
+  private unavailable = false;
+
+  // Without the detector (e.g. offline before it was cached) no boards are found, so rail engagement
+  // is reported as not measurable for the rest of the session instead of failing every frame
+  async initialize(): Promise<void> {
+    if (this.ready || this.unavailable) return;
+
+    try {
+      await loadObjectDetector();
+      this.ready = true;
+    } catch (error) {
+      this.unavailable = true;
+      console.error('Surfboard detector unavailable, rail engagement will not be measured:', error);
+    }
+  }
+
+  async detectBoard(canvas: FrameCanvas, subject?: PoseResult | null): Promise<BoardDetection | null> {
+    return pickBoard(await this.detectBoards(canvas), subject);
+  }
+
+  // Every board in the frame; callers that only learn who the surfer is later pick one with pickBoard.
+  // Pass the frame's shared detections when the pose pass already ran DETR on it.
+  async detectBoards(canvas: FrameCanvas, objects: ObjectDetections = objectDetections(canvas)): Promise<BoardDetection[]> {
+    if (!this.ready) {
+      await this.initialize();
+      if (!this.ready) return [];
+    }
+
+    return ((await objects()) || [])
+      .filter(({ label, score }) => label === 'surfboard' && score >= BOARD_DETECTION_THRESHOLD)
+      .map(board => this.fitBoard(canvas, board.box, board.score))
+      .filter((board): board is BoardDetection => board !== null);
+  }
+
+  private fitBoard(canvas: FrameCanvas, box: DetectedObject['box'], score: number): BoardDetection | null {
+    const xmin = Math.max(0, Math.floor(box.xmin));
+    const ymin = Math.max(0, Math.floor(box.ymin));
+    const width = Math.min(canvas.width, Math.ceil(box.xmax)) - xmin;
+    const height = Math.min(canvas.height, Math.ceil(box.ymax)) - ymin;
+    if (width < 2 || height < 2) {
+      return null;
+    }
+
+    const { data } = context2d(canvas).getImageData(xmin, ymin, width, height);
+    const water = borderColor(data, width, height);
+
+    // Principal axes of the segmented pixels give the board's orientation and apparent size
+    const points: BoardPoint[] = [];
+    for (let y = 0; y < height; y += SAMPLE_STRIDE) {
+      for (let x = 0; x < width; x += SAMPLE_STRIDE) {
+        if (colorDistance(data, (y * width + x) * 4, water) > WATER_COLOR_DISTANCE) {
+          points.push({ x, y });
+        }
+      }
+    }
+    if (points.length < MIN_BOARD_PIXELS) {
+      return null;
+    }
+
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    let cxx = 0, cyy = 0, cxy = 0;
+    for (const p of points) {
+      cxx += (p.x - meanX) ** 2;
+      cyy += (p.y - meanY) ** 2;
+      cxy += (p.x - meanX) * (p.y - meanY);
+    }
+    cxx /= points.length;
+    cyy /= points.length;
+    cxy /= points.length;
+
+    const angle = 0.5 * Math.atan2(2 * cxy, cxx - cyy);
+    const spread = Math.sqrt(((cxx - cyy) / 2) ** 2 + cxy ** 2);
+    const major = (cxx + cyy) / 2 + spread;
+    const minor = Math.max(0, (cxx + cyy) / 2 - spread);
+    // A uniform rectangle of side L has variance L^2 / 12 along that side
+    const length = Math.sqrt(12 * major);
+    const apparentWidth = Math.sqrt(12 * minor);
+
+    // Filmed side-on, a flat board is seen edge-on; tipping it onto a rail reveals its planform width
+    const roll = Math.asin(Math.min(1, apparentWidth / (length * BOARD_ASPECT_RATIO + 1e-9))) * (180 / Math.PI);
+    // Image y points down, so flip it for a conventional nose-up-positive pitch
+    let pitch = -angle * (180 / Math.PI);
+    if (pitch > 90) pitch -= 180;
+    if (pitch < -90) pitch += 180;
+
+    const ux = Math.cos(angle), uy = Math.sin(angle);
+    const toPercent = (x: number, y: number): BoardPoint => ({
+      x: ((xmin + x) / canvas.width) * 100,
+      y: ((ymin + y) / canvas.height) * 100
+    });
+    const outline = [[1, 1], [1, -1], [-1, -1], [-1, 1]].map(([along, across]) => toPercent(
+      meanX + along * (length / 2) * ux - across * (apparentWidth / 2) * uy,
+      meanY + along * (length / 2) * uy + across * (apparentWidth / 2) * ux
+    ));
+
+    return {
+      boundingBox: {
+        x: (xmin / canvas.width) * 100,
+        y: (ymin / canvas.height) * 100,
+        width: (width / canvas.width) * 100,
+        height: (height / canvas.height) * 100
+      },
+      outline,
+      pitch,
+      roll,
+      railEngagement: railEngagementFromRoll(roll),
+      confidence: score
+    };
+  }
+}
+
+export const boardDetector = new BoardDetector();
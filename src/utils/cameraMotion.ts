@@ -0,0 +1,234 @@
+import { BoundingBox, FrameImage, context2d, createFrameCanvas } from './poseDetection';
+
+// -------- CONFIG --------
+const ANALYSIS_WIDTH = 160;      // px, frames are downscaled to this before matching (and by sceneGeometry)
+const PATCH_SIZE = 8;            // px, side of each matched block
+const GRID_STEP = 10;            // px between candidate patches
+const MAX_PATCHES = 60;          // most textured candidates kept per frame pair
+const MIN_PATCH_CONTRAST = 6;    // grey-level std below which a patch (flat sky or water) can't be matched
+const SEARCH_RADIUS = 24;        // px at analysis size; the largest pan expected between analysed frames
+const SUBJECT_MARGIN = 0.25;     // fraction added around people and boards, which move on their own
+const MIN_INLIERS = 6;           // fewer agreeing patches than this and the step is treated as a still camera
+const INLIER_TOLERANCE = 1.5;    // px, residual always accepted when fitting the motion
+const FIT_ROUNDS = 3;
+
+// -------- INTERFACES --------
+// Maps a point of this frame into the scene, which is the first frame's view:
+// scene = scale * frame + (x, y), in the same percentage coordinates as PoseKeypoint
+export interface CameraTransform {
+  scale: number;
+  x: number;
+  y: number;
+  confidence: number; // share of background patches that agreed with the step into this frame
+}
+
+export interface SceneExtent {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GrayFrame {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+interface PatchMatch {
+  qx: number; // patch centre relative to the image centre, px
+  qy: number;
+  dx: number; // displacement into the next frame, px
+  dy: number;
+}
+
+export const IDENTITY_TRANSFORM: CameraTransform = { scale: 1, x: 0, y: 0, confidence: 1 };
+
+// -------- UTILS --------
+export function toGray(image: FrameImage): GrayFrame {
+  const width = ANALYSIS_WIDTH;
+  const height = Math.max(1, Math.round((image.height / image.width) * ANALYSIS_WIDTH));
+  const small = createFrameCanvas(width, height);
+  const ctx = context2d(small);
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data: rgba } = ctx.getImageData(0, 0, width, height);
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { data, width, height };
+}
+
+function isExcluded(x: number, y: number, frame: GrayFrame, exclude: BoundingBox[]): boolean {
+  const px = (x / frame.width) * 100;
+  const py = (y / frame.height) * 100;
+  return exclude.some(box => {
+    const mx = box.width * SUBJECT_MARGIN;
+    const my = box.height * SUBJECT_MARGIN;
+    return px >= box.x - mx && px <= box.x + box.width + mx && py >= box.y - my && py <= box.y + box.height + my;
+  });
+}
+
+function patchContrast(frame: GrayFrame, x0: number, y0: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  for (let y = y0; y < y0 + PATCH_SIZE; y++) {
+    for (let x = x0; x < x0 + PATCH_SIZE; x++) {
+      const value = frame.data[y * frame.width + x];
+      sum += value;
+      sumSq += value * value;
+    }
+  }
+  const n = PATCH_SIZE * PATCH_SIZE;
+  return Math.sqrt(Math.max(0, sumSq / n - (sum / n) ** 2));
+}
+
+// Exhaustive block matching (sum of absolute differences) within SEARCH_RADIUS
+function matchPatch(from: GrayFrame, to: GrayFrame, x0: number, y0: number): { dx: number; dy: number } | null {
+  let best = Infinity;
+  let bestDx = 0;
+  let bestDy = 0;
+  for (let dy = -SEARCH_RADIUS; dy <= SEARCH_RADIUS; dy++) {
+    const ty = y0 + dy;
+    if (ty < 0 || ty + PATCH_SIZE > to.height) continue;
+    for (let dx = -SEARCH_RADIUS; dx <= SEARCH_RADIUS; dx++) {
+      const tx = x0 + dx;
+      if (tx < 0 || tx + PATCH_SIZE > to.width) continue;
+      let sad = 0;
+      for (let y = 0; y < PATCH_SIZE && sad < best; y++) {
+        const fromRow = (y0 + y) * from.width + x0;
+        const toRow = (ty + y) * to.width + tx;
+        for (let x = 0; x < PATCH_SIZE; x++) {
+          sad += Math.abs(from.data[fromRow + x] - to.data[toRow + x]);
+        }
+      }
+      if (sad < best) {
+        best = sad;
+        bestDx = dx;
+        bestDy = dy;
+      }
+    }
+  }
+  return best < Infinity ? { dx: bestDx, dy: bestDy } : null;
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// Least squares for d = t + k * q (pan plus zoom about the centre), refitted on the inliers
+function fitMotion(matches: PatchMatch[]): { tx: number; ty: number; k: number; inliers: number } {
+  let inliers = matches;
+  let fit = { tx: 0, ty: 0, k: 0 };
+  for (let round = 0; round < FIT_ROUNDS && inliers.length > 0; round++) {
+    const n = inliers.length;
+    const mqx = inliers.reduce((sum, m) => sum + m.qx, 0) / n;
+    const mqy = inliers.reduce((sum, m) => sum + m.qy, 0) / n;
+    const mdx = inliers.reduce((sum, m) => sum + m.dx, 0) / n;
+    const mdy = inliers.reduce((sum, m) => sum + m.dy, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    for (const m of inliers) {
+      covariance += (m.qx - mqx) * (m.dx - mdx) + (m.qy - mqy) * (m.dy - mdy);
+      variance += (m.qx - mqx) ** 2 + (m.qy - mqy) ** 2;
+    }
+    const k = variance > 0 ? covariance / variance : 0;
+    fit = { tx: mdx - k * mqx, ty: mdy - k * mqy, k };
+
+    const residual = (m: PatchMatch) => Math.hypot(m.dx - fit.tx - fit.k * m.qx, m.dy - fit.ty - fit.k * m.qy);
+    const tolerance = Math.max(INLIER_TOLERANCE, 2.5 * median(matches.map(residual)));
+    inliers = matches.filter(m => residual(m) <= tolerance);
+  }
+  return { ...fit, inliers: inliers.length };
+}
+
+// Pan and zoom from one frame to the next, in percentage coordinates about the frame centre
+function estimateStep(from: GrayFrame, to: GrayFrame, exclude: BoundingBox[]): { scale: number; tx: number; ty: number; confidence: number } {
+  const candidates: Array<{ x: number; y: number; contrast: number }> = [];
+  for (let y = 0; y + PATCH_SIZE <= from.height; y += GRID_STEP) {
+    for (let x = 0; x + PATCH_SIZE <= from.width; x += GRID_STEP) {
+      if (isExcluded(x + PATCH_SIZE / 2, y + PATCH_SIZE / 2, from, exclude)) continue;
+      const contrast = patchContrast(from, x, y);
+      if (contrast >= MIN_PATCH_CONTRAST) candidates.push({ x, y, contrast });
+    }
+  }
+
+  const matches: PatchMatch[] = candidates
+    .sort((a, b) => b.contrast - a.contrast)
+    .slice(0, MAX_PATCHES)
+    .map(({ x, y }) => {
+      const match = matchPatch(from, to, x, y);
+      return match && {
+        qx: x + PATCH_SIZE / 2 - from.width / 2,
+        qy: y + PATCH_SIZE / 2 - from.height / 2,
+        ...match
+      };
+    })
+    .filter((match): match is PatchMatch => match !== null);
+
+  if (matches.length < MIN_INLIERS) {
+    return { scale: 1, tx: 0, ty: 0, confidence: 0 };
+  }
+  const { tx, ty, k, inliers } = fitMotion(matches);
+  if (inliers < MIN_INLIERS) {
+    return { scale: 1, tx: 0, ty: 0, confidence: 0 };
+  }
+  return {
+    scale: 1 + k,
+    tx: (tx / from.width) * 100,
+    ty: (ty / from.height) * 100,
+    confidence: inliers / matches.length
+  };
+}
+
+// -------- ESTIMATION --------
+// Global motion between consecutive frames, chained into a transform per frame. Background features
+// (beach, headland, horizon, whitewater) are tracked with the riders masked out; a step that can't be
+// measured is taken as a still camera with zero confidence. Frames are fed one at a time and only the
+// previous one is kept (downscaled), so clips of any length can be streamed through it.
+export class CameraMotionTracker {
+  private previous: GrayFrame | null = null;
+  private previousExclude: BoundingBox[] = [];
+  private last: CameraTransform = IDENTITY_TRANSFORM;
+
+  // exclude: regions of this frame that move independently of the camera (riders, boards)
+  update(image: FrameImage, exclude: BoundingBox[] = []): CameraTransform {
+    const current = toGray(image);
+    if (this.previous) {
+      const { scale, tx, ty, confidence } = estimateStep(this.previous, current, this.previousExclude);
+      // frame_i = scale * (frame_{i-1} - 50) + 50 + t, inverted and chained onto the previous transform
+      const last = this.last;
+      this.last = {
+        scale: last.scale / scale,
+        x: last.scale * (50 - (50 + tx) / scale) + last.x,
+        y: last.scale * (50 - (50 + ty) / scale) + last.y,
+        confidence
+      };
+    }
+    this.previous = current;
+    this.previousExclude = exclude;
+    return this.last;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.previousExclude = [];
+    this.last = IDENTITY_TRANSFORM;
+  }
+}
+
+export function toScene<P extends { x: number; y: number }>(point: P, transform: CameraTransform | null | undefined): P {
+  if (!transform) return point;
+  return { ...point, x: transform.scale * point.x + transform.x, y: transform.scale * point.y + transform.y };
+}
+
+// Area of the scene covered by all the frames, for laying them out in a stabilised view
+export function sceneExtent(transforms: Array<CameraTransform | null | undefined>): SceneExtent {
+  const known = transforms.map(transform => transform ?? IDENTITY_TRANSFORM);
+  const minX = Math.min(0, ...known.map(t => t.x));
+  const minY = Math.min(0, ...known.map(t => t.y));
+  const maxX = Math.max(100, ...known.map(t => t.x + t.scale * 100));
+  const maxY = Math.max(100, ...known.map(t => t.y + t.scale * 100));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
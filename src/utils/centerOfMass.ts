@@ -0,0 +1,95 @@
+import { MIN_KEYPOINT_CONFIDENCE, type PoseKeypoint } from './poseDetection';
+
+// -------- CONFIG --------
+const MIN_MASS_COVERAGE = 0.7;     // share of body mass that must be visible for a usable centre of mass
+
+// Dempster segment masses (fraction of body mass) and CoM position along proximal -> distal.
+// Each end lists fallbacks so COCO skeletons (no heels, toes or fingers) still resolve.
+interface Segment {
+  mass: number;
+  proximal: string[][];
+  distal: string[][];
+  ratio: number;
+}
+
+const side = (prefix: 'left' | 'right'): Segment[] => [
+  { mass: 0.028, proximal: [[`${prefix}_shoulder`]], distal: [[`${prefix}_elbow`]], ratio: 0.436 },            // upper arm
+  { mass: 0.016, proximal: [[`${prefix}_elbow`]], distal: [[`${prefix}_wrist`]], ratio: 0.430 },               // forearm
+  { mass: 0.006, proximal: [[`${prefix}_wrist`]], distal: [[`${prefix}_index`], [`${prefix}_wrist`]], ratio: 0.506 }, // hand
+  { mass: 0.100, proximal: [[`${prefix}_hip`]], distal: [[`${prefix}_knee`]], ratio: 0.433 },                  // thigh
+  { mass: 0.0465, proximal: [[`${prefix}_knee`]], distal: [[`${prefix}_ankle`]], ratio: 0.433 },               // shank
+  { mass: 0.0145, proximal: [[`${prefix}_heel`], [`${prefix}_ankle`]], distal: [[`${prefix}_foot_index`], [`${prefix}_ankle`]], ratio: 0.5 } // foot
+];
+
+const SEGMENTS: Segment[] = [
+  { mass: 0.081, proximal: [['left_ear', 'right_ear'], ['nose']], distal: [['left_ear', 'right_ear'], ['nose']], ratio: 0.5 }, // head
+  { mass: 0.497, proximal: [['left_shoulder', 'right_shoulder']], distal: [['left_hip', 'right_hip']], ratio: 0.5 },            // trunk
+  ...side('left'),
+  ...side('right')
+];
+
+// -------- INTERFACES --------
+export interface CenterOfMassEstimate {
+  x: number;
+  y: number;
+  confidence: number; // mass-weighted mean confidence of the joints used
+}
+
+// -------- UTILS --------
+// Midpoint of the first fallback whose joints are all confidently visible
+function resolvePoint(keypoints: PoseKeypoint[], options: string[][]): { x: number; y: number; confidence: number } | null {
+  for (const names of options) {
+    const joints = names.map(name => keypoints.find(kp => kp.name === name));
+    if (joints.every(joint => joint && joint.confidence >= MIN_KEYPOINT_CONFIDENCE)) {
+      return {
+        x: joints.reduce((sum, joint) => sum + joint.x, 0) / joints.length,
+        y: joints.reduce((sum, joint) => sum + joint.y, 0) / joints.length,
+        confidence: Math.min(...joints.map(joint => joint.confidence))
+      };
+    }
+  }
+  return null;
+}
+
+// Where a foot meets the board: mid-foot when heel and toe are known, otherwise the ankle
+export function footPoint(keypoints: PoseKeypoint[], prefix: 'left' | 'right'): { x: number; y: number; confidence: number } | null {
+  return resolvePoint(keypoints, [[`${prefix}_heel`, `${prefix}_foot_index`], [`${prefix}_ankle`]]);
+}
+
+// -------- ESTIMATION --------
+// Whole-body centre of mass from the segment model; segments with hidden joints are left out and the rest renormalised
+export function estimateCenterOfMass(keypoints: PoseKeypoint[]): CenterOfMassEstimate | null {
+  let mass = 0, x = 0, y = 0, confidence = 0;
+  for (const segment of SEGMENTS) {
+    const proximal = resolvePoint(keypoints, segment.proximal);
+    const distal = resolvePoint(keypoints, segment.distal);
+    if (!proximal || !distal) continue;
+
+    mass += segment.mass;
+    x += segment.mass * (proximal.x + (distal.x - proximal.x) * segment.ratio);
+    y += segment.mass * (proximal.y + (distal.y - proximal.y) * segment.ratio);
+    confidence += segment.mass * Math.min(proximal.confidence, distal.confidence);
+  }
+
+  if (mass < MIN_MASS_COVERAGE) {
+    return null;
+  }
+  return { x: x / mass, y: y / mass, confidence: confidence / mass };
+}
+
+// Share of weight (0-100%) over the back foot: the centre of mass projected onto the front -> back foot line
+export function backFootWeight(
+  centerOfMass: { x: number; y: number },
+  frontFoot: { x: number; y: number },
+  backFoot: { x: number; y: number }
+): number | null {
+  const dx = backFoot.x - frontFoot.x;
+  const dy = backFoot.y - frontFoot.y;
+  const lengthSq = dx * dx + dy * dy;
+  // Feet on top of each other (e.g. filmed from straight behind) give no front/back axis
+  if (lengthSq < 1e-9) {
+    return null;
+  }
+  const t = ((centerOfMass.x - frontFoot.x) * dx + (centerOfMass.y - frontFoot.y) * dy) / lengthSq;
+  return Math.max(0, Math.min(1, t)) * 100;
+}
@@ -0,0 +1,240 @@
+import { demuxVideoTrack, type Mp4VideoTrack } from './mp4Demux';
+
+// Sampling plans and WebCodecs decoding. Nothing here touches the DOM, so openDecodeStream runs in
+// frame.worker.ts as well as on the main thread; frameExtraction.ts holds the rest.
+
+// Frames are sampled at a fixed rate rather than a fixed count, so the turn timings and the keypoint
+// filter see as many frames per second on a long clip as on a short one
+const DEFAULT_EXTRACTION_FPS = 10;
+const MAX_DECODE_QUEUE = 8; // encoded chunks handed to the decoder ahead of the frames being consumed
+
+export interface FrameExtractionOptions {
+  fps?: number;       // target sampling rate
+  start?: number;     // s, start of the range to sample (default: the start of the video)
+  end?: number;       // s, end of the range (default: the end of the video)
+  maxFrames?: number; // when the range needs more frames than this, the rate is lowered to fit
+}
+
+// How a set of frames was sampled; stored with every analysis
+export interface FrameSampling {
+  fps: number;           // rate actually used, lower than requested when maxFrames applied
+  requestedFps: number;
+  start: number;         // s
+  end: number;           // s
+  videoDuration: number; // s
+  frameCount: number;
+  width: number;         // px of the video as displayed, after any rotation
+  height: number;
+  decoder: 'webcodecs' | 'seek';
+  sourceFps?: number;    // frame rate of the file, known when it was demuxed
+}
+
+export interface PlannedFrame {
+  // With WebCodecs, the frame's 1-based position in the source video; when seeking, in the sampling
+  frameNumber: number;
+  timestamp: number; // s, the frame's presentation time (seeking: where it is expected to land)
+}
+
+export interface StreamedFrame extends PlannedFrame {
+  image: ImageBitmap; // full resolution; whoever ends up with the frame closes it
+}
+
+// Frames are decoded one at a time as the consumer asks for them, so only the frames it holds on to
+// are in memory, however long the video
+export interface FrameStream {
+  sampling: FrameSampling;
+  planned: PlannedFrame[]; // the frames that will be streamed, before any is decoded
+  frames: AsyncGenerator<StreamedFrame>;
+}
+
+export interface VideoMetadata {
+  duration: number; // seconds
+  width: number;
+  height: number;
+}
+
+export const planSampling = (video: VideoMetadata, options: FrameExtractionOptions): Omit<FrameSampling, 'decoder'> => {
+  const duration = video.duration;
+  const requestedFps = options.fps ?? DEFAULT_EXTRACTION_FPS;
+  const start = Math.max(0, options.start ?? 0);
+  const end = Math.min(duration, options.end ?? duration);
+  if (!(requestedFps > 0)) {
+    throw new Error(`Invalid frame rate: ${requestedFps}`);
+  }
+  if (!(end > start)) {
+    throw new Error(`Empty time range: ${start.toFixed(2)}s to ${end.toFixed(2)}s of a ${duration.toFixed(2)}s video`);
+  }
+
+  const span = end - start;
+  let fps = requestedFps;
+  let frameCount = Math.max(1, Math.floor(span * fps));
+  if (options.maxFrames !== undefined && frameCount > options.maxFrames) {
+    fps = options.maxFrames / span;
+    frameCount = options.maxFrames;
+    console.warn(`Sampling ${span.toFixed(1)}s at ${fps.toFixed(2)} fps instead of ${requestedFps} to stay within ${options.maxFrames} frames`);
+  }
+  return { fps, requestedFps, start, end, videoDuration: duration, frameCount, width: video.width, height: video.height };
+};
+
+// -------- WEBCODECS --------
+// Index of the presented frame nearest to a time; presented is sorted by pts
+function nearestFrame(presented: Array<{ pts: number }>, time: number): number {
+  let lo = 0;
+  let hi = presented.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (presented[mid].pts < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && time - presented[lo - 1].pts < presented[lo].pts - time ? lo - 1 : lo;
+}
+
+// Draws a decoded frame the way the track says to display it
+async function uprightBitmap(frame: VideoFrame, rotation: Mp4VideoTrack['rotation']): Promise<ImageBitmap> {
+  if (rotation === 0) return createImageBitmap(frame);
+  const { displayWidth: width, displayHeight: height } = frame;
+  const sideways = rotation % 180 !== 0;
+  const canvas = new OffscreenCanvas(sideways ? height : width, sideways ? width : height);
+  const ctx = canvas.getContext('2d');
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(rotation * (Math.PI / 180));
+  ctx.drawImage(frame, -width / 2, -height / 2, width, height);
+  return canvas.transferToImageBitmap();
+}
+
+// Decodes every sample from the keyframe before the first wanted frame, in file order, and keeps the
+// wanted ones as they come out in presentation order. Stretches without a wanted frame are skipped
+// from keyframe to keyframe.
+async function* decodeFrames(
+  videoFile: File,
+  track: Mp4VideoTrack,
+  config: VideoDecoderConfig,
+  wanted: Map<number, PlannedFrame> // by sample index (decode order)
+): AsyncGenerator<StreamedFrame> {
+  const byTimestamp = new Map<number, PlannedFrame>();
+  wanted.forEach((frame, index) => byTimestamp.set(Math.round(track.samples[index].pts * 1e6), frame));
+  const wantedIndices = [...wanted.keys()].sort((a, b) => a - b);
+
+  const decoded: VideoFrame[] = [];
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  const decoder = new VideoDecoder({
+    output: frame => {
+      if (byTimestamp.has(frame.timestamp)) decoded.push(frame);
+      else frame.close();
+      notify();
+    },
+    error: error => {
+      failure = new Error(`Video decoding failed: ${error.message}`);
+      notify();
+    }
+  });
+  decoder.addEventListener('dequeue', notify);
+  decoder.configure(config);
+
+  const take = async (): Promise<StreamedFrame> => {
+    const frame = decoded.shift();
+    const planned = byTimestamp.get(frame.timestamp);
+    try {
+      return { ...planned, image: await uprightBitmap(frame, track.rotation) };
+    } finally {
+      frame.close();
+    }
+  };
+
+  try {
+    let next = 0; // position in wantedIndices of the next frame still to feed
+    for (let index = 0; index < track.samples.length; index++) {
+      // Nothing wanted before the next keyframe: jump straight to it
+      while (next < wantedIndices.length && wantedIndices[next] < index) next++;
+      if (next >= wantedIndices.length) break;
+      let keyframe = wantedIndices[next];
+      while (keyframe > index && !track.samples[keyframe].keyframe) keyframe--;
+      if (keyframe > index) index = keyframe;
+
+      while (decoded.length > 0 || decoder.decodeQueueSize >= MAX_DECODE_QUEUE) {
+        if (failure) throw failure;
+        if (decoded.length > 0) yield await take();
+        else await new Promise<void>(resolve => { wake = resolve; });
+      }
+      if (failure) throw failure;
+
+      const sample = track.samples[index];
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.keyframe ? 'key' : 'delta',
+        timestamp: Math.round(sample.pts * 1e6),
+        duration: Math.round(sample.duration * 1e6),
+        data: await videoFile.slice(sample.offset, sample.offset + sample.size).arrayBuffer()
+      }));
+    }
+
+    let done = false;
+    decoder.flush()
+      .catch(() => undefined) // reported through the error callback
+      .then(() => {
+        done = true;
+        notify();
+      });
+    while (!done || decoded.length > 0) {
+      if (failure) throw failure;
+      if (decoded.length > 0) yield await take();
+      else await new Promise<void>(resolve => { wake = resolve; });
+    }
+    if (failure) throw failure;
+  } finally {
+    // Also reached when the consumer stops early
+    decoded.forEach(frame => frame.close());
+    if (decoder.state !== 'closed') decoder.close();
+  }
+}
+
+export const openDecodeStream = async (videoFile: File, options: FrameExtractionOptions): Promise<FrameStream> => {
+  if (typeof VideoDecoder === 'undefined') {
+    throw new Error('WebCodecs is not available in this browser');
+  }
+  const track = await demuxVideoTrack(videoFile);
+  const config: VideoDecoderConfig = {
+    codec: track.codec,
+    description: track.description,
+    codedWidth: track.codedWidth,
+    codedHeight: track.codedHeight
+  };
+  const { supported } = await VideoDecoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`This browser can't decode ${track.codec}`);
+  }
+
+  // Frames in presentation order; their position is the source frame number. Frames the edit list
+  // cuts from the start are decoded but never shown.
+  const presented = track.samples
+    .map((sample, index) => ({ index, pts: sample.pts }))
+    .filter(frame => frame.pts >= 0)
+    .sort((a, b) => a.pts - b.pts);
+  const sourceFps = presented.length / track.duration;
+  // Sampling reports the size frames are displayed at, which a rotation turns sideways
+  const sideways = track.rotation % 180 !== 0;
+  const plan = planSampling({
+    duration: track.duration,
+    width: sideways ? track.codedHeight : track.codedWidth,
+    height: sideways ? track.codedWidth : track.codedHeight
+  }, options);
+
+  // Each sampled time takes the source frame nearest to it; a rate above the file's repeats none
+  const wanted = new Map<number, PlannedFrame>();
+  const planned: PlannedFrame[] = [];
+  for (let k = 0; k < plan.frameCount; k++) {
+    const position = nearestFrame(presented, plan.start + k / plan.fps);
+    const { index, pts } = presented[position];
+    if (wanted.has(index)) continue;
+    const frame = { frameNumber: position + 1, timestamp: pts };
+    wanted.set(index, frame);
+    planned.push(frame);
+  }
+
+  const sampling: FrameSampling = { ...plan, frameCount: planned.length, decoder: 'webcodecs', sourceFps };
+  return { sampling, planned, frames: decodeFrames(videoFile, track, config, wanted) };
+};
@@ -1,3 +1,17 @@
+import {
+  openDecodeStream,
+  planSampling,
+  type FrameExtractionOptions,
+  type FrameSampling,
+  type FrameStream,
+  type StreamedFrame,
+  type PlannedFrame,
+  type VideoMetadata
+} from './frameDecoding';
+import type { FrameWorkerRequest, FrameWorkerResponse } from './frameWorkerProtocol';
+
+export type { FrameExtractionOptions, FrameSampling, FrameStream, StreamedFrame, PlannedFrame, VideoMetadata };
+
 export interface ExtractedFrame {
   frameNumber: number;
   timestamp: number;
@@ -5,82 +19,201 @@ export interface ExtractedFrame {
   canvas: HTMLCanvasElement;
 }
 
-export const extractFramesFromVideo = async (
-  videoFile: File,
-  numFrames: number = 5
-): Promise<ExtractedFrame[]> => {
+const DEFAULT_MAX_FRAMES = 150; // extractFrames keeps every frame's full-resolution canvas, so it samples long clips more sparsely
+const THUMBNAIL_WIDTH = 640;
+
+export interface FrameExtraction {
+  frames: ExtractedFrame[]; // timestamps are where the video actually seeked to
+  sampling: FrameSampling;
+}
+
+const loadVideo = (videoFile: File): Promise<{ video: HTMLVideoElement; release: () => void }> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const frames: ExtractedFrame[] = [];
-    
-    if (!ctx) {
-      reject(new Error('Could not get canvas context'));
-      return;
-    }
-
-    video.onloadedmetadata = () => {
-      const duration = video.duration;
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      let frameIndex = 0;
-      const interval = duration / numFrames;
-      
-      const extractFrame = () => {
-        if (frameIndex >= numFrames) {
-          resolve(frames);
-          return;
-        }
-        
-        const timestamp = frameIndex * interval;
-        video.currentTime = timestamp;
-        
-        video.onseeked = () => {
-          // Draw video frame to canvas
-          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-          
-          // Convert to base64
-          const imageData = canvas.toDataURL('image/jpeg', 0.8);
-          
-          frames.push({
-            frameNumber: frameIndex + 1,
-            timestamp,
-            imageData,
-            canvas: canvas.cloneNode(true) as HTMLCanvasElement
-          });
-          
-          frameIndex++;
-          extractFrame();
-        };
-      };
-      
-      extractFrame();
+    const url = URL.createObjectURL(videoFile);
+    const release = () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
     };
-    
+
+    video.onloadedmetadata = () => resolve({ video, release });
     video.onerror = () => {
+      URL.revokeObjectURL(url);
       reject(new Error('Error loading video'));
     };
-    
-    video.src = URL.createObjectURL(videoFile);
+
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
     video.load();
   });
 };
 
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error(`Error seeking to ${time.toFixed(2)}s`));
+    video.currentTime = time;
+  });
+};
+
+// -------- SEEKING --------
+// Browsers snap a seek to whichever frame they have decoded nearby, differently from one to the next
+async function* seekFrames(video: HTMLVideoElement, release: () => void, planned: PlannedFrame[]): AsyncGenerator<StreamedFrame> {
+  try {
+    for (const { frameNumber, timestamp } of planned) {
+      await seekTo(video, timestamp);
+      yield {
+        frameNumber,
+        // Report where the video actually is
+        timestamp: video.currentTime,
+        image: await createImageBitmap(video)
+      };
+    }
+  } finally {
+    // Also reached when the consumer stops early
+    release();
+  }
+}
+
+const openSeekStream = async (videoFile: File, options: FrameExtractionOptions): Promise<FrameStream> => {
+  const { video, release } = await loadVideo(videoFile);
+  try {
+    const sampling: FrameSampling = {
+      ...planSampling({ duration: video.duration, width: video.videoWidth, height: video.videoHeight }, options),
+      decoder: 'seek'
+    };
+    const planned = Array.from({ length: sampling.frameCount }, (_, index) => ({
+      frameNumber: index + 1,
+      timestamp: sampling.start + index / sampling.fps
+    }));
+    return { sampling, planned, frames: seekFrames(video, release, planned) };
+  } catch (error) {
+    release();
+    throw error;
+  }
+};
+
+// Runs openDecodeStream in a dedicated worker, so demuxing, decoding and bitmap creation don't hold up
+// the UI; each frame is asked for as the consumer reads it and its bitmap is transferred back
+const openWorkerDecodeStream = async (videoFile: File, options: FrameExtractionOptions): Promise<FrameStream> => {
+  const worker = new Worker(new URL('../workers/frame.worker.ts', import.meta.url), { type: 'module' });
+  // One request is outstanding at a time, so each reply answers the last request
+  const request = (message: FrameWorkerRequest) => new Promise<FrameWorkerResponse>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<FrameWorkerResponse>) => resolve(event.data);
+    worker.onerror = (event) => reject(new Error(`Frame worker crashed: ${event.message}`));
+    worker.postMessage(message);
+  });
+
+  let opened: FrameWorkerResponse;
+  try {
+    opened = await request({ type: 'open', file: videoFile, options });
+  } catch (error) {
+    worker.terminate();
+    throw error;
+  }
+  if (opened.type !== 'opened') {
+    worker.terminate();
+    throw new Error(opened.type === 'error' ? opened.message : `Frame worker answered open with ${opened.type}`);
+  }
+
+  async function* frames(): AsyncGenerator<StreamedFrame> {
+    try {
+      while (true) {
+        const reply = await request({ type: 'next' });
+        if (reply.type === 'done') return;
+        if (reply.type === 'error') throw new Error(reply.message);
+        if (reply.type === 'frame') {
+          yield { frameNumber: reply.frameNumber, timestamp: reply.timestamp, image: reply.image };
+        }
+      }
+    } finally {
+      // Also reached when the consumer stops early; the worker's decoder goes with it
+      worker.terminate();
+    }
+  }
+
+  return { sampling: opened.sampling, planned: opened.planned, frames: frames() };
+};
+
+// Decodes with WebCodecs where the browser and the file allow it, in a worker when there are workers,
+// and seeks a video element (on the main thread, which it needs) otherwise
+export const openFrameStream = async (
+  videoFile: File,
+  options: FrameExtractionOptions = {}
+): Promise<FrameStream> => {
+  try {
+    return typeof Worker !== 'undefined'
+      ? await openWorkerDecodeStream(videoFile, options)
+      : await openDecodeStream(videoFile, options);
+  } catch (error) {
+    console.warn(`Falling back to seeking the video: ${error instanceof Error ? error.message : error}`);
+    return openSeekStream(videoFile, options);
+  }
+};
+
+// Every sampled frame at once, as a canvas and a JPEG; for the short clips the viewers work on
+export const extractFrames = async (
+  videoFile: File,
+  options: FrameExtractionOptions = {}
+): Promise<FrameExtraction> => {
+  const { sampling, frames: stream } = await openFrameStream(videoFile, { maxFrames: DEFAULT_MAX_FRAMES, ...options });
+  const frames: ExtractedFrame[] = [];
+
+  for await (const { frameNumber, timestamp, image } of stream) {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      image.close();
+      throw new Error('Could not get canvas context');
+    }
+    ctx.drawImage(image, 0, 0);
+    image.close();
+
+    frames.push({
+      frameNumber,
+      timestamp,
+      imageData: canvas.toDataURL('image/jpeg', 0.8),
+      canvas
+    });
+  }
+
+  return { frames, sampling: { ...sampling, frameCount: frames.length } };
+};
+
+// Reduced JPEG of a frame, for the frames that are kept for display
+export const encodeThumbnail = (image: CanvasImageSource & { width: number; height: number }, maxWidth: number = THUMBNAIL_WIDTH): string => {
+  const scale = Math.min(1, maxWidth / image.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+export const readVideoMetadata = async (videoFile: File): Promise<VideoMetadata> => {
+  const { video, release } = await loadVideo(videoFile);
+  const metadata = { duration: video.duration, width: video.videoWidth, height: video.videoHeight };
+  release();
+  return metadata;
+};
+
 export const resizeFrame = (canvas: HTMLCanvasElement, maxWidth: number = 640): HTMLCanvasElement => {
   const resizedCanvas = document.createElement('canvas');
   const ctx = resizedCanvas.getContext('2d');
-  
+
   if (!ctx) {
     return canvas;
   }
-  
+
   const scale = Math.min(maxWidth / canvas.width, maxWidth / canvas.height);
   resizedCanvas.width = canvas.width * scale;
   resizedCanvas.height = canvas.height * scale;
-  
+
   ctx.drawImage(canvas, 0, 0, resizedCanvas.width, resizedCanvas.height);
-  
+
   return resizedCanvas;
-};
\ No newline at end of file
+};
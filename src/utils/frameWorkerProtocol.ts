@@ -0,0 +1,40 @@
+import type { FrameExtractionOptions, FrameSampling, PlannedFrame } from './frameDecoding';
+
+// Messages between openFrameStream (main thread) and frame.worker.ts. The main thread asks for one
+// frame at a time, so the worker decodes no further ahead than the analysis is reading.
+
+// -------- MAIN -> WORKER --------
+export interface FrameWorkerOpen {
+  type: 'open';
+  file: File;
+  options: FrameExtractionOptions;
+}
+
+export interface FrameWorkerNext {
+  type: 'next';
+}
+
+export type FrameWorkerRequest = FrameWorkerOpen | FrameWorkerNext;
+
+// -------- WORKER -> MAIN --------
+export interface FrameWorkerOpened {
+  type: 'opened';
+  sampling: FrameSampling;
+  planned: PlannedFrame[];
+}
+
+export interface FrameWorkerFrame extends PlannedFrame {
+  type: 'frame';
+  image: ImageBitmap; // transferred; the main thread's to close
+}
+
+export interface FrameWorkerDone {
+  type: 'done';
+}
+
+export interface FrameWorkerError {
+  type: 'error';
+  message: string;
+}
+
+export type FrameWorkerResponse = FrameWorkerOpened | FrameWorkerFrame | FrameWorkerDone | FrameWorkerError;
@@ -0,0 +1,250 @@
+import {
+  PoseKeypoint,
+  PoseResult,
+  WorldKeypoint,
+  FramePoseAnalysis,
+  MIN_KEYPOINT_CONFIDENCE,
+  getSubjectPose,
+  boundingBoxFromKeypoints
+} from './poseDetection';
+
+// -------- CONFIG --------
+// One-Euro filter (Casiez et al. 2012): a low-pass whose cutoff rises with speed, so still poses
+// lose their jitter while fast moves keep up. Cutoffs are in Hz and speeds in % of frame per second,
+// so the same settings behave the same at any sampling rate.
+export interface KeypointFilterConfig {
+  minCutoff: number;      // Hz, cutoff when the joint is still (lower = smoother)
+  beta: number;           // cutoff gain per unit of speed (higher = less lag on fast moves)
+  derivativeCutoff: number; // Hz, smoothing of the speed estimate itself
+  maxGapSeconds: number;  // longest dropout that is interpolated instead of left empty
+}
+
+export const DEFAULT_KEYPOINT_FILTER: KeypointFilterConfig = {
+  minCutoff: 1.5,
+  beta: 0.05,
+  derivativeCutoff: 1.0,
+  maxGapSeconds: 0.25
+};
+
+const FALLBACK_FRAME_RATE = 30; // when the timestamps can't tell us
+// World landmarks are in metres, not % of frame. A rider filling a fifth of a beach shot makes a
+// metre about 12% of the frame, so beta is scaled by that to treat their speeds alike.
+const WORLD_SPEED_SCALE = 12;
+
+// -------- INTERFACES --------
+// What was actually applied to an analysis, stored with it so results can be reproduced
+export interface KeypointFilterSettings extends KeypointFilterConfig {
+  frameRate: number;    // frames per second, from the frame timestamps
+  maxGapFrames: number; // maxGapSeconds at that rate, at least one frame
+}
+
+export interface CleanedTrajectories {
+  settings: KeypointFilterSettings;
+  subjects: Array<PoseKeypoint[] | null>; // cleaned subject keypoints per frame; null when still missing
+  worlds: Array<WorldKeypoint[] | null>;  // the same for world landmarks; null when the backend has none
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  z?: number; // world landmarks only
+  confidence: number;
+}
+
+interface CleanedLandmarks {
+  names: string[];
+  samples: Map<string, Array<Sample | null>>;
+}
+
+// -------- FILTER --------
+function smoothingFactor(dt: number, cutoff: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime: number | null = null;
+
+  constructor(private config: KeypointFilterConfig) {}
+
+  filter(value: number, time: number): number {
+    if (this.value === null || this.lastTime === null || time <= this.lastTime) {
+      this.value = value;
+      this.derivative = 0;
+      this.lastTime = time;
+      return value;
+    }
+
+    const dt = time - this.lastTime;
+    this.lastTime = time;
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(dt, this.config.derivativeCutoff) * (rawDerivative - this.derivative);
+    const cutoff = this.config.minCutoff + this.config.beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(dt, cutoff) * (value - this.value);
+    return this.value;
+  }
+}
+
+// -------- SETTINGS --------
+// Median spacing, so a single dropped or duplicated frame doesn't skew the rate
+export function estimateFrameRate(timestamps: number[]): number {
+  const steps = timestamps
+    .slice(1)
+    .map((t, i) => t - timestamps[i])
+    .filter(step => step > 0)
+    .sort((a, b) => a - b);
+  if (steps.length === 0) return FALLBACK_FRAME_RATE;
+  return 1 / steps[Math.floor(steps.length / 2)];
+}
+
+export function keypointFilterSettings(
+  timestamps: number[],
+  config: KeypointFilterConfig = DEFAULT_KEYPOINT_FILTER
+): KeypointFilterSettings {
+  const frameRate = estimateFrameRate(timestamps);
+  return {
+    ...config,
+    frameRate,
+    maxGapFrames: Math.max(1, Math.round(config.maxGapSeconds * frameRate))
+  };
+}
+
+// -------- CLEANING --------
+// Short runs of missing samples bounded by good ones are filled linearly in time; the filled
+// samples take the weaker neighbour's confidence
+function fillGaps(samples: Array<Sample | null>, timestamps: number[], maxGapFrames: number): Array<Sample | null> {
+  const filled = [...samples];
+  let previous = -1;
+  for (let i = 0; i < samples.length; i++) {
+    if (!samples[i]) continue;
+    const gap = i - previous - 1;
+    if (previous >= 0 && gap > 0 && gap <= maxGapFrames) {
+      const from = samples[previous];
+      const to = samples[i];
+      const span = timestamps[i] - timestamps[previous];
+      for (let j = previous + 1; j < i; j++) {
+        const t = span > 0 ? (timestamps[j] - timestamps[previous]) / span : (j - previous) / (i - previous);
+        filled[j] = {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          ...(from.z !== undefined && to.z !== undefined ? { z: from.z + (to.z - from.z) * t } : {}),
+          confidence: Math.min(from.confidence, to.confidence)
+        };
+      }
+    }
+    previous = i;
+  }
+  return filled;
+}
+
+// Gap-fills and One-Euro filters each named landmark along the clip
+function cleanLandmarks(
+  subjects: Array<PoseResult | null>,
+  landmarksOf: (pose: PoseResult) => Array<PoseKeypoint | WorldKeypoint> | undefined,
+  timestamps: number[],
+  config: KeypointFilterConfig,
+  maxGapFrames: number
+): CleanedLandmarks {
+  const names = [...new Set(subjects.flatMap(pose => (pose && landmarksOf(pose))?.map(kp => kp.name) ?? []))];
+  const samples = new Map<string, Array<Sample | null>>();
+  for (const name of names) {
+    const raw = subjects.map(pose => {
+      const kp = pose && landmarksOf(pose)?.find(k => k.name === name);
+      if (!kp || kp.confidence < MIN_KEYPOINT_CONFIDENCE) return null;
+      return 'z' in kp ? { x: kp.x, y: kp.y, z: kp.z, confidence: kp.confidence } : { x: kp.x, y: kp.y, confidence: kp.confidence };
+    });
+
+    // A gap too long to fill restarts the filter rather than dragging the old position along
+    let fx = new OneEuroFilter(config);
+    let fy = new OneEuroFilter(config);
+    let fz = new OneEuroFilter(config);
+    samples.set(name, fillGaps(raw, timestamps, maxGapFrames).map((sample, i) => {
+      if (!sample) {
+        fx = new OneEuroFilter(config);
+        fy = new OneEuroFilter(config);
+        fz = new OneEuroFilter(config);
+        return null;
+      }
+      return {
+        x: fx.filter(sample.x, timestamps[i]),
+        y: fy.filter(sample.y, timestamps[i]),
+        ...(sample.z !== undefined ? { z: fz.filter(sample.z, timestamps[i]) } : {}),
+        confidence: sample.confidence
+      };
+    }));
+  }
+  return { names, samples };
+}
+
+// The cleaned landmarks of frame i, for a frame that had no pose of its own
+function landmarksAt({ names, samples }: CleanedLandmarks, i: number): Array<{ name: string } & Sample> {
+  return names
+    .map(name => ({ name, sample: samples.get(name)?.[i] }))
+    .filter(({ sample }) => sample)
+    .map(({ name, sample }) => ({ name, ...sample }));
+}
+
+// Cleans the tracked surfer's keypoints and world landmarks in place, once, right after detection:
+// every landmark is gap-filled and One-Euro filtered along the clip. Frames where the surfer dropped
+// out briefly get an interpolated pose, so visualisation, metrics and turn analysis all see the same
+// trajectories, and a 3D clip stays 3D through the gaps.
+export function cleanSubjectTrajectories(
+  frames: FramePoseAnalysis[],
+  config: KeypointFilterConfig = DEFAULT_KEYPOINT_FILTER
+): CleanedTrajectories {
+  const timestamps = frames.map(frame => frame.timestamp);
+  const settings = keypointFilterSettings(timestamps, config);
+  const subjects = frames.map(frame => {
+    const pose = frame.subjectTrackId !== undefined ? getSubjectPose(frame) : null;
+    return pose && pose.keypoints.length > 0 ? pose : null;
+  });
+
+  const cleaned = cleanLandmarks(subjects, pose => pose.keypoints, timestamps, settings, settings.maxGapFrames);
+  const cleanedWorld = cleanLandmarks(
+    subjects,
+    pose => pose.worldKeypoints,
+    timestamps,
+    { ...settings, beta: settings.beta * WORLD_SPEED_SCALE },
+    settings.maxGapFrames
+  );
+
+  const worlds: Array<WorldKeypoint[] | null> = [];
+  const result = frames.map((frame, i) => {
+    const pose = subjects[i];
+    if (pose) {
+      pose.keypoints = pose.keypoints.map(kp => {
+        const sample = cleaned.samples.get(kp.name)?.[i];
+        return sample ? { ...kp, ...sample } : kp;
+      });
+      pose.worldKeypoints = pose.worldKeypoints?.map(kp => {
+        const sample = cleanedWorld.samples.get(kp.name)?.[i];
+        return sample ? { ...kp, ...sample } : kp;
+      });
+      worlds.push(pose.worldKeypoints?.length ? pose.worldKeypoints : null);
+      return pose.keypoints;
+    }
+
+    const keypoints = landmarksAt(cleaned, i);
+    const worldKeypoints = landmarksAt(cleanedWorld, i).filter((kp): kp is WorldKeypoint => kp.z !== undefined);
+    worlds.push(keypoints.length > 0 && worldKeypoints.length > 0 ? worldKeypoints : null);
+    if (keypoints.length === 0) return null;
+
+    // Borrow the track id of the nearest earlier (or later) frame that had the surfer
+    const neighbour = subjects.slice(0, i).reverse().find(Boolean) ?? subjects.slice(i + 1).find(Boolean);
+    frame.poses = [...frame.poses, {
+      keypoints,
+      ...(worldKeypoints.length > 0 ? { worldKeypoints } : {}),
+      confidence: keypoints.reduce((sum, kp) => sum + kp.confidence, 0) / keypoints.length,
+      boundingBox: boundingBoxFromKeypoints(keypoints),
+      trackId: neighbour?.trackId,
+      interpolated: true
+    }];
+    frame.subjectTrackId = neighbour?.trackId;
+    delete frame.poseDetectionError;
+    return keypoints;
+  });
+
+  return { settings, subjects: result, worlds };
+}
@@ -0,0 +1,296 @@
+import {
+  boundingBoxFromKeypoints,
+  COCO_KEYPOINT_NAMES,
+  MEDIAPIPE_LANDMARK_NAMES,
+  NOT_MEASURABLE_METRICS,
+  type FramePoseAnalysis,
+  type PoseKeypoint,
+  type PoseResult,
+  type WorldKeypoint
+} from './poseDetection';
+import { readVideoMetadata } from './frameExtraction';
+
+// -------- CONFIG --------
+const FRAME_COUNT_TOLERANCE = 0.02;  // share of frames a file may be off by, from rounding the video's duration
+const OUT_OF_FRAME_TOLERANCE = 0.05; // how far past the frame edges pixel keypoints may fall
+
+// OpenPose joints in output order; null where we have no equivalent (neck, mid hip, small toes)
+const OPENPOSE_BODY_25_NAMES: Array<string | null> = [
+  'nose', null, 'right_shoulder', 'right_elbow', 'right_wrist',
+  'left_shoulder', 'left_elbow', 'left_wrist', null,
+  'right_hip', 'right_knee', 'right_ankle', 'left_hip', 'left_knee', 'left_ankle',
+  'right_eye', 'left_eye', 'right_ear', 'left_ear',
+  'left_foot_index', null, 'left_heel', 'right_foot_index', null, 'right_heel'
+];
+const OPENPOSE_COCO_18_NAMES: Array<string | null> = [
+  'nose', null, 'right_shoulder', 'right_elbow', 'right_wrist',
+  'left_shoulder', 'left_elbow', 'left_wrist',
+  'right_hip', 'right_knee', 'right_ankle', 'left_hip', 'left_knee', 'left_ankle',
+  'right_eye', 'left_eye', 'right_ear', 'left_ear'
+];
+
+// -------- INTERFACES --------
+export type KeypointFormat = 'coco' | 'openpose' | 'mediapipe';
+
+export interface KeypointFile {
+  name: string;
+  text: string;
+}
+
+export interface FrameSize {
+  width: number;  // px of the video the keypoints were computed on
+  height: number;
+}
+
+// Every frame of the source video, in order, with each person found in it
+export interface ImportedKeypoints {
+  format: KeypointFormat;
+  frames: PoseResult[][];
+}
+
+// Shapes of the files as written by each tool; only the fields we read
+interface CocoAnnotation {
+  image_id: number;
+  keypoints: number[]; // x, y, visibility (0-2) or score per joint, pixels
+}
+
+interface CocoImage {
+  id: number;
+  width?: number;
+  height?: number;
+}
+
+interface CocoDocument {
+  images?: CocoImage[];
+  annotations: CocoAnnotation[];
+}
+
+interface OpenPoseFrame {
+  people: Array<{ pose_keypoints_2d: number[] }>; // x, y, confidence per joint, pixels
+}
+
+interface MediaPipeLandmark {
+  x: number; // 0-1 of the frame (world landmarks: metres)
+  y: number;
+  z?: number;
+  visibility?: number;
+}
+
+// Legacy solution output (poseLandmarks) or the Tasks API (landmarks, one list per person)
+interface MediaPipeFrame {
+  poseLandmarks?: MediaPipeLandmark[];
+  poseWorldLandmarks?: MediaPipeLandmark[];
+  landmarks?: MediaPipeLandmark[] | MediaPipeLandmark[][];
+  worldLandmarks?: MediaPipeLandmark[] | MediaPipeLandmark[][];
+}
+
+// -------- UTILS --------
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Multi-frame files are either a bare array of frames or { frames: [...] }
+function frameList(doc: unknown): unknown[] {
+  if (Array.isArray(doc)) return doc;
+  if (isRecord(doc) && Array.isArray(doc.frames)) return doc.frames;
+  return [doc];
+}
+
+function detectFormat(doc: unknown): KeypointFormat | null {
+  if (isRecord(doc) && Array.isArray(doc.annotations)) return 'coco';
+  const first = frameList(doc)[0];
+  if (!isRecord(first)) return null;
+  if ('image_id' in first && 'keypoints' in first) return 'coco';
+  if ('people' in first) return 'openpose';
+  if ('poseLandmarks' in first || 'landmarks' in first) return 'mediapipe';
+  return null;
+}
+
+// OpenPose names its per-frame files <video>_000000000042_keypoints.json
+function frameNumberFromName(name: string): number | null {
+  const match = name.match(/(\d+)(?:_keypoints)?\.json$/i);
+  return match ? Number(match[1]) : null;
+}
+
+// A single person's list holds landmarks, several people's holds lists
+function perPerson<T>(lists: T[] | T[][] | undefined): T[][] {
+  if (!lists || lists.length === 0) return [];
+  return Array.isArray(lists[0]) ? lists as T[][] : [lists as T[]];
+}
+
+function toPose(keypoints: PoseKeypoint[], worldKeypoints?: WorldKeypoint[]): PoseResult {
+  const visible = keypoints.filter(kp => kp.confidence > 0);
+  return {
+    keypoints,
+    worldKeypoints,
+    confidence: visible.length > 0 ? visible.reduce((sum, kp) => sum + kp.confidence, 0) / visible.length : 0,
+    boundingBox: boundingBoxFromKeypoints(keypoints)
+  };
+}
+
+// Pixel (x, y, confidence) triplets to percentage keypoints; joints we have no name for are dropped
+function fromTriplets(values: number[], names: Array<string | null>, size: FrameSize, where: string): PoseKeypoint[] {
+  if (!Array.isArray(values) || values.length !== names.length * 3) {
+    throw new Error(`${where}: expected ${names.length} joints, found ${Array.isArray(values) ? values.length / 3 : 0}`);
+  }
+  const keypoints: PoseKeypoint[] = [];
+  names.forEach((name, index) => {
+    if (!name) return;
+    const [x, y, confidence] = values.slice(index * 3, index * 3 + 3);
+    const kp = { x: (x / size.width) * 100, y: (y / size.height) * 100, confidence: Math.min(1, confidence), name };
+    const outside = -OUT_OF_FRAME_TOLERANCE * 100;
+    if (kp.confidence > 0 && (kp.x < outside || kp.y < outside || kp.x > 100 - outside || kp.y > 100 - outside)) {
+      throw new Error(
+        `${where}: ${name} falls outside the ${size.width}×${size.height} video; were the keypoints computed at a different resolution?`
+      );
+    }
+    keypoints.push(kp);
+  });
+  return keypoints;
+}
+
+// -------- FORMATS --------
+function parseCoco(doc: unknown, size: FrameSize, fileName: string): PoseResult[][] {
+  const coco: CocoDocument = isRecord(doc) ? (doc as unknown as CocoDocument) : { annotations: doc as CocoAnnotation[] };
+  // The image list fixes the frame order and includes frames nobody was found in; without one the
+  // image ids are taken as consecutive frame numbers
+  const images = coco.images?.length
+    ? [...coco.images].sort((a, b) => a.id - b.id)
+    : null;
+  if (!images && coco.annotations.length === 0) {
+    throw new Error(`${fileName} has no annotations`);
+  }
+  const ids = coco.annotations.map(annotation => annotation.image_id);
+  const firstId = images ? images[0].id : Math.min(...ids);
+  const frameCount = images ? images.length : Math.max(...ids) - firstId + 1;
+  const frameOf = new Map<number, number>(images?.map((image, index) => [image.id, index]));
+
+  const frames: PoseResult[][] = Array.from({ length: frameCount }, () => []);
+  coco.annotations.forEach(annotation => {
+    const index = images ? frameOf.get(annotation.image_id) : annotation.image_id - firstId;
+    if (index === undefined) {
+      throw new Error(`${fileName}: annotation for image ${annotation.image_id}, which is not in the image list`);
+    }
+    const image = images?.[index];
+    const imageSize = image?.width && image?.height ? { width: image.width, height: image.height } : size;
+    const keypoints = fromTriplets(annotation.keypoints, COCO_KEYPOINT_NAMES, imageSize, `${fileName}, frame ${index + 1}`);
+    frames[index].push(toPose(keypoints));
+  });
+  return frames;
+}
+
+function parseOpenPose(doc: unknown, size: FrameSize, fileName: string): PoseResult[][] {
+  return frameList(doc).map((frame, index) => {
+    const where = `${fileName}, frame ${index + 1}`;
+    const people = (frame as OpenPoseFrame).people ?? [];
+    return people.map(person => {
+      const values = person.pose_keypoints_2d ?? [];
+      // BODY_25 is the default model; COCO (18 joints) is still used for older footage
+      const names = values.length === OPENPOSE_COCO_18_NAMES.length * 3 ? OPENPOSE_COCO_18_NAMES : OPENPOSE_BODY_25_NAMES;
+      return toPose(fromTriplets(values, names, size, where));
+    });
+  });
+}
+
+function parseMediaPipe(doc: unknown, fileName: string): PoseResult[][] {
+  const fromLandmarks = (landmarks: MediaPipeLandmark[], where: string, scale: number) => {
+    if (landmarks.length !== MEDIAPIPE_LANDMARK_NAMES.length) {
+      throw new Error(`${where}: expected ${MEDIAPIPE_LANDMARK_NAMES.length} landmarks, found ${landmarks.length}`);
+    }
+    return landmarks.map((landmark, index) => ({
+      x: landmark.x * scale,
+      y: landmark.y * scale,
+      z: landmark.z ?? 0,
+      confidence: landmark.visibility ?? 0, // a landmark without visibility is not trusted
+      name: MEDIAPIPE_LANDMARK_NAMES[index]
+    }));
+  };
+  return frameList(doc).map((frame, index) => {
+    const where = `${fileName}, frame ${index + 1}`;
+    const { poseLandmarks, poseWorldLandmarks, landmarks, worldLandmarks } = frame as MediaPipeFrame;
+    const people = perPerson(landmarks ?? poseLandmarks);
+    const worlds = perPerson(worldLandmarks ?? poseWorldLandmarks);
+    return people.map((person, i) => toPose(
+      fromLandmarks(person, where, 100),
+      worlds[i] ? fromLandmarks(worlds[i], `${where} (world)`, 1) : undefined
+    ));
+  });
+}
+
+// -------- IMPORT --------
+// Reads keypoints exported by COCO-format tools, OpenPose or MediaPipe. Several files are taken as one
+// frame each (OpenPose's --write_json output), ordered by the frame number in their names.
+export function parseKeypointFiles(files: KeypointFile[], videoSize: FrameSize): ImportedKeypoints {
+  if (files.length === 0) {
+    throw new Error('No keypoint file selected');
+  }
+
+  const sorted = files.length > 1
+    ? [...files].sort((a, b) => (frameNumberFromName(a.name) ?? 0) - (frameNumberFromName(b.name) ?? 0))
+    : files;
+  let format: KeypointFormat | null = null;
+  const frames: PoseResult[][] = [];
+
+  for (const file of sorted) {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(file.text);
+    } catch {
+      throw new Error(`${file.name} is not valid JSON`);
+    }
+    const fileFormat = detectFormat(doc);
+    if (!fileFormat) {
+      throw new Error(`${file.name} is not COCO, OpenPose or MediaPipe keypoint JSON`);
+    }
+    if (format && fileFormat !== format) {
+      throw new Error(`${file.name} is ${fileFormat} but the other files are ${format}`);
+    }
+    format = fileFormat;
+
+    const parsed = fileFormat === 'coco' ? parseCoco(doc, videoSize, file.name)
+      : fileFormat === 'openpose' ? parseOpenPose(doc, videoSize, file.name)
+      : parseMediaPipe(doc, file.name);
+    frames.push(...parsed);
+  }
+
+  return { format, frames };
+}
+
+// Picks the imported frame at each extracted frame's timestamp, as recorded frames for the replay
+// backend. The file must cover the whole video at the given frame rate.
+export function alignToFrames(
+  imported: ImportedKeypoints,
+  frames: Array<{ frameNumber: number; timestamp: number }>,
+  video: { duration: number; fps: number }
+): FramePoseAnalysis[] {
+  if (!(video.fps > 0)) {
+    throw new Error('Enter the frame rate the keypoints were computed at');
+  }
+  const expected = Math.round(video.duration * video.fps);
+  const found = imported.frames.length;
+  if (Math.abs(found - expected) > Math.max(1, expected * FRAME_COUNT_TOLERANCE)) {
+    throw new Error(
+      `The keypoint file has ${found} frames, but ${video.duration.toFixed(1)} s of video at ${video.fps} fps has ${expected}. ` +
+      'Check the frame rate, or that the keypoints belong to this video.'
+    );
+  }
+
+  return frames.map(frame => ({
+    frameNumber: frame.frameNumber,
+    timestamp: frame.timestamp,
+    poses: imported.frames[Math.min(found - 1, Math.round(frame.timestamp * video.fps))],
+    metrics: NOT_MEASURABLE_METRICS
+  }));
+}
+
+// Reads the chosen files and lines them up with the frames extracted from the video
+export async function importKeypointsForVideo(
+  videoFile: File,
+  keypointFiles: File[],
+  fps: number,
+  frames: Array<{ frameNumber: number; timestamp: number }>
+): Promise<{ format: KeypointFormat; recordedFrames: FramePoseAnalysis[] }> {
+  const video = await readVideoMetadata(videoFile);
+  const sources = await Promise.all(keypointFiles.map(async file => ({ name: file.name, text: await file.text() })));
+  const imported = parseKeypointFiles(sources, video);
+  return { format: imported.format, recordedFrames: alignToFrames(imported, frames, { duration: video.duration, fps }) };
+}
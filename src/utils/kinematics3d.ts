@@ -0,0 +1,115 @@
+import { MIN_KEYPOINT_CONFIDENCE, type WorldKeypoint } from './poseDetection';
+import { toRiderFrame, type RiderOrientation } from './stance';
+
+// -------- INTERFACES --------
+// Image-space angles shrink and stretch with the camera angle; world landmarks don't
+export type AngleSpace = '2d' | '3d';
+
+type Vec3 = [number, number, number];
+
+export interface Measurement3d {
+  value: number | null; // deg; null when a joint is missing or below MIN_KEYPOINT_CONFIDENCE
+  confidence: number;
+}
+
+// All angles in degrees, measured on a regular rider travelling towards +x (see toRiderFrame)
+export interface JointAngles3d {
+  kneeAngle: Measurement3d;           // hip-knee-ankle interior angle, mean of the visible legs (180 = straight)
+  trunkInclination: Measurement3d;    // hips-to-shoulders line against vertical, any direction
+  trunkFlexion: Measurement3d;        // the forward (towards the chest) part of the inclination; negative = arched back
+  shoulderRotation: Measurement3d;    // back-to-lead shoulder line about the vertical axis, against travel
+  hipRotation: Measurement3d;         // the same for the hips
+  shoulderHipSeparation: Measurement3d; // axial twist of the shoulders against the hips, 0-180
+}
+
+// -------- VECTORS --------
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+const length = (a: Vec3): number => Math.sqrt(dot(a, a));
+const midpoint = (a: Vec3, b: Vec3): Vec3 => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2, (a[2] + b[2]) / 2];
+const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+
+// World landmarks have y pointing down
+const UP: Vec3 = [0, -1, 0];
+
+function angleBetween(a: Vec3, b: Vec3): number {
+  const cosang = dot(a, b) / (length(a) * length(b) + 1e-9);
+  return toDegrees(Math.acos(Math.max(-1, Math.min(1, cosang))));
+}
+
+// Heading of a vector about the vertical axis, from +x (travel) towards +z (away from the camera)
+function heading(v: Vec3): number {
+  return toDegrees(Math.atan2(v[2], v[0]));
+}
+
+function wrap180(angle: number): number {
+  const wrapped = ((angle % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+// -------- JOINTS --------
+function findJoints(world: WorldKeypoint[], names: string[]): [Vec3[], number] {
+  const joints = names.map(name => world.find(kp => kp.name === name));
+  const confidence = Math.min(...joints.map(joint => joint?.confidence ?? 0));
+  return [joints.map(joint => joint ? [joint.x, joint.y, joint.z] as Vec3 : null), confidence];
+}
+
+function measure(confidence: number, compute: () => number): Measurement3d {
+  return confidence >= MIN_KEYPOINT_CONFIDENCE ? { value: compute(), confidence } : { value: null, confidence };
+}
+
+function kneeAngle(world: WorldKeypoint[]): Measurement3d {
+  const legs = [
+    findJoints(world, ['left_hip', 'left_knee', 'left_ankle']),
+    findJoints(world, ['right_hip', 'right_knee', 'right_ankle'])
+  ];
+  const visible = legs.filter(([, confidence]) => confidence >= MIN_KEYPOINT_CONFIDENCE);
+  if (visible.length === 0) {
+    return { value: null, confidence: Math.max(...legs.map(([, confidence]) => confidence)) };
+  }
+  return {
+    value: visible.reduce((sum, [[hip, knee, ankle]]) => sum + angleBetween(sub(hip, knee), sub(ankle, knee)), 0) / visible.length,
+    confidence: visible.reduce((sum, [, confidence]) => sum + confidence, 0) / visible.length
+  };
+}
+
+// Uses the anatomical left and right: mirroring into the rider frame would turn the chest into the back
+function trunkFlexion(world: WorldKeypoint[]): number {
+  const [[leftShoulder, rightShoulder, leftHip, rightHip]] =
+    findJoints(world, ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip']);
+  const torso = sub(midpoint(leftShoulder, rightShoulder), midpoint(leftHip, rightHip));
+  // Chest direction: perpendicular to the hip line, level with the ground
+  const hips = sub(leftHip, rightHip);
+  const chest = cross([hips[0], 0, hips[2]], UP);
+  const forward = dot(torso, chest) / (length(chest) + 1e-9);
+  return toDegrees(Math.atan2(forward, dot(torso, UP)));
+}
+
+// -------- KINEMATICS --------
+// True joint angles from metric world landmarks (MediaPipe's poseWorldLandmarks: metres, origin
+// between the hips). Each angle carries the confidence of its weakest joint, as the 2D ones do.
+export function jointAngles3d(world: WorldKeypoint[], orientation?: RiderOrientation | null): JointAngles3d {
+  // World landmarks are centred on the hips, so mirroring is a sign flip rather than 100 - x
+  const rider = toRiderFrame(world, orientation, x => -x);
+  // In the rider frame "left" is the lead side
+  const [[leadShoulder, backShoulder, leadHip, backHip], torsoConfidence] =
+    findJoints(rider, ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip']);
+
+  const torso = () => sub(midpoint(leadShoulder, backShoulder), midpoint(leadHip, backHip));
+  const shoulderLine = () => sub(leadShoulder, backShoulder);
+  const hipLine = () => sub(leadHip, backHip);
+
+  return {
+    kneeAngle: kneeAngle(rider),
+    trunkInclination: measure(torsoConfidence, () => angleBetween(torso(), UP)),
+    trunkFlexion: measure(torsoConfidence, () => trunkFlexion(world)),
+    shoulderRotation: measure(torsoConfidence, () => Math.abs(heading(shoulderLine()))),
+    hipRotation: measure(torsoConfidence, () => Math.abs(heading(hipLine()))),
+    shoulderHipSeparation: measure(torsoConfidence, () => Math.abs(wrap180(heading(shoulderLine()) - heading(hipLine()))))
+  };
+}
@@ -0,0 +1,340 @@
+// Minimal ISO base media (MP4 / QuickTime MOV) demuxer: just enough of the moov box to hand a video
+// track's samples to WebCodecs. Fragmented files (moof) are not supported.
+
+// -------- CONFIG --------
+const BOX_HEADER_SIZE = 16;          // bytes read to learn a top-level box's type and size
+const VISUAL_SAMPLE_ENTRY_SIZE = 78; // bytes of a video sample entry before its child boxes
+
+// -------- INTERFACES --------
+export interface Mp4Sample {
+  offset: number;    // bytes into the file
+  size: number;
+  pts: number;       // s, presentation time with the edit list applied
+  duration: number;  // s
+  keyframe: boolean;
+}
+
+export interface Mp4VideoTrack {
+  codec: string;             // WebCodecs codec string, e.g. avc1.64001f
+  description?: Uint8Array;  // avcC / hvcC / av1C payload
+  codedWidth: number;
+  codedHeight: number;
+  rotation: 0 | 90 | 180 | 270; // deg clockwise to display the frames upright, from the track header
+  duration: number;          // s
+  samples: Mp4Sample[];      // in decode order
+}
+
+interface Box {
+  type: string;
+  start: number; // payload start, relative to the view
+  end: number;
+}
+
+interface SampleTables {
+  timescale: number;
+  sampleEntry: Box | null;
+  timeToSample: Array<{ count: number; delta: number }>;
+  compositionOffsets: Array<{ count: number; offset: number }>;
+  sampleToChunk: Array<{ firstChunk: number; samplesPerChunk: number }>;
+  sampleSizes: number[];
+  chunkOffsets: number[];
+  syncSamples: Set<number> | null; // 1-based; null means every sample is a keyframe
+  mediaStart: number;              // media time of the first presented sample, in timescale units
+  emptyDelay: number;              // s of nothing before it
+}
+
+// -------- UTILS --------
+const fourcc = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const uint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+const int64 = (view: DataView, offset: number): number =>
+  view.getInt32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+const hex = (value: number, digits: number = 2): string => value.toString(16).padStart(digits, '0');
+
+function readBox(view: DataView, offset: number, limit: number): Box & { next: number } {
+  let size = view.getUint32(offset);
+  const type = fourcc(view, offset + 4);
+  let start = offset + 8;
+  if (size === 1) {
+    size = uint64(view, offset + 8);
+    start += 8;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < start - offset || offset + size > limit) {
+    throw new Error(`Corrupt '${type}' box at byte ${offset}`);
+  }
+  return { type, start, end: offset + size, next: offset + size };
+}
+
+function children(view: DataView, parent: Pick<Box, 'start' | 'end'>): Box[] {
+  const boxes: Box[] = [];
+  for (let offset = parent.start; offset + 8 <= parent.end;) {
+    const box = readBox(view, offset, parent.end);
+    boxes.push(box);
+    offset = box.next;
+  }
+  return boxes;
+}
+
+const child = (view: DataView, parent: Box, type: string): Box | undefined =>
+  children(view, parent).find(box => box.type === type);
+
+// Finds the moov box without reading the media data, which may be most of the file
+async function readMoov(file: File): Promise<DataView> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + BOX_HEADER_SIZE).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = fourcc(header, 4);
+    if (size === 1) size = uint64(header, 8);
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) throw new Error(`Corrupt '${type}' box at byte ${offset}`);
+    if (type === 'moov') {
+      return new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  throw new Error('Not an MP4 or MOV file: no movie header found');
+}
+
+// -------- CODECS --------
+function reverseBits32(value: number): number {
+  let result = 0;
+  for (let i = 0; i < 32; i++) {
+    result = (result << 1) | ((value >>> i) & 1);
+  }
+  return result >>> 0;
+}
+
+// Codec strings as defined for each format's ISO BMFF binding
+function codecString(view: DataView, entry: Box): { codec: string; description?: Uint8Array } {
+  const format = entry.type;
+  const config = children(view, { start: entry.start + VISUAL_SAMPLE_ENTRY_SIZE, end: entry.end });
+  const find = (type: string) => config.find(box => box.type === type);
+  const payload = (box: Box) => new Uint8Array(view.buffer, view.byteOffset + box.start, box.end - box.start).slice();
+
+  if (format === 'avc1' || format === 'avc3') {
+    const avcC = find('avcC');
+    if (!avcC) throw new Error(`${format} track without an avcC box`);
+    const bytes = payload(avcC);
+    return { codec: `${format}.${hex(bytes[1])}${hex(bytes[2])}${hex(bytes[3])}`, description: bytes };
+  }
+
+  if (format === 'hvc1' || format === 'hev1') {
+    const hvcC = find('hvcC');
+    if (!hvcC) throw new Error(`${format} track without an hvcC box`);
+    const bytes = payload(hvcC);
+    const space = ['', 'A', 'B', 'C'][bytes[1] >> 6];
+    const tier = (bytes[1] >> 5) & 1 ? 'H' : 'L';
+    const profile = bytes[1] & 0x1f;
+    const compatibility = reverseBits32(new DataView(bytes.buffer).getUint32(2)).toString(16);
+    const constraints = Array.from(bytes.slice(6, 12));
+    while (constraints.length > 0 && constraints[constraints.length - 1] === 0) constraints.pop();
+    const suffix = constraints.map(byte => `.${byte.toString(16)}`).join('');
+    return { codec: `${format}.${space}${profile}.${compatibility}.${tier}${bytes[12]}${suffix}`, description: bytes };
+  }
+
+  if (format === 'vp09') {
+    const vpcC = find('vpcC');
+    if (!vpcC) throw new Error('vp09 track without a vpcC box');
+    const bytes = payload(vpcC); // full box: version and flags first
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return { codec: `vp09.${pad(bytes[4])}.${pad(bytes[5])}.${pad(bytes[6] >> 4)}` };
+  }
+
+  if (format === 'av01') {
+    const av1C = find('av1C');
+    if (!av1C) throw new Error('av01 track without an av1C box');
+    const bytes = payload(av1C);
+    const profile = bytes[1] >> 5;
+    const level = bytes[1] & 0x1f;
+    const tier = bytes[2] >> 7 ? 'H' : 'M';
+    const highBitDepth = (bytes[2] >> 6) & 1;
+    const twelveBit = (bytes[2] >> 5) & 1;
+    const bitDepth = highBitDepth ? (profile === 2 && twelveBit ? 12 : 10) : 8;
+    return { codec: `av01.${profile}.${level.toString().padStart(2, '0')}${tier}.${bitDepth.toString().padStart(2, '0')}`, description: bytes };
+  }
+
+  throw new Error(`Unsupported video codec '${format}'`);
+}
+
+// -------- SAMPLE TABLES --------
+function readSampleTables(view: DataView, trak: Box, movieTimescale: number): SampleTables {
+  const mdia = child(view, trak, 'mdia');
+  const mdhd = mdia && child(view, mdia, 'mdhd');
+  const minf = mdia && child(view, mdia, 'minf');
+  const stbl = minf && child(view, minf, 'stbl');
+  if (!mdhd || !stbl) throw new Error('Video track without sample tables');
+
+  const mdhdVersion = view.getUint8(mdhd.start);
+  const timescale = view.getUint32(mdhd.start + (mdhdVersion === 1 ? 20 : 12));
+  const tables: SampleTables = {
+    timescale,
+    sampleEntry: null,
+    timeToSample: [],
+    compositionOffsets: [],
+    sampleToChunk: [],
+    sampleSizes: [],
+    chunkOffsets: [],
+    syncSamples: null,
+    mediaStart: 0,
+    emptyDelay: 0
+  };
+
+  for (const box of children(view, stbl)) {
+    // Every table is a full box: version and flags, then usually an entry count
+    const count = view.getUint32(box.start + 4);
+    const at = box.start + 8;
+    switch (box.type) {
+      case 'stsd':
+        tables.sampleEntry = count > 0 ? readBox(view, at, box.end) : null;
+        break;
+      case 'stts':
+        for (let i = 0; i < count; i++) {
+          tables.timeToSample.push({ count: view.getUint32(at + i * 8), delta: view.getUint32(at + i * 8 + 4) });
+        }
+        break;
+      case 'ctts':
+        // Version 0 offsets are unsigned on paper, but writers store negative ones there too
+        for (let i = 0; i < count; i++) {
+          tables.compositionOffsets.push({ count: view.getUint32(at + i * 8), offset: view.getInt32(at + i * 8 + 4) });
+        }
+        break;
+      case 'stsc':
+        for (let i = 0; i < count; i++) {
+          tables.sampleToChunk.push({ firstChunk: view.getUint32(at + i * 12), samplesPerChunk: view.getUint32(at + i * 12 + 4) });
+        }
+        break;
+      case 'stsz': {
+        // Here the field after the flags is the shared sample size, and the count follows it
+        const sampleCount = view.getUint32(at);
+        tables.sampleSizes = Array.from({ length: sampleCount }, (_, i) => count || view.getUint32(at + 4 + i * 4));
+        break;
+      }
+      case 'stco':
+        for (let i = 0; i < count; i++) tables.chunkOffsets.push(view.getUint32(at + i * 4));
+        break;
+      case 'co64':
+        for (let i = 0; i < count; i++) tables.chunkOffsets.push(uint64(view, at + i * 8));
+        break;
+      case 'stss':
+        tables.syncSamples = new Set(Array.from({ length: count }, (_, i) => view.getUint32(at + i * 4)));
+        break;
+    }
+  }
+
+  // Edit list: an empty edit delays the track, and the first real edit says where its media starts
+  const edts = child(view, trak, 'edts');
+  const elst = edts && child(view, edts, 'elst');
+  if (elst) {
+    const version = view.getUint8(elst.start);
+    const count = view.getUint32(elst.start + 4);
+    const entrySize = version === 1 ? 20 : 12;
+    for (let i = 0; i < count; i++) {
+      const at = elst.start + 8 + i * entrySize;
+      const segmentDuration = version === 1 ? uint64(view, at) : view.getUint32(at);
+      const mediaTime = version === 1 ? int64(view, at + 8) : view.getInt32(at + 4);
+      if (mediaTime === -1) {
+        tables.emptyDelay += segmentDuration / movieTimescale;
+      } else {
+        tables.mediaStart = mediaTime;
+        break;
+      }
+    }
+  }
+
+  return tables;
+}
+
+function buildSamples(tables: SampleTables): Mp4Sample[] {
+  const { timescale, sampleSizes, chunkOffsets, sampleToChunk, syncSamples } = tables;
+  const samples: Mp4Sample[] = [];
+
+  // Expand the run-length tables alongside the sample index
+  let timeRun = 0;
+  let timeLeft = tables.timeToSample[0]?.count ?? 0;
+  let offsetRun = 0;
+  let offsetLeft = tables.compositionOffsets[0]?.count ?? 0;
+  let dts = 0;
+
+  let sampleIndex = 0;
+  for (let chunk = 0; chunk < chunkOffsets.length && sampleIndex < sampleSizes.length; chunk++) {
+    // stsc entries apply from their (1-based) first chunk until the next entry's
+    let entry = 0;
+    while (entry + 1 < sampleToChunk.length && sampleToChunk[entry + 1].firstChunk <= chunk + 1) entry++;
+    const perChunk = sampleToChunk[entry]?.samplesPerChunk ?? 0;
+
+    let offset = chunkOffsets[chunk];
+    for (let i = 0; i < perChunk && sampleIndex < sampleSizes.length; i++, sampleIndex++) {
+      while (timeLeft === 0 && timeRun + 1 < tables.timeToSample.length) timeLeft = tables.timeToSample[++timeRun].count;
+      while (offsetLeft === 0 && offsetRun + 1 < tables.compositionOffsets.length) offsetLeft = tables.compositionOffsets[++offsetRun].count;
+      const delta = tables.timeToSample[timeRun]?.delta ?? 0;
+      const compositionOffset = tables.compositionOffsets[offsetRun]?.offset ?? 0;
+      timeLeft--;
+      offsetLeft--;
+
+      samples.push({
+        offset,
+        size: sampleSizes[sampleIndex],
+        pts: (dts + compositionOffset - tables.mediaStart) / timescale + tables.emptyDelay,
+        duration: delta / timescale,
+        keyframe: syncSamples === null || syncSamples.has(sampleIndex + 1)
+      });
+      offset += sampleSizes[sampleIndex];
+      dts += delta;
+    }
+  }
+  return samples;
+}
+
+// Phones record portrait video as landscape frames and a rotation in the track header's matrix,
+// whose first row holds cos and sin of the angle (16.16 fixed point, so the scale cancels out)
+function trackRotation(view: DataView, trak: Box): Mp4VideoTrack['rotation'] {
+  const tkhd = child(view, trak, 'tkhd');
+  if (!tkhd) return 0;
+  const matrix = tkhd.start + (view.getUint8(tkhd.start) === 1 ? 52 : 40);
+  const degrees = Math.round(Math.atan2(view.getInt32(matrix + 4), view.getInt32(matrix)) * (180 / Math.PI) / 90) * 90;
+  return (((degrees % 360) + 360) % 360) as Mp4VideoTrack['rotation'];
+}
+
+// -------- DEMUX --------
+export async function demuxVideoTrack(file: File): Promise<Mp4VideoTrack> {
+  const view = await readMoov(file);
+  const moov = readBox(view, 0, view.byteLength);
+  const boxes = children(view, moov);
+  if (boxes.some(box => box.type === 'mvex')) {
+    throw new Error('Fragmented MP4 files are not supported');
+  }
+
+  const mvhd = boxes.find(box => box.type === 'mvhd');
+  const movieTimescale = mvhd ? view.getUint32(mvhd.start + (view.getUint8(mvhd.start) === 1 ? 20 : 12)) : 1;
+
+  const trak = boxes.filter(box => box.type === 'trak').find(track => {
+    const mdia = child(view, track, 'mdia');
+    const hdlr = mdia && child(view, mdia, 'hdlr');
+    return hdlr && fourcc(view, hdlr.start + 8) === 'vide';
+  });
+  if (!trak) throw new Error('No video track found');
+
+  const tables = readSampleTables(view, trak, movieTimescale);
+  if (!tables.sampleEntry) throw new Error('Video track without a sample description');
+  const { codec, description } = codecString(view, tables.sampleEntry);
+  const samples = buildSamples(tables);
+  if (samples.length === 0) throw new Error('Video track has no samples');
+
+  const last = samples.reduce((latest, sample) => (sample.pts > latest.pts ? sample : latest));
+  return {
+    codec,
+    description,
+    codedWidth: view.getUint16(tables.sampleEntry.start + 24),
+    codedHeight: view.getUint16(tables.sampleEntry.start + 26),
+    rotation: trackRotation(view, trak),
+    duration: last.pts + last.duration,
+    samples
+  };
+}
@@ -1,9 +1,13 @@
-// MediaPipe Pose will be loaded via CDN script
-declare global {
-  interface Window {
-    Pose: any;
-  }
-}
+import type { ObjectDetectionPipelineCallback, PreTrainedModel, RawImage, VitPoseImageProcessor } from '@huggingface/transformers';
+import type { PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { BoardDetection } from './boardDetection';
+import type { CameraTransform } from './cameraMotion';
+import type { RidePhase } from './rideSegmentation';
+import { sceneAngles, type SceneAngles, type SceneGeometry } from './sceneGeometry';
+import { estimateCenterOfMass, footPoint, backFootWeight } from './centerOfMass';
+import { toRiderFrame, type RiderOrientation, type TravelDirection } from './stance';
+import { jointAngles3d, type AngleSpace } from './kinematics3d';
+import { CropTracker, cropScale, keypointsToFrame, boxIoU } from './surferCrop';
 
 export interface PoseKeypoint {
   x: number;
@@ -13,168 +17,642 @@ export interface PoseKeypoint {
   name: string;
 }
 
+// Metric 3D landmark: metres from the midpoint of the hips, y pointing down, z away from the camera
+export interface WorldKeypoint extends PoseKeypoint {
+  z: number;
+}
+
+// Frames are drawn on a regular canvas on the main thread and an OffscreenCanvas in the pose worker
+export type FrameCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Anything a frame can arrive as: a canvas, or a bitmap streamed from the video
+export type FrameImage = FrameCanvas | ImageBitmap;
+
+// getContext's overloads differ between the two canvas types, so narrow before calling it
+export const context2d = (canvas: FrameCanvas): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D =>
+  typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+    ? canvas.getContext('2d')
+    : (canvas as HTMLCanvasElement).getContext('2d');
+
+// A scratch canvas in whichever flavour the current thread supports
+export const createFrameCanvas = (width: number, height: number): FrameCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Axis-aligned box in the same percentage coordinates as PoseKeypoint
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface PoseResult {
   keypoints: PoseKeypoint[];
+  worldKeypoints?: WorldKeypoint[]; // only from backends with depth (MediaPipe); angles fall back to 2D without them
   confidence: number;
+  boundingBox?: BoundingBox;
+  trackId?: number; // assigned by SurferTracker, stable across frames
+  cropBox?: BoundingBox; // region of the frame the pose model was run on
+  interpolated?: boolean; // filled in by keypoint cleaning across a short detection dropout
+}
+
+export type SurfMetricName =
+  'bodyRotation' | 'centerOfGravity' | 'stanceWidth' | 'kneeFlexion' | 'railEngagement' | 'weightDistribution';
+
+// A null metric is "not measurable": its joints were missing or below MIN_KEYPOINT_CONFIDENCE
+export interface SurfMetrics {
+  bodyRotation: number | null;
+  centerOfGravity: { x: number; y: number } | null;
+  stanceWidth: number | null;
+  kneeFlexion: number | null;
+  railEngagement: number | null; // 0-100%, from the detected board's roll
+  weightDistribution: number | null; // 0-100% of body weight over the back foot
+  confidence: Record<SurfMetricName, number>; // 0-1, from the keypoints each metric uses
+  angleSpace?: AngleSpace; // whether rotation and knee flexion came from world landmarks or the image
+  sceneAngles?: SceneAngles; // lean and board angles against the horizon and the wave face
 }
 
 export interface FramePoseAnalysis {
   frameNumber: number;
   timestamp: number;
   imageData?: string; // base64 frame image
-  poses: PoseResult[];
-  metrics: {
-    bodyRotation: number;
-    centerOfGravity: { x: number; y: number };
-    stanceWidth: number;
-    kneeFlexion: number;
-  };
+  poses: PoseResult[]; // every person detected in the frame
+  subjectTrackId?: number; // track of the surfer being analysed
+  board?: BoardDetection | null; // the subject's surfboard, null when it could not be found
+  cropBox?: BoundingBox | null; // region the subject's pose was estimated in, null when run on the whole frame
+  travelDirection?: TravelDirection | null; // across the image, from stance detection
+  cameraTransform?: CameraTransform | null; // maps this frame into the stabilised scene (see cameraMotion)
+  scene?: SceneGeometry | null; // horizon and wave face around the subject (see sceneGeometry)
+  ridePhase?: RidePhase; // what the surfer is doing, from ride segmentation of the session clip
+  metrics: SurfMetrics;
   poseDetectionError?: string; // Error message when pose detection fails
 }
 
-class MediaPipePoseDetector {
-  private pose: any = null;
-  private isInitialized = false;
+export type PoseBackendId = 'mediapipe' | 'transformers' | 'replay';
+
+export interface PoseBackendInfo {
+  backend: PoseBackendId;
+  modelVersion: string;
+}
+
+// Every pose model sits behind this interface so analysis paths never depend on a specific detector
+export interface PoseBackend {
+  readonly id: PoseBackendId;
+  readonly modelVersion: string;
+  initialize(): Promise<void>;
+  detectPoses(canvas: FrameCanvas, frameNumber?: number, objects?: ObjectDetections): Promise<PoseResult[]>;
+}
+
+// A DETR detection, in canvas pixels
+export interface DetectedObject {
+  label: string;
+  score: number;
+  box: { xmin: number; ymin: number; xmax: number; ymax: number };
+}
+
+// The frame's DETR detections, run on first call and shared by every caller after that; null when
+// the detector is unavailable
+export type ObjectDetections = () => Promise<DetectedObject[] | null>;
+
+export interface PoseBackendOptions {
+  modelId?: string;                      // transformers.js model repo
+  cropToSurfer?: boolean;                // MediaPipe only: run on a zoomed crop around each person (default true)
+  recordedFrames?: FramePoseAnalysis[];  // keypoints for the replay backend
+}
+
+// The runtime and model weights are served from our own origin (see vite.config.ts) and precached by sw.js
+const MEDIAPIPE_TASKS_VERSION = '0.10.35';
+const MEDIAPIPE_WASM_BASE = `${import.meta.env.BASE_URL}mediapipe/tasks-vision`;
+const MEDIAPIPE_POSE_MODEL = 'pose_landmarker_full';
+const MODEL_ASSET_BASE = `${import.meta.env.BASE_URL}models/`;
+const ONNX_WASM_BASE = `${import.meta.env.BASE_URL}onnxruntime/`;
+const DEFAULT_TRANSFORMERS_MODEL = 'onnx-community/vitpose-base-simple';
+const OBJECT_DETECTOR_MODEL = 'Xenova/detr-resnet-50'; // COCO classes, which include person and surfboard
+const OBJECT_DETECTION_THRESHOLD = 0.3; // the lowest any label needs; "surfboard" scores lower than "person"
+const PERSON_DETECTION_THRESHOLD = 0.5;
+const HELD_CROP_MIN_CONFIDENCE = 0.3; // a pose found without a person detection behind it must be clear
+const DUPLICATE_POSE_IOU = 0.6;       // overlapping crops often find the same rider twice
+const BOX_KEYPOINT_MIN_CONFIDENCE = 0.3;
+const BOX_MARGIN = 0.1; // fraction of box size added on each side
+
+export const MEDIAPIPE_LANDMARK_NAMES = [
+  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
+  'right_eye_inner', 'right_eye', 'right_eye_outer',
+  'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_pinky', 'right_pinky',
+  'left_index', 'right_index', 'left_thumb', 'right_thumb',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee',
+  'left_ankle', 'right_ankle', 'left_heel', 'right_heel',
+  'left_foot_index', 'right_foot_index'
+];
+
+// COCO keypoint order used by ViTPose, MoveNet and RTMPose
+export const COCO_KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+];
+
+let objectDetectorPromise: Promise<ObjectDetectionPipelineCallback> | null = null;
+
+// transformers.js fetches models from the HF hub and its ONNX runtime from a CDN by default; point
+// both at our own origin so the service worker can precache them
+const loadTransformers = async () => {
+  const transformers = await import('@huggingface/transformers');
+  transformers.env.localModelPath = MODEL_ASSET_BASE;
+  transformers.env.allowLocalModels = true;
+  transformers.env.allowRemoteModels = false;
+  transformers.env.backends.onnx.wasm.wasmPaths = ONNX_WASM_BASE;
+  return transformers;
+};
+
+// One DETR instance is shared by person detection and the board detector. A failed load is kept for
+// the session, so callers fail fast instead of retrying the download on every frame.
+export const loadObjectDetector = (): Promise<ObjectDetectionPipelineCallback> => {
+  if (!objectDetectorPromise) {
+    objectDetectorPromise = loadTransformers().then(({ pipeline }) => {
+      // pipeline()'s overloads are too large for tsc to resolve, so narrow it to the task we use
+      const loadDetector = pipeline as unknown as (task: 'object-detection', model: string) => Promise<ObjectDetectionPipelineCallback>;
+      return loadDetector('object-detection', OBJECT_DETECTOR_MODEL);
+    });
+  }
+  return objectDetectorPromise;
+};
+
+// Runs DETR at most once on this canvas, however many of its labels are asked for
+export const objectDetections = (canvas: FrameCanvas): ObjectDetections => {
+  let detections: Promise<DetectedObject[] | null> | null = null;
+  return () => {
+    if (!detections) {
+      detections = (async () => {
+        const detector = await loadObjectDetector().catch(() => null);
+        if (!detector) return null;
+        const { RawImage } = await import('@huggingface/transformers');
+        const output = await detector(RawImage.fromCanvas(canvas), { threshold: OBJECT_DETECTION_THRESHOLD, percentage: false });
+        return (Array.isArray(output) ? output.flat() : [output])
+          .map(({ label, score, box }) => ({ label, score, box }));
+      })();
+    }
+    return detections;
+  };
+};
+
+const averageConfidence = (keypoints: PoseKeypoint[]): number =>
+  keypoints.length > 0 ? keypoints.reduce((sum, kp) => sum + kp.confidence, 0) / keypoints.length : 0;
+
+export const boundingBoxFromKeypoints = (keypoints: PoseKeypoint[]): BoundingBox | undefined => {
+  const visible = keypoints.filter(kp => kp.confidence >= BOX_KEYPOINT_MIN_CONFIDENCE);
+  if (visible.length === 0) return undefined;
+
+  const minX = Math.min(...visible.map(kp => kp.x));
+  const maxX = Math.max(...visible.map(kp => kp.x));
+  const minY = Math.min(...visible.map(kp => kp.y));
+  const maxY = Math.max(...visible.map(kp => kp.y));
+  const marginX = (maxX - minX) * BOX_MARGIN;
+  const marginY = (maxY - minY) * BOX_MARGIN;
+
+  const x = Math.max(0, minX - marginX);
+  const y = Math.max(0, minY - marginY);
+  return {
+    x,
+    y,
+    width: Math.min(100, maxX + marginX) - x,
+    height: Math.min(100, maxY + marginY) - y
+  };
+};
+
+// The pose the rest of the pipeline should analyse: the tracked subject, or the only detection
+export const getSubjectPose = (frame: Pick<FramePoseAnalysis, 'poses' | 'subjectTrackId'>): PoseResult | null => {
+  if (!frame.poses || frame.poses.length === 0) return null;
+  if (frame.subjectTrackId === undefined) {
+    return frame.poses.length === 1 ? frame.poses[0] : null;
+  }
+  return frame.poses.find(pose => pose.trackId === frame.subjectTrackId) || null;
+};
+
+// MediaPipe Tasks PoseLandmarker. Unlike the legacy @mediapipe/pose solution it needs no DOM, so it
+// runs inside the pose workers; the wasm runtime and model are served from our own origin.
+class MediaPipePoseBackend implements PoseBackend {
+  readonly id = 'mediapipe' as const;
+  readonly modelVersion = `@mediapipe/tasks-vision@${MEDIAPIPE_TASKS_VERSION} ${MEDIAPIPE_POSE_MODEL}`;
+  private landmarker: PoseLandmarker | null = null;
 
   async initialize(): Promise<void> {
-    if (this.isInitialized) return;
+    if (this.landmarker) return;
 
     try {
-      // Load MediaPipe via CDN if not already loaded
-      if (!window.Pose) {
-        await this.loadMediaPipeScript();
+      const { FilesetResolver, PoseLandmarker } = await import('@mediapipe/tasks-vision');
+      // Module workers can't importScripts, so there the runtime's ES module build is loaded through self.import
+      const inWorker = typeof document === 'undefined';
+      if (inWorker) {
+        (self as unknown as { import: (url: string) => Promise<unknown> }).import = (url) => import(/* @vite-ignore */ url);
       }
+      const fileset = await FilesetResolver.forVisionTasks(MEDIAPIPE_WASM_BASE, inWorker);
+      this.landmarker = await PoseLandmarker.createFromOptions(fileset, {
+        baseOptions: {
+          modelAssetPath: `${MODEL_ASSET_BASE}mediapipe/${MEDIAPIPE_POSE_MODEL}.task`,
+          delegate: 'CPU' // WebGL isn't available in every worker
+        },
+        runningMode: 'IMAGE', // crops jump between riders, so frames are not tracked; keypointFilter smooths afterwards
+        numPoses: 1,
+        minPoseDetectionConfidence: 0.3,
+        minPosePresenceConfidence: 0.3,
+        minTrackingConfidence: 0.3
+      });
+    } catch (error) {
+      console.error('Failed to initialize MediaPipe Pose:', error);
+      throw new Error(
+        `MediaPipe Pose runtime or model is missing from ${MEDIAPIPE_WASM_BASE}/ or ${MODEL_ASSET_BASE}mediapipe/. ` +
+        'Open the app once while online so they can be cached for offline use.'
+      );
+    }
+  }
 
-      // Wait a bit for the script to be available
-      await new Promise(resolve => setTimeout(resolve, 100));
+  // Single-person, so this yields at most one result
+  async detectPoses(canvas: FrameCanvas): Promise<PoseResult[]> {
+    if (!this.landmarker) {
+      await this.initialize();
+    }
 
-      if (!window.Pose) {
-        throw new Error('MediaPipe Pose failed to load from CDN');
-      }
+    const { landmarks, worldLandmarks } = this.landmarker.detect(canvas);
+    if (!landmarks[0] || landmarks[0].length === 0) {
+      return [];
+    }
 
-      this.pose = new window.Pose({
-        locateFile: (file: string) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
-        }
-      });
+    const keypoints: PoseKeypoint[] = landmarks[0].map((landmark, index) => ({
+      x: landmark.x * 100, // Convert to percentage
+      y: landmark.y * 100,
+      z: landmark.z,
+      confidence: landmark.visibility ?? 0,
+      name: MEDIAPIPE_LANDMARK_NAMES[index] || `landmark_${index}`
+    }));
 
-      this.pose.setOptions({
-        modelComplexity: 1,
-        smoothLandmarks: true,
-        enableSegmentation: false,
-        smoothSegmentation: false,
-        minDetectionConfidence: 0.3,
-        minTrackingConfidence: 0.3
-      });
+    const worldKeypoints: WorldKeypoint[] | undefined = worldLandmarks[0]?.map((landmark, index) => ({
+      x: landmark.x,
+      y: landmark.y,
+      z: landmark.z,
+      confidence: landmark.visibility ?? 0,
+      name: MEDIAPIPE_LANDMARK_NAMES[index] || `landmark_${index}`
+    }));
 
-      this.isInitialized = true;
+    return [{
+      keypoints,
+      worldKeypoints,
+      confidence: averageConfidence(keypoints),
+      boundingBox: boundingBoxFromKeypoints(keypoints)
+    }];
+  }
+}
+
+// Top-down ONNX pose model (ViTPose by default) run through transformers.js. It treats the whole
+// canvas as one person, so it always runs behind SurferCropPoseBackend.
+class TransformersPoseBackend implements PoseBackend {
+  readonly id = 'transformers' as const;
+  readonly modelVersion: string;
+  private model: PreTrainedModel | null = null;
+  private processor: VitPoseImageProcessor | null = null;
+  private rawImage: typeof RawImage | null = null;
+
+  constructor(private modelId: string = DEFAULT_TRANSFORMERS_MODEL) {
+    this.modelVersion = `@huggingface/transformers ${modelId}`;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.model) return;
+
+    try {
+      const { AutoModel, VitPoseImageProcessor, RawImage } = await loadTransformers();
+      this.processor = await VitPoseImageProcessor.from_pretrained(this.modelId) as VitPoseImageProcessor;
+      this.model = await AutoModel.from_pretrained(this.modelId);
+      this.rawImage = RawImage;
     } catch (error) {
-      console.error('Failed to initialize MediaPipe Pose:', error);
+      console.error(`Failed to initialize transformers.js pose model ${this.modelId}:`, error);
       throw error;
     }
   }
 
-  private async loadMediaPipeScript(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const script = document.createElement('script');
-      script.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js';
-      script.onload = () => resolve();
-      script.onerror = () => reject(new Error('Failed to load MediaPipe script'));
-      document.head.appendChild(script);
+  async detectPoses(canvas: FrameCanvas): Promise<PoseResult[]> {
+    if (!this.model) {
+      await this.initialize();
+    }
+
+    const image = this.rawImage.fromCanvas(canvas);
+    const inputs = await this.processor(image);
+    const { heatmaps } = await this.model(inputs);
+    const [person] = this.processor.post_process_pose_estimation(heatmaps, [[[0, 0, image.width, image.height]]])[0];
+    if (!person || person.keypoints.length === 0) {
+      return [];
+    }
+
+    const keypoints: PoseKeypoint[] = person.keypoints.map(([x, y], index) => ({
+      x: (x / image.width) * 100,
+      y: (y / image.height) * 100,
+      confidence: person.scores[index] ?? 0,
+      name: COCO_KEYPOINT_NAMES[person.labels[index] ?? index] || `landmark_${index}`
+    }));
+
+    return [{
+      keypoints,
+      confidence: averageConfidence(keypoints),
+      boundingBox: boundingBoxFromKeypoints(keypoints)
+    }];
+  }
+}
+
+// Surfers are a few dozen pixels tall in a beach shot, so the pose model is not run on the whole
+// frame: people are found with the shared object detector, each crop is tracked from frame to frame,
+// zoomed to CROP_TARGET_SIZE and handed to the wrapped single-person backend, and the keypoints are
+// mapped back into full-frame percentages.
+class SurferCropPoseBackend implements PoseBackend {
+  readonly id: PoseBackendId;
+  private ready = false;
+  private cropping = true;
+  private crops = new CropTracker();
+  private lastFrameNumber: number | null = null;
+
+  constructor(private inner: PoseBackend) {
+    this.id = inner.id;
+  }
+
+  get modelVersion(): string {
+    return this.cropping ? `${this.inner.modelVersion} on ${OBJECT_DETECTOR_MODEL} surfer crops` : this.inner.modelVersion;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.ready) return;
+
+    try {
+      await this.inner.initialize();
+    } catch (error) {
+      console.error('Failed to initialize surfer crop detection:', error);
+      throw error;
+    }
+    // Without the person detector (e.g. offline before it was cached) the wrapped backend reads the
+    // whole frame, which still works for close-ups
+    await loadObjectDetector().catch(error => {
+      this.cropping = false;
+      console.warn('Person detector unavailable, detecting poses on the whole frame:', error);
     });
+    this.ready = true;
   }
 
-  async detectPose(canvas: HTMLCanvasElement): Promise<PoseResult | null> {
-    if (!this.pose || !this.isInitialized) {
+  private people(objects: DetectedObject[], canvas: FrameCanvas): BoundingBox[] {
+    return objects
+      .filter(({ label, score }) => label === 'person' && score >= PERSON_DETECTION_THRESHOLD)
+      .map(({ box }) => ({
+        x: (box.xmin / canvas.width) * 100,
+        y: (box.ymin / canvas.height) * 100,
+        width: ((box.xmax - box.xmin) / canvas.width) * 100,
+        height: ((box.ymax - box.ymin) / canvas.height) * 100
+      }));
+  }
+
+  async detectPoses(canvas: FrameCanvas, frameNumber?: number, objects: ObjectDetections = objectDetections(canvas)): Promise<PoseResult[]> {
+    if (!this.ready) {
       await this.initialize();
     }
 
-    return new Promise((resolve) => {
-      if (!this.pose) {
-        resolve(null);
-        return;
+    const detected = this.cropping ? await objects() : null;
+    if (!detected) {
+      return this.inner.detectPoses(canvas, frameNumber);
+    }
+
+    // Frame numbers only go forward within a clip, so going back means a new clip
+    if (frameNumber === undefined || this.lastFrameNumber === null || frameNumber <= this.lastFrameNumber) {
+      this.crops.reset();
+    }
+    this.lastFrameNumber = frameNumber ?? null;
+
+    const crops = this.crops.update(this.people(detected, canvas));
+    if (crops.length === 0) {
+      // Nobody detected: a close-up can still be read from the whole frame
+      return (await this.inner.detectPoses(canvas, frameNumber))
+        .filter(pose => pose.confidence >= HELD_CROP_MIN_CONFIDENCE);
+    }
+
+    const results: PoseResult[] = [];
+    for (const { box, held } of crops) {
+      const sx = (box.x / 100) * canvas.width;
+      const sy = (box.y / 100) * canvas.height;
+      const sw = (box.width / 100) * canvas.width;
+      const sh = (box.height / 100) * canvas.height;
+      if (sw < 1 || sh < 1) continue;
+
+      const scale = cropScale(sw, sh);
+      const crop = createFrameCanvas(Math.round(sw * scale), Math.round(sh * scale));
+      const ctx = context2d(crop);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(canvas, sx, sy, sw, sh, 0, 0, crop.width, crop.height);
+
+      for (const pose of await this.inner.detectPoses(crop, frameNumber)) {
+        const keypoints = keypointsToFrame(pose.keypoints, box);
+        const confidence = averageConfidence(keypoints);
+        if (held && confidence < HELD_CROP_MIN_CONFIDENCE) continue;
+        // World landmarks are centred on the hips and in metres, so the crop doesn't affect them
+        results.push({
+          keypoints,
+          worldKeypoints: pose.worldKeypoints,
+          confidence,
+          boundingBox: boundingBoxFromKeypoints(keypoints) ?? box,
+          cropBox: box
+        });
       }
+    }
 
-      this.pose.onResults((results) => {
-        if (results.poseLandmarks && results.poseLandmarks.length > 0) {
-          const keypoints: PoseKeypoint[] = results.poseLandmarks.map((landmark, index) => ({
-            x: landmark.x * 100, // Convert to percentage
-            y: landmark.y * 100,
-            z: landmark.z,
-            confidence: landmark.visibility || 0.5,
-            name: this.getLandmarkName(index)
-          }));
-
-          const confidence = keypoints.reduce((sum, kp) => sum + kp.confidence, 0) / keypoints.length;
-
-          resolve({
-            keypoints,
-            confidence
-          });
-        } else {
-          resolve(null);
-        }
-      });
+    // Keep the most confident of any poses that landed on the same rider
+    return results
+      .sort((a, b) => b.confidence - a.confidence)
+      .filter((pose, index, sorted) =>
+        !sorted.slice(0, index).some(kept => boxIoU(kept.boundingBox, pose.boundingBox) >= DUPLICATE_POSE_IOU)
+      );
+  }
+}
 
-      this.pose.send({ image: canvas });
+// Replays previously recorded keypoints so an analysis can be reproduced without re-running a model
+class ReplayPoseBackend implements PoseBackend {
+  readonly id = 'replay' as const;
+  readonly modelVersion: string;
+  private posesByFrame = new Map<number, PoseResult[]>();
+
+  constructor(recordedFrames: FramePoseAnalysis[] = []) {
+    recordedFrames.forEach(frame => {
+      if (frame.poses.length > 0) {
+        this.posesByFrame.set(frame.frameNumber, frame.poses);
+      }
     });
+    this.modelVersion = `recorded keypoints (${this.posesByFrame.size} frames)`;
   }
 
-  private getLandmarkName(index: number): string {
-    const landmarkNames = [
-      'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer',
-      'right_eye_inner', 'right_eye', 'right_eye_outer',
-      'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
-      'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
-      'left_wrist', 'right_wrist', 'left_pinky', 'right_pinky',
-      'left_index', 'right_index', 'left_thumb', 'right_thumb',
-      'left_hip', 'right_hip', 'left_knee', 'right_knee',
-      'left_ankle', 'right_ankle', 'left_heel', 'right_heel',
-      'left_foot_index', 'right_foot_index'
-    ];
-    
-    return landmarkNames[index] || `landmark_${index}`;
+  async initialize(): Promise<void> {
+    if (this.posesByFrame.size === 0) {
+      throw new Error('Replay pose backend has no recorded keypoints');
+    }
+  }
+
+  async detectPoses(_canvas: FrameCanvas, frameNumber?: number): Promise<PoseResult[]> {
+    if (frameNumber === undefined) {
+      throw new Error('Replay pose backend requires a frame number');
+    }
+    // Strip recorded track IDs so the tracker assigns them afresh
+    return (this.posesByFrame.get(frameNumber) || []).map(({ trackId, ...pose }) => ({
+      ...pose,
+      boundingBox: pose.boundingBox || boundingBoxFromKeypoints(pose.keypoints)
+    }));
   }
 }
 
+export const createPoseBackend = (id: PoseBackendId, options: PoseBackendOptions = {}): PoseBackend => {
+  switch (id) {
+    case 'mediapipe':
+      return options.cropToSurfer === false
+        ? new MediaPipePoseBackend()
+        : new SurferCropPoseBackend(new MediaPipePoseBackend());
+    case 'transformers':
+      return new SurferCropPoseBackend(new TransformersPoseBackend(options.modelId));
+    case 'replay':
+      return new ReplayPoseBackend(options.recordedFrames);
+    default:
+      throw new Error(`Unknown pose backend: ${id}`);
+  }
+};
+
+// Whether createPoseBackend wraps the backend in surfer crops, which are tracked from one frame to
+// the next and so need a clip's frames in order on one instance
+export const tracksSurferCrops = (id: PoseBackendId, options: PoseBackendOptions = {}): boolean =>
+  id === 'transformers' || (id === 'mediapipe' && options.cropToSurfer !== false);
+
+// Facade used by every analysis path; swap the backend here instead of in components
+export class PoseDetector {
+  private backend: PoseBackend;
+
+  constructor(backend: PoseBackend) {
+    this.backend = backend;
+  }
+
+  setBackend(backend: PoseBackend): void {
+    this.backend = backend;
+  }
+
+  getBackendInfo(): PoseBackendInfo {
+    return {
+      backend: this.backend.id,
+      modelVersion: this.backend.modelVersion
+    };
+  }
+
+  initialize(): Promise<void> {
+    return this.backend.initialize();
+  }
+
+  detectPoses(canvas: FrameCanvas, frameNumber?: number, objects?: ObjectDetections): Promise<PoseResult[]> {
+    return this.backend.detectPoses(canvas, frameNumber, objects);
+  }
+}
+
+// Keypoints below this confidence are treated as missing rather than guessed at
+export const MIN_KEYPOINT_CONFIDENCE = 0.5;
+
+// The named joint, when it was seen clearly enough to measure from
+export const findJoint = <T extends PoseKeypoint>(keypoints: T[], name: string): T | undefined => {
+  const kp = keypoints.find(k => k.name === name);
+  return kp && kp.confidence >= MIN_KEYPOINT_CONFIDENCE ? kp : undefined;
+};
+
+// Halfway between two joints, or the one of them that was seen
+export const jointMidpoint = (keypoints: PoseKeypoint[], a: string, b: string): { x: number; y: number } | null => {
+  const first = findJoint(keypoints, a);
+  const second = findJoint(keypoints, b);
+  if (first && second) return { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+  const either = first ?? second;
+  return either ? { x: either.x, y: either.y } : null;
+};
+
+export const NOT_MEASURABLE_METRICS: SurfMetrics = {
+  bodyRotation: null,
+  centerOfGravity: null,
+  stanceWidth: null,
+  kneeFlexion: null,
+  railEngagement: null,
+  weightDistribution: null,
+  confidence: { bodyRotation: 0, centerOfGravity: 0, stanceWidth: 0, kneeFlexion: 0, railEngagement: 0, weightDistribution: 0 }
+};
+
+// Display helper so unmeasurable metrics read as such instead of as a number
+export const formatMetric = (value: number | null | undefined, digits: number, unit: string = ''): string =>
+  value === null || value === undefined ? 'Not measurable' : `${value.toFixed(digits)}${unit}`;
+
+// Confidence of a measurement is that of its weakest joint; absent joints count as zero
+const jointConfidence = (...joints: Array<PoseKeypoint | undefined>): number =>
+  Math.min(...joints.map(joint => joint?.confidence ?? 0));
+
 // Calculate surf-specific metrics from pose keypoints
-export const calculateSurfMetrics = (keypoints: PoseKeypoint[]): {
-  bodyRotation: number;
-  centerOfGravity: { x: number; y: number };
-  stanceWidth: number;
-  kneeFlexion: number;
-} => {
-  const leftShoulder = keypoints.find(kp => kp.name === 'left_shoulder');
-  const rightShoulder = keypoints.find(kp => kp.name === 'right_shoulder');
-  const leftHip = keypoints.find(kp => kp.name === 'left_hip');
-  const rightHip = keypoints.find(kp => kp.name === 'right_hip');
-  const leftKnee = keypoints.find(kp => kp.name === 'left_knee');
-  const rightKnee = keypoints.find(kp => kp.name === 'right_knee');
-  const leftAnkle = keypoints.find(kp => kp.name === 'left_ankle');
-  const rightAnkle = keypoints.find(kp => kp.name === 'right_ankle');
-
-  // Body Rotation: angle between shoulder line and horizontal
-  let bodyRotation = 0;
-  if (leftShoulder && rightShoulder) {
+// With an orientation, angles are measured in the rider's frame (see toRiderFrame) so regular and
+// goofy riders on lefts and rights get comparable numbers; positions stay in image coordinates.
+// With world landmarks, rotation and knee flexion are true 3D angles instead of image projections.
+// With the scene's geometry, lean and board pitch are also given against the horizon and the wave.
+export const calculateSurfMetrics = (
+  keypoints: PoseKeypoint[],
+  board?: BoardDetection | null,
+  orientation?: RiderOrientation | null,
+  worldKeypoints?: WorldKeypoint[] | null,
+  scene?: SceneGeometry | null
+): SurfMetrics => {
+  const riderKeypoints = toRiderFrame(keypoints, orientation);
+  const angles3d = worldKeypoints && worldKeypoints.length > 0 ? jointAngles3d(worldKeypoints, orientation) : null;
+  // In the rider frame "left" is the lead side
+  const leadShoulder = riderKeypoints.find(kp => kp.name === 'left_shoulder');
+  const backShoulder = riderKeypoints.find(kp => kp.name === 'right_shoulder');
+  const leftHip = riderKeypoints.find(kp => kp.name === 'left_hip');
+  const rightHip = riderKeypoints.find(kp => kp.name === 'right_hip');
+  const leftKnee = riderKeypoints.find(kp => kp.name === 'left_knee');
+  const rightKnee = riderKeypoints.find(kp => kp.name === 'right_knee');
+  const leftAnkle = riderKeypoints.find(kp => kp.name === 'left_ankle');
+  const rightAnkle = riderKeypoints.find(kp => kp.name === 'right_ankle');
+
+  // Body Rotation: angle between the back-to-lead shoulder line and the direction of travel
+  let rotationConfidence = jointConfidence(leadShoulder, backShoulder);
+  let bodyRotation: number | null = null;
+  if (angles3d) {
+    bodyRotation = angles3d.shoulderRotation.value;
+    rotationConfidence = angles3d.shoulderRotation.confidence;
+  } else if (rotationConfidence >= MIN_KEYPOINT_CONFIDENCE) {
     const shoulderAngle = Math.atan2(
-      rightShoulder.y - leftShoulder.y,
-      rightShoulder.x - leftShoulder.x
+      backShoulder.y - leadShoulder.y,
+      leadShoulder.x - backShoulder.x
     );
     bodyRotation = Math.abs(shoulderAngle * (180 / Math.PI));
   }
 
-  // Center of Gravity: average of hip positions
-  let centerOfGravity = { x: 50, y: 50 };
-  if (leftHip && rightHip) {
-    centerOfGravity = {
-      x: (leftHip.x + rightHip.x) / 2,
-      y: (leftHip.y + rightHip.y) / 2
-    };
+  // Center of Gravity: whole-body centre of mass from the segment model
+  const centerOfMass = estimateCenterOfMass(keypoints);
+  const cogConfidence = centerOfMass?.confidence ?? 0;
+  let centerOfGravity: { x: number; y: number } | null = null;
+  if (cogConfidence >= MIN_KEYPOINT_CONFIDENCE) {
+    centerOfGravity = { x: centerOfMass.x, y: centerOfMass.y };
   }
 
+  // Weight Distribution: centre of mass projected between the lead and back foot
+  const leadSide = orientation?.stance === 'goofy' ? 'right' : 'left';
+  const frontFoot = footPoint(keypoints, leadSide);
+  const backFoot = footPoint(keypoints, leadSide === 'left' ? 'right' : 'left');
+  const weightConfidence = Math.min(cogConfidence, frontFoot?.confidence ?? 0, backFoot?.confidence ?? 0);
+  const weightDistribution = centerOfGravity && weightConfidence >= MIN_KEYPOINT_CONFIDENCE
+    ? backFootWeight(centerOfGravity, frontFoot, backFoot)
+    : null;
+
   // Stance Width: distance between ankles
-  let stanceWidth = 0.5;
-  if (leftAnkle && rightAnkle) {
+  const stanceConfidence = jointConfidence(leftAnkle, rightAnkle);
+  let stanceWidth: number | null = null;
+  if (stanceConfidence >= MIN_KEYPOINT_CONFIDENCE) {
     const distance = Math.sqrt(
       Math.pow(rightAnkle.x - leftAnkle.x, 2) + 
       Math.pow(rightAnkle.y - leftAnkle.y, 2)
@@ -182,18 +660,43 @@ export const calculateSurfMetrics = (keypoints: PoseKeypoint[]): {
     stanceWidth = distance / 100; // Normalize to 0-1
   }
 
-  // Knee Flexion: average angle of both knees
-  let kneeFlexion = 45;
-  if (leftHip && leftKnee && leftAnkle) {
-    const leftKneeAngle = calculateAngle(leftHip, leftKnee, leftAnkle);
-    kneeFlexion = 180 - leftKneeAngle; // Convert to flexion angle
+  // Knee Flexion: average over whichever legs are clearly visible
+  const legs = [
+    { hip: leftHip, knee: leftKnee, ankle: leftAnkle },
+    { hip: rightHip, knee: rightKnee, ankle: rightAnkle }
+  ].map(leg => ({ ...leg, confidence: jointConfidence(leg.hip, leg.knee, leg.ankle) }))
+    .filter(leg => leg.confidence >= MIN_KEYPOINT_CONFIDENCE);
+  let kneeFlexion: number | null = null;
+  let kneeConfidence = jointConfidence(leftHip, leftKnee, leftAnkle, rightHip, rightKnee, rightAnkle);
+  if (angles3d) {
+    kneeFlexion = angles3d.kneeAngle.value !== null ? 180 - angles3d.kneeAngle.value : null;
+    kneeConfidence = angles3d.kneeAngle.confidence;
+  } else if (legs.length > 0) {
+    kneeFlexion = legs.reduce((sum, leg) => sum + (180 - calculateAngle(leg.hip, leg.knee, leg.ankle)), 0) / legs.length;
+    kneeConfidence = legs.reduce((sum, leg) => sum + leg.confidence, 0) / legs.length;
   }
 
+  // Rail Engagement: how far the board is tipped onto its rail
+  const railConfidence = board?.confidence ?? 0;
+  const railEngagement = railConfidence >= MIN_KEYPOINT_CONFIDENCE ? board.railEngagement : null;
+
   return {
     bodyRotation,
     centerOfGravity,
     stanceWidth,
-    kneeFlexion
+    kneeFlexion,
+    railEngagement,
+    weightDistribution,
+    confidence: {
+      bodyRotation: rotationConfidence,
+      centerOfGravity: cogConfidence,
+      stanceWidth: stanceConfidence,
+      kneeFlexion: kneeConfidence,
+      railEngagement: railConfidence,
+      weightDistribution: weightConfidence
+    },
+    angleSpace: angles3d ? '3d' : '2d',
+    sceneAngles: scene ? sceneAngles(keypoints, board, scene) : undefined
   };
 };
 
@@ -207,4 +710,10 @@ const calculateAngle = (
   return Math.abs(radians * (180 / Math.PI));
 };
 
-export const poseDetector = new MediaPipePoseDetector();
\ No newline at end of file
+// Exported so the pose worker pool can build the same backend inside its workers
+export const DEFAULT_POSE_BACKEND_ID = (import.meta.env.VITE_POSE_BACKEND as PoseBackendId) || 'mediapipe';
+export const DEFAULT_POSE_BACKEND_OPTIONS: PoseBackendOptions = {
+  modelId: import.meta.env.VITE_POSE_MODEL_ID
+};
+
+export const poseDetector = new PoseDetector(createPoseBackend(DEFAULT_POSE_BACKEND_ID, DEFAULT_POSE_BACKEND_OPTIONS));
\ No newline at end of file
@@ -0,0 +1,339 @@
+import {
+  poseDetector,
+  createPoseBackend,
+  PoseDetector,
+  DEFAULT_POSE_BACKEND_ID,
+  DEFAULT_POSE_BACKEND_OPTIONS,
+  type PoseBackendId,
+  type PoseBackendInfo,
+  type PoseBackendOptions,
+  type PoseResult,
+  type FrameCanvas,
+  type FrameImage,
+  context2d,
+  createFrameCanvas,
+  objectDetections,
+  tracksSurferCrops
+} from './poseDetection';
+import { boardDetector, type BoardDetection } from './boardDetection';
+import type { PoseWorkerRequest, PoseWorkerResponse } from './poseWorkerProtocol';
+
+// -------- CONFIG --------
+const MAX_WORKERS = 2; // every worker loads its own copy of the models, so keep the pool small
+const FRAMES_AHEAD = 2;  // per worker: frames taken from the source before the caller has consumed the earlier ones
+
+// -------- INTERFACES --------
+export interface PoseJobFrame {
+  frameNumber: number;
+  image: FrameImage;
+}
+
+// An array of frames, or a stream (see openFrameStream) that is only read as fast as results are consumed
+export type PoseJobSource<F extends PoseJobFrame = PoseJobFrame> = Iterable<F> | AsyncIterable<F>;
+
+export interface PoseJobResult<F extends PoseJobFrame = PoseJobFrame> {
+  frameIndex: number;
+  frameNumber: number;
+  frame: F; // handed back with its result; bitmaps are the caller's to close
+  poses: PoseResult[];
+  boards: BoardDetection[]; // pick the surfer's with pickBoard once they are tracked
+  error?: string;           // detection failed on this frame; poses and boards are empty
+}
+
+export interface PoseJobProgress {
+  completed: number;
+  total?: number; // unknown for streams unless given in the options
+}
+
+export interface PoseJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: PoseJobProgress) => void;
+  detectBoards?: boolean; // default true
+  total?: number;         // frame count of a stream, for progress
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: Promise<PoseBackendInfo>;
+}
+
+const defaultPoolSize = () =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+const cancelledError = () => new Error('Analysis cancelled');
+
+const closeImage = (image: FrameImage) => {
+  if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) image.close();
+};
+
+// Reads arrays and streams alike, one frame per call
+async function* frameSource<F extends PoseJobFrame>(frames: PoseJobSource<F>): AsyncGenerator<F> {
+  yield* frames;
+}
+
+// -------- POOL --------
+// Every analysis path submits its frames here instead of looping over the detector itself. Frames
+// are analysed in parallel by dedicated workers (or, with surfer crops, each clip on its own worker)
+// but yielded in order, so callers can track the surfer (and ask the user to pick one) as results arrive.
+export class PoseWorkerPool {
+  private workers: PoolWorker[] = [];
+  private nextJobId = 1;
+  private info: PoseBackendInfo | null = null;
+  private readonly detector: PoseDetector; // main-thread detector; the shared one for the default backend
+  private scratch: FrameCanvas | null = null; // main-thread backends take canvases, so bitmaps are drawn here
+
+  constructor(
+    private backend: PoseBackendId = DEFAULT_POSE_BACKEND_ID,
+    private options: PoseBackendOptions = DEFAULT_POSE_BACKEND_OPTIONS,
+    private size: number = defaultPoolSize()
+  ) {
+    this.detector = backend === DEFAULT_POSE_BACKEND_ID && options === DEFAULT_POSE_BACKEND_OPTIONS
+      ? poseDetector
+      : new PoseDetector(createPoseBackend(backend, options));
+  }
+
+  // Replayed keypoints need no model, so they stay on the main thread behind the same API; so does
+  // everything in browsers without workers or OffscreenCanvas
+  get usesWorkers(): boolean {
+    return this.backend !== 'replay' && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  async initialize(): Promise<PoseBackendInfo> {
+    if (!this.usesWorkers) {
+      await this.detector.initialize();
+      this.info = this.detector.getBackendInfo();
+      return this.info;
+    }
+
+    if (this.workers.length === 0) {
+      this.workers = Array.from({ length: this.size }, () => this.spawn());
+    }
+    try {
+      const [info] = await Promise.all(this.workers.map(({ ready }) => ready));
+      this.info = info;
+      return info;
+    } catch (error) {
+      // Start from scratch next time rather than keep half a pool
+      this.terminate();
+      throw error;
+    }
+  }
+
+  getBackendInfo(): PoseBackendInfo {
+    return this.info ?? this.detector.getBackendInfo();
+  }
+
+  terminate(): void {
+    this.workers.forEach(({ worker }) => worker.terminate());
+    this.workers = [];
+    this.info = null;
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(new URL('../workers/pose.worker.ts', import.meta.url), { type: 'module' });
+    const ready = new Promise<PoseBackendInfo>((resolve, reject) => {
+      const onMessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          worker.removeEventListener('message', onMessage);
+          resolve(message.info);
+        } else if (message.type === 'error' && message.jobId === null) {
+          worker.removeEventListener('message', onMessage);
+          reject(new Error(`Pose worker failed to start: ${message.message}`));
+        }
+      };
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', (event) => reject(new Error(`Pose worker failed to load: ${event.message}`)), { once: true });
+    });
+    this.send(worker, { type: 'init', backend: this.backend, options: this.options });
+    return { worker, ready };
+  }
+
+  private send(worker: Worker, message: PoseWorkerRequest, transfer: Transferable[] = []): void {
+    worker.postMessage(message, transfer);
+  }
+
+  // The workers a job's frames are shared between. Surfer crops are tracked frame to frame inside the
+  // backend, so a clip analysed with them stays on one worker; the others take other clips.
+  private jobWorkers(jobId: number): PoolWorker[] {
+    if (!tracksSurferCrops(this.backend, this.options)) return this.workers;
+    return [this.workers[jobId % this.workers.length]];
+  }
+
+  async *detectFrames<F extends PoseJobFrame>(frames: PoseJobSource<F>, options: PoseJobOptions = {}): AsyncGenerator<PoseJobResult<F>> {
+    if (!this.usesWorkers) {
+      yield* this.detectOnMainThread(frames, options);
+      return;
+    }
+
+    const { signal, onProgress, detectBoards = true } = options;
+    const total = Array.isArray(frames) ? frames.length : options.total;
+    await this.initialize();
+
+    const source = frameSource(frames);
+    const jobId = this.nextJobId++;
+    const workers = this.jobWorkers(jobId);
+    const sent = new Map<number, F>();
+    const results = new Map<number, PoseJobResult<F>>();
+    const idle: Worker[] = [];
+    let nextFrame = 0;
+    let yielded = 0;
+    let frameCount: number | null = null; // known once the source runs out
+    let completed = 0;
+    let failure: Error | null = null;
+    let finished = false;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    // Each worker gets one frame at a time, and no more frames are read than the caller is about to
+    // take, so cancelling never leaves a long queue behind and a stream stays a stream
+    const dispatch = async (worker: Worker) => {
+      if (frameCount !== null || signal?.aborted) return;
+      if (nextFrame - yielded >= workers.length * FRAMES_AHEAD) {
+        idle.push(worker);
+        return;
+      }
+      const frameIndex = nextFrame++;
+      const next = await source.next();
+      if (next.done) {
+        frameCount = Math.min(frameCount ?? Infinity, frameIndex);
+        notify();
+        return;
+      }
+      if (finished) {
+        closeImage(next.value.image);
+        return;
+      }
+      sent.set(frameIndex, next.value);
+      const bitmap = await createImageBitmap(next.value.image);
+      this.send(worker, {
+        type: 'detect',
+        jobId,
+        frameIndex,
+        frameNumber: next.value.frameNumber,
+        bitmap,
+        detectBoards
+      }, [bitmap]);
+    };
+    const fail = (error: Error) => {
+      failure = failure ?? error;
+      notify();
+    };
+
+    const listeners = workers.map(({ worker }) => {
+      const onMessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready' || message.jobId !== jobId) return;
+
+        const frame = sent.get(message.frameIndex);
+        sent.delete(message.frameIndex);
+        if (message.type === 'result') {
+          const { frameIndex, poses, boards } = message;
+          results.set(frameIndex, { frameIndex, frameNumber: frame.frameNumber, frame, poses, boards });
+        } else if (message.type === 'error') {
+          const frameIndex = message.frameIndex;
+          results.set(frameIndex, { frameIndex, frameNumber: frame.frameNumber, frame, poses: [], boards: [], error: message.message });
+        } else {
+          closeImage(frame.image);
+        }
+        if (message.type !== 'cancelled') {
+          completed++;
+          onProgress?.({ completed, total });
+        }
+        dispatch(worker).catch(fail);
+        notify();
+      };
+      const onError = (event: ErrorEvent) => fail(new Error(`Pose worker crashed: ${event.message}`));
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      return { worker, onMessage, onError };
+    });
+    const onAbort = () => notify();
+    signal?.addEventListener('abort', onAbort);
+
+    try {
+      workers.forEach(({ worker }) => dispatch(worker).catch(fail));
+
+      for (let frameIndex = 0; frameCount === null || frameIndex < frameCount; frameIndex++) {
+        while (!results.has(frameIndex) && (frameCount === null || frameIndex < frameCount)) {
+          if (signal?.aborted) throw cancelledError();
+          if (failure) throw failure;
+          await new Promise<void>(resolve => { wake = resolve; });
+        }
+        if (!results.has(frameIndex)) break;
+        const result = results.get(frameIndex);
+        results.delete(frameIndex);
+        yielded++;
+        idle.splice(0).forEach(worker => dispatch(worker).catch(fail));
+        yield result;
+      }
+    } finally {
+      // Also reached when the caller stops early: let the workers drop whatever is left of this job
+      if (frameCount === null || completed < frameCount) {
+        workers.forEach(({ worker }) => this.send(worker, { type: 'cancel', jobId }));
+      }
+      listeners.forEach(({ worker, onMessage, onError }) => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+      });
+      signal?.removeEventListener('abort', onAbort);
+      // Workers close their own copies; the frames this job still holds, and the rest of the stream, close here
+      finished = true;
+      sent.forEach(frame => closeImage(frame.image));
+      results.forEach(result => closeImage(result.frame.image));
+      await source.return(undefined);
+    }
+  }
+
+  private toCanvas(image: FrameImage): FrameCanvas {
+    if (!(typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap)) return image as FrameCanvas;
+    if (!this.scratch || this.scratch.width !== image.width || this.scratch.height !== image.height) {
+      this.scratch = createFrameCanvas(image.width, image.height);
+    }
+    context2d(this.scratch).drawImage(image, 0, 0);
+    return this.scratch;
+  }
+
+  private async *detectOnMainThread<F extends PoseJobFrame>(frames: PoseJobSource<F>, options: PoseJobOptions): AsyncGenerator<PoseJobResult<F>> {
+    const { signal, onProgress, detectBoards = true } = options;
+    const total = Array.isArray(frames) ? frames.length : options.total;
+    await this.initialize();
+
+    let frameIndex = 0;
+    for await (const frame of frames) {
+      const { frameNumber, image } = frame;
+      if (signal?.aborted) {
+        closeImage(image);
+        throw cancelledError();
+      }
+
+      let result: PoseJobResult<F>;
+      try {
+        const canvas = this.toCanvas(image);
+        // People and boards come from the same DETR pass
+        const objects = objectDetections(canvas);
+        const poses = await this.detector.detectPoses(canvas, frameNumber, objects);
+        const boards = detectBoards && poses.length > 0
+          ? await boardDetector.detectBoards(canvas, objects).catch(error => {
+              console.error(`Board detection failed on frame ${frameNumber}:`, error);
+              return [];
+            })
+          : [];
+        result = { frameIndex, frameNumber, frame, poses, boards };
+      } catch (error) {
+        result = { frameIndex, frameNumber, frame, poses: [], boards: [], error: error instanceof Error ? error.message : 'Pose detection failed' };
+      }
+
+      onProgress?.({ completed: frameIndex + 1, total });
+      yield result;
+      frameIndex++;
+      // Give React a chance to paint between frames
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+}
+
+export const poseWorkerPool = new PoseWorkerPool();
@@ -0,0 +1,57 @@
+import type { PoseBackendId, PoseBackendInfo, PoseBackendOptions, PoseResult } from './poseDetection';
+import type { BoardDetection } from './boardDetection';
+
+// Messages between PoseWorkerPool (main thread) and pose.worker.ts. Every frame is answered with
+// exactly one result, cancelled or error message carrying its jobId and frameIndex.
+
+// -------- MAIN -> WORKER --------
+export interface PoseWorkerInit {
+  type: 'init';
+  backend: PoseBackendId;
+  options: PoseBackendOptions;
+}
+
+export interface PoseWorkerDetect {
+  type: 'detect';
+  jobId: number;
+  frameIndex: number;
+  frameNumber: number;
+  bitmap: ImageBitmap;  // transferred; the worker closes it when done
+  detectBoards: boolean;
+}
+
+export interface PoseWorkerCancel {
+  type: 'cancel';
+  jobId: number;
+}
+
+export type PoseWorkerRequest = PoseWorkerInit | PoseWorkerDetect | PoseWorkerCancel;
+
+// -------- WORKER -> MAIN --------
+export interface PoseWorkerReady {
+  type: 'ready';
+  info: PoseBackendInfo;
+}
+
+export interface PoseWorkerResult {
+  type: 'result';
+  jobId: number;
+  frameIndex: number;
+  poses: PoseResult[];
+  boards: BoardDetection[]; // every board in the frame; the caller picks the surfer's once tracked
+}
+
+export interface PoseWorkerCancelled {
+  type: 'cancelled';
+  jobId: number;
+  frameIndex: number;
+}
+
+export interface PoseWorkerError {
+  type: 'error';
+  jobId: number | null;     // null when initialisation failed
+  frameIndex: number | null;
+  message: string;
+}
+
+export type PoseWorkerResponse = PoseWorkerReady | PoseWorkerResult | PoseWorkerCancelled | PoseWorkerError;
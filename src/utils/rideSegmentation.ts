@@ -0,0 +1,266 @@
+import { findJoint, jointMidpoint, type PoseKeypoint } from './poseDetection';
+import { toScene, type CameraTransform } from './cameraMotion';
+import { levelUp, type SceneGeometry } from './sceneGeometry';
+import { estimateFrameRate } from './keypointFilter';
+
+// -------- CONFIG --------
+const PRONE_TILT = 55;             // deg of torso from vertical above which the surfer is lying on the board
+const UPRIGHT_TILT = 40;           // deg below which they are sitting or standing
+const MIN_STANDING_LEGS = 0.5;     // knee drop below the hips, in torso lengths, that means standing rather than sitting
+const PADDLE_MIN_SPEED = 2;        // %/s of scene movement that counts as paddling when prone
+const PADDLE_MIN_STROKE = 0.6;     // torso lengths per second of wrist travel, relative to the shoulders
+const SMOOTHING_WINDOW = 0.6;      // s, majority vote over the per-frame labels
+const TAKEOFF_LEAD = 0.5;          // s of paddling before the rider stands that belong to the take-off
+const TAKEOFF_WINDOW = 2.0;        // s, longest pop-up (crouched or unseen frames) before standing
+const RIDE_MERGE_GAP = 1.0;        // s; riding interrupted for less than this (lost detections, spray) is one ride
+const MIN_RIDE_DURATION = 1.5;     // s of riding needed to count as a ride rather than a failed take-off
+const WIPEOUT_WINDOW = 1.5;        // s after the ride ends in which a fall is looked for
+const WIPEOUT_MIN_LOST = 0.5;      // s the rider must vanish for, straight after riding, to count as a fall
+const WIPEOUT_TILT_RATE = 120;     // deg/s of torso tilt that means falling rather than kicking out
+
+// -------- INTERFACES --------
+export type RidePhase = 'waiting' | 'paddling' | 'takeoff' | 'riding' | 'wipeout';
+
+// Frames are indices into the analysed frames; both ends inclusive
+export interface RideSegment {
+  phase: RidePhase;
+  startFrame: number;
+  endFrame: number;
+  start: number; // s
+  end: number;
+}
+
+export interface Ride {
+  index: number;       // 1-based, in order through the clip
+  startFrame: number;  // from the take-off, when one was seen
+  endFrame: number;    // to the end of the wipeout, if it ended in one
+  start: number;       // s
+  end: number;
+  wipeout: boolean;
+}
+
+export interface RideSegmentation {
+  phases: RidePhase[]; // per input frame
+  segments: RideSegment[];
+  rides: Ride[];
+}
+
+export type Posture = 'prone' | 'sitting' | 'standing' | 'crouched';
+
+interface FrameFeatures {
+  posture: Posture | null; // null without a subject
+  tilt: number | null;     // deg of torso from the level vertical
+  center: { x: number; y: number } | null; // hips, in the stabilised scene
+  wrists: { x: number; y: number } | null; // wrists relative to the shoulders, in torso lengths
+}
+
+// -------- UTILS --------
+// Lying, sitting, crouching or standing, from the torso's tilt against the level vertical and how far
+// the knees hang below the hips; null without shoulders and hips
+export function riderPosture(
+  keypoints: PoseKeypoint[],
+  scene: SceneGeometry | null | undefined
+): { posture: Posture; tilt: number } | null {
+  const shoulders = jointMidpoint(keypoints, 'left_shoulder', 'right_shoulder');
+  const hips = jointMidpoint(keypoints, 'left_hip', 'right_hip');
+  if (!shoulders || !hips) return null;
+
+  const torso = { x: shoulders.x - hips.x, y: shoulders.y - hips.y };
+  const torsoLength = Math.hypot(torso.x, torso.y);
+  if (torsoLength === 0) return null;
+  const [upX, upY] = levelUp(scene);
+  // Distances along the level vertical, positive upwards
+  const along = (v: { x: number; y: number }) => v.x * upX + v.y * upY;
+  const tilt = Math.acos(Math.max(-1, Math.min(1, along(torso) / torsoLength))) * (180 / Math.PI);
+
+  const knees = jointMidpoint(keypoints, 'left_knee', 'right_knee');
+  const legDrop = knees ? -along({ x: knees.x - hips.x, y: knees.y - hips.y }) / torsoLength : 0;
+  const posture: Posture = tilt >= PRONE_TILT
+    ? 'prone'
+    : tilt > UPRIGHT_TILT
+      ? 'crouched'
+      : legDrop >= MIN_STANDING_LEGS ? 'standing' : 'sitting';
+  return { posture, tilt };
+}
+
+function frameFeatures(
+  keypoints: PoseKeypoint[] | null,
+  cameraTransform: CameraTransform | null | undefined,
+  scene: SceneGeometry | null | undefined
+): FrameFeatures {
+  const none: FrameFeatures = { posture: null, tilt: null, center: null, wrists: null };
+  if (!keypoints) return none;
+  const body = riderPosture(keypoints, scene);
+  if (!body) return none;
+  const shoulders = jointMidpoint(keypoints, 'left_shoulder', 'right_shoulder');
+  const hips = jointMidpoint(keypoints, 'left_hip', 'right_hip');
+  const torsoLength = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+
+  const wristPoint = jointMidpoint(keypoints, 'left_wrist', 'right_wrist');
+  const wrists = wristPoint && {
+    x: (wristPoint.x - shoulders.x) / torsoLength,
+    y: (wristPoint.y - shoulders.y) / torsoLength
+  };
+
+  return { posture: body.posture, tilt: body.tilt, center: toScene(hips, cameraTransform), wrists };
+}
+
+// Rate of change per second between neighbouring frames that both have the value
+function rate<T>(features: FrameFeatures[], timestamps: number[], i: number, value: (f: FrameFeatures) => T | null, distance: (a: T, b: T) => number): number | null {
+  const j = i > 0 ? i - 1 : i + 1;
+  if (j >= features.length) return null;
+  const a = value(features[i]);
+  const b = value(features[j]);
+  const dt = Math.abs(timestamps[i] - timestamps[j]);
+  return a !== null && b !== null && dt > 0 ? distance(a, b) / dt : null;
+}
+
+const pointDistance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Most common label in a centred window; unknown frames neither vote nor get a label
+function majorityFilter(labels: Array<RidePhase | null>, radius: number): Array<RidePhase | null> {
+  return labels.map((label, i) => {
+    if (!label) return null;
+    const counts = new Map<RidePhase, number>();
+    for (let j = Math.max(0, i - radius); j <= Math.min(labels.length - 1, i + radius); j++) {
+      if (labels[j]) counts.set(labels[j], (counts.get(labels[j]) ?? 0) + 1);
+    }
+    let best = label;
+    let bestCount = counts.get(label) ?? 0;
+    counts.forEach((count, phase) => {
+      if (count > bestCount) {
+        best = phase;
+        bestCount = count;
+      }
+    });
+    return best;
+  });
+}
+
+function toSegments(phases: RidePhase[], timestamps: number[]): RideSegment[] {
+  const segments: RideSegment[] = [];
+  phases.forEach((phase, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.phase === phase) {
+      last.endFrame = i;
+      last.end = timestamps[i];
+    } else {
+      segments.push({ phase, startFrame: i, endFrame: i, start: timestamps[i], end: timestamps[i] });
+    }
+  });
+  return segments;
+}
+
+// -------- SEGMENTATION --------
+// Labels every frame of a session clip from the tracked surfer's posture and movement, then groups
+// take-off, riding and any wipeout into rides. subjects holds the cleaned keypoints per frame (null
+// where there is no surfer), as from cleanSubjectTrajectories.
+export function segmentRides(
+  frames: Array<{ timestamp: number; cameraTransform?: CameraTransform | null; scene?: SceneGeometry | null }>,
+  subjects: Array<PoseKeypoint[] | null>
+): RideSegmentation {
+  const timestamps = frames.map(frame => frame.timestamp);
+  const frameRate = estimateFrameRate(timestamps);
+  const framesIn = (seconds: number) => Math.max(1, Math.round(seconds * frameRate));
+  const features = frames.map((frame, i) => frameFeatures(subjects[i], frame.cameraTransform, frame.scene));
+
+  // Per-frame labels; crouched frames and frames without a subject are settled afterwards
+  const raw: Array<RidePhase | null> = features.map((f, i) => {
+    switch (f.posture) {
+      case 'standing':
+        return 'riding';
+      case 'sitting':
+        return 'waiting';
+      case 'prone': {
+        const speed = rate(features, timestamps, i, g => g.center, pointDistance) ?? 0;
+        const stroke = rate(features, timestamps, i, g => g.wrists, pointDistance) ?? 0;
+        return speed >= PADDLE_MIN_SPEED || stroke >= PADDLE_MIN_STROKE ? 'paddling' : 'waiting';
+      }
+      default:
+        return null;
+    }
+  });
+  // A crouch that carries on from riding (a tube stance, a deep bottom turn) is still riding; only a
+  // crouch that follows paddling is a pop-up
+  let riding = false;
+  raw.forEach((label, i) => {
+    if (features[i].posture === 'crouched') {
+      if (riding) raw[i] = 'riding';
+    } else if (label !== null) {
+      riding = label === 'riding';
+    }
+  });
+  const phases = majorityFilter(raw, Math.floor(framesIn(SMOOTHING_WINDOW) / 2));
+
+  // Riding broken up only briefly is one ride
+  let lastRiding = -1;
+  phases.forEach((phase, i) => {
+    if (phase !== 'riding') return;
+    if (lastRiding >= 0 && i - lastRiding > 1 && timestamps[i] - timestamps[lastRiding] <= RIDE_MERGE_GAP) {
+      phases.fill('riding', lastRiding + 1, i);
+    }
+    lastRiding = i;
+  });
+
+  const runs = toSegments(phases.map(phase => phase ?? 'waiting'), timestamps).filter(run => run.phase === 'riding');
+  const rides: Ride[] = [];
+
+  for (const run of runs) {
+    if (run.end - run.start < MIN_RIDE_DURATION) {
+      // Stood up and straight back down: a take-off that didn't make it
+      phases.fill('takeoff', run.startFrame, run.endFrame + 1);
+      continue;
+    }
+
+    // Take-off: the pop-up (crouched or unseen frames) right before standing, and the last strokes before it
+    let startFrame = run.startFrame;
+    while (startFrame > 0 && phases[startFrame - 1] === null && run.start - timestamps[startFrame - 1] <= TAKEOFF_WINDOW) {
+      startFrame--;
+    }
+    const popUp = timestamps[startFrame];
+    while (startFrame > 0 && phases[startFrame - 1] === 'paddling' && popUp - timestamps[startFrame - 1] <= TAKEOFF_LEAD) {
+      startFrame--;
+    }
+    phases.fill('takeoff', startFrame, run.startFrame);
+
+    // Wipeout: the rider vanishes straight after riding, or the torso drops faster than in a kick-out
+    let endFrame = run.endFrame;
+    let wipeout = false;
+    let seen = run.endFrame + 1;
+    while (seen < phases.length && features[seen].posture === null) seen++;
+    const lostUntil = seen < phases.length ? timestamps[seen] : timestamps[phases.length - 1];
+    if (seen > run.endFrame + 1 && lostUntil - run.end >= WIPEOUT_MIN_LOST) {
+      wipeout = true;
+      endFrame = seen - 1;
+    } else {
+      for (let i = run.endFrame + 1; i < phases.length && timestamps[i] - run.end <= WIPEOUT_WINDOW && phases[i] !== 'riding'; i++) {
+        const tiltRate = rate(features, timestamps, i, f => f.tilt, (a, b) => Math.abs(a - b)) ?? 0;
+        if (tiltRate >= WIPEOUT_TILT_RATE) {
+          wipeout = true;
+          endFrame = i;
+        }
+      }
+      // Unseen frames after a fall stay part of it until the surfer shows up again
+      while (wipeout && endFrame + 1 < phases.length && features[endFrame + 1].posture === null) endFrame++;
+    }
+    phases.fill('wipeout', run.endFrame + 1, endFrame + 1);
+
+    rides.push({
+      index: rides.length + 1,
+      startFrame,
+      endFrame,
+      start: timestamps[startFrame],
+      end: timestamps[endFrame],
+      wipeout
+    });
+  }
+
+  // Frames still unlabelled carry on the waiting or paddling before them; after a ride the surfer is waiting
+  const finalPhases: RidePhase[] = [];
+  phases.forEach((phase, i) => {
+    const previous = finalPhases[i - 1];
+    finalPhases.push(phase ?? (previous === 'paddling' ? 'paddling' : 'waiting'));
+  });
+
+  return { phases: finalPhases, segments: toSegments(finalPhases, timestamps), rides };
+}
@@ -0,0 +1,187 @@
+import { BoundingBox, FrameImage, PoseKeypoint, findJoint } from './poseDetection';
+import type { BoardDetection } from './boardDetection';
+import { toGray, median, type GrayFrame } from './cameraMotion';
+
+// -------- CONFIG --------
+const HORIZON_SEARCH_TOP = 0.03;   // fraction of the height; the horizon is looked for between these rows
+const HORIZON_SEARCH_BOTTOM = 0.7;
+const MIN_HORIZON_EDGE = 12;       // grey-level step that counts as the sky/sea boundary in a column
+const MAX_HORIZON_TILT = 20;       // deg; anything steeper is a wave lip or a headland, not the horizon
+const MIN_HORIZON_SUPPORT = 0.5;   // share of columns that must agree with the fitted line
+const HORIZON_TOLERANCE = 2;       // px, column edge distance from the line still counted as agreeing
+const FACE_RING = 1.0;             // wave-face window: the rider's box grown by this fraction on each side
+const MIN_FACE_COHERENCE = 0.2;    // 0 = no dominant texture direction, 1 = perfectly parallel lines
+
+// -------- INTERFACES --------
+// Angles are measured on percentage coordinates, like every other angle in the pipeline
+export interface HorizonLine {
+  left: { x: number; y: number };  // where the line meets the frame edges, for drawing
+  right: { x: number; y: number };
+  tilt: number;                    // deg against the image horizontal; positive = rising to the right
+  confidence: number;              // share of columns supporting the line
+}
+
+export interface WaveFace {
+  slope: number;      // deg against the horizon: 0 = flat water, 90 = vertical face
+  direction: number;  // deg against the image horizontal, of the face's dominant lines
+  confidence: number; // coherence of the water texture around the rider
+}
+
+export interface SceneGeometry {
+  horizon: HorizonLine | null; // null when no horizon is in shot (close-ups, drone)
+  waveFace: WaveFace | null;
+}
+
+// Lean and board angles against the level horizon and the wave face; null when not measurable
+export interface SceneAngles {
+  torsoLean: number | null;       // deg from true vertical
+  torsoLeanToWave: number | null; // deg from the wave face's normal
+  boardPitch: number | null;      // deg against the horizon (positive = nose up to the right)
+  boardPitchToWave: number | null;
+}
+
+// -------- UTILS --------
+const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+
+// Angle between two directions, ignoring which way either points: 0-90
+function lineAngle(a: number, b: number): number {
+  const diff = Math.abs(((a - b) % 180 + 180) % 180);
+  return diff > 90 ? 180 - diff : diff;
+}
+
+// -------- HORIZON --------
+// Strongest vertical step per column (sky over sea), then a line fitted through the columns that agree
+function detectHorizon(frame: GrayFrame): HorizonLine | null {
+  const top = Math.max(1, Math.floor(frame.height * HORIZON_SEARCH_TOP));
+  const bottom = Math.min(frame.height - 2, Math.floor(frame.height * HORIZON_SEARCH_BOTTOM));
+  const edges: Array<{ x: number; y: number }> = [];
+  for (let x = 1; x < frame.width - 1; x++) {
+    let best = MIN_HORIZON_EDGE;
+    let bestY = -1;
+    for (let y = top; y <= bottom; y++) {
+      // Three columns wide, so a single bright pixel of spray can't win
+      let step = 0;
+      for (let dx = -1; dx <= 1; dx++) {
+        step += Math.abs(frame.data[(y + 1) * frame.width + x + dx] - frame.data[(y - 1) * frame.width + x + dx]);
+      }
+      step /= 3;
+      if (step > best) {
+        best = step;
+        bestY = y;
+      }
+    }
+    if (bestY >= 0) edges.push({ x, y: bestY });
+  }
+  if (edges.length < frame.width * MIN_HORIZON_SUPPORT) return null;
+
+  // Least squares refitted on the columns near the line, so boats and riders above it drop out
+  let inliers = edges;
+  let slope = 0;
+  let intercept = median(edges.map(edge => edge.y));
+  for (let round = 0; round < 3; round++) {
+    const n = inliers.length;
+    const mx = inliers.reduce((sum, e) => sum + e.x, 0) / n;
+    const my = inliers.reduce((sum, e) => sum + e.y, 0) / n;
+    const covariance = inliers.reduce((sum, e) => sum + (e.x - mx) * (e.y - my), 0);
+    const variance = inliers.reduce((sum, e) => sum + (e.x - mx) ** 2, 0);
+    slope = variance > 0 ? covariance / variance : 0;
+    intercept = my - slope * mx;
+    inliers = edges.filter(e => Math.abs(e.y - (slope * e.x + intercept)) <= HORIZON_TOLERANCE);
+    if (inliers.length < 2) return null;
+  }
+
+  const confidence = inliers.length / (frame.width - 2);
+  if (confidence < MIN_HORIZON_SUPPORT) return null;
+
+  const left = { x: 0, y: (intercept / frame.height) * 100 };
+  const right = { x: 100, y: ((slope * (frame.width - 1) + intercept) / frame.height) * 100 };
+  // Image y grows downwards, so a line rising to the right has a negative slope
+  const tilt = toDegrees(Math.atan2(left.y - right.y, right.x - left.x));
+  if (Math.abs(tilt) > MAX_HORIZON_TILT) return null;
+  return { left, right, tilt, confidence };
+}
+
+// -------- WAVE FACE --------
+// Dominant direction of the water texture around the rider (structure tensor), which follows the
+// face's lines of equal height; its angle to the horizon is the local slope
+function detectWaveFace(frame: GrayFrame, subject: BoundingBox, horizonTilt: number): WaveFace | null {
+  const grow = (value: number, size: number) => value - size * FACE_RING;
+  const x0 = Math.max(1, Math.floor((grow(subject.x, subject.width) / 100) * frame.width));
+  const y0 = Math.max(1, Math.floor((grow(subject.y, subject.height) / 100) * frame.height));
+  const x1 = Math.min(frame.width - 2, Math.ceil(((subject.x + subject.width * (1 + FACE_RING)) / 100) * frame.width));
+  const y1 = Math.min(frame.height - 2, Math.ceil(((subject.y + subject.height * (1 + FACE_RING)) / 100) * frame.height));
+  const inSubject = (x: number, y: number) => {
+    const px = (x / frame.width) * 100;
+    const py = (y / frame.height) * 100;
+    return px >= subject.x && px <= subject.x + subject.width && py >= subject.y && py <= subject.y + subject.height;
+  };
+
+  // Gradients are scaled to percentage units so the angle matches the keypoint angles
+  const sx = frame.width / 100;
+  const sy = frame.height / 100;
+  let jxx = 0;
+  let jyy = 0;
+  let jxy = 0;
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      if (inSubject(x, y)) continue;
+      const gx = (frame.data[y * frame.width + x + 1] - frame.data[y * frame.width + x - 1]) * sx;
+      const gy = (frame.data[(y + 1) * frame.width + x] - frame.data[(y - 1) * frame.width + x]) * sy;
+      jxx += gx * gx;
+      jyy += gy * gy;
+      jxy += gx * gy;
+    }
+  }
+  const trace = jxx + jyy;
+  if (trace <= 0) return null;
+  const coherence = Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / trace;
+  if (coherence < MIN_FACE_COHERENCE) return null;
+
+  // Gradients point across the lines; the lines run perpendicular to them
+  const gradientAngle = 0.5 * Math.atan2(2 * jxy, jxx - jyy);
+  const direction = -toDegrees(gradientAngle + Math.PI / 2); // flip y so positive rises to the right
+  const normalized = ((direction + 90) % 180 + 180) % 180 - 90;
+  return { slope: lineAngle(normalized, horizonTilt), direction: normalized, confidence: coherence };
+}
+
+// -------- SCENE --------
+export function detectScene(image: FrameImage, subject?: BoundingBox | null): SceneGeometry {
+  const frame = toGray(image);
+  const horizon = detectHorizon(frame);
+  const waveFace = subject ? detectWaveFace(frame, subject, horizon?.tilt ?? 0) : null;
+  return { horizon, waveFace };
+}
+
+// True "up" in percentage coordinates: the normal of the horizon, or the image vertical without one
+export function levelUp(scene?: SceneGeometry | null): [number, number] {
+  const tilt = toRadians(scene?.horizon?.tilt ?? 0);
+  return [-Math.sin(tilt), -Math.cos(tilt)];
+}
+
+export function sceneAngles(
+  keypoints: PoseKeypoint[],
+  board: BoardDetection | null | undefined,
+  scene: SceneGeometry | null | undefined
+): SceneAngles {
+  const tilt = scene?.horizon?.tilt ?? 0;
+  const face = scene?.waveFace;
+
+  let torsoLean: number | null = null;
+  let torsoLeanToWave: number | null = null;
+  const shoulders = [findJoint(keypoints, 'left_shoulder'), findJoint(keypoints, 'right_shoulder')];
+  const hips = [findJoint(keypoints, 'left_hip'), findJoint(keypoints, 'right_hip')];
+  if ([...shoulders, ...hips].every(Boolean)) {
+    const dx = (shoulders[0].x + shoulders[1].x - hips[0].x - hips[1].x) / 2;
+    const dy = (shoulders[0].y + shoulders[1].y - hips[0].y - hips[1].y) / 2;
+    // Torso direction with y flipped so angles read like the horizon's
+    const torsoDirection = toDegrees(Math.atan2(-dy, dx));
+    torsoLean = lineAngle(torsoDirection, tilt + 90);
+    if (face) torsoLeanToWave = lineAngle(torsoDirection, face.direction + 90);
+  }
+
+  const boardPitch = board ? board.pitch - tilt : null;
+  const boardPitchToWave = board && face ? board.pitch - face.direction : null;
+
+  return { torsoLean, torsoLeanToWave, boardPitch, boardPitchToWave };
+}
@@ -0,0 +1,149 @@
+import { findJoint, type PoseKeypoint } from './poseDetection';
+
+// -------- CONFIG --------
+const MIN_FACING_OFFSET = 0.5;     // nose ahead of the ears (% of frame width) that counts as facing a way
+const MIN_TRAVEL_SHIFT = 1.0;      // hip movement (% of frame width) between frames that counts as travel
+const MIN_FOOT_SEPARATION = 1.0;   // feet closer than this (% of frame width) give no stance vote
+const MIN_TORSO_TWIST = 1.0;       // left/right joint offset (% of frame width) that shows chest or back to camera
+
+// -------- INTERFACES --------
+export type Stance = 'regular' | 'goofy';      // regular = left foot forward
+export type TravelDirection = 'left' | 'right'; // across the image
+export type WaveDirection = 'left' | 'right';   // as surfers name it: the way the rider goes looking at the beach
+export type TurnSide = 'frontside' | 'backside'; // rider facing the wave face, or with their back to it
+
+export interface RiderOrientation {
+  stance: Stance;
+  travel: TravelDirection | null; // null when the frame gave no hint and no neighbour could fill it
+}
+
+export interface ManeuverSide {
+  side: TurnSide | null;
+  wave: WaveDirection | null;
+}
+
+export interface StanceEstimate {
+  stance: Stance;
+  source: 'detected' | 'override';
+  confidence: number;                  // share of frames agreeing with the chosen stance
+  travel: Array<TravelDirection | null>; // per input frame
+}
+
+// -------- UTILS --------
+function midpointX(keypoints: PoseKeypoint[], a: string, b: string): number | null {
+  const first = findJoint(keypoints, a);
+  const second = findJoint(keypoints, b);
+  return first && second ? (first.x + second.x) / 2 : null;
+}
+
+// Surfers look where they are going, so the nose relative to the ears is the most direct travel cue
+function facingDirection(keypoints: PoseKeypoint[]): TravelDirection | null {
+  const nose = findJoint(keypoints, 'nose');
+  const earsX = midpointX(keypoints, 'left_ear', 'right_ear');
+  if (!nose || earsX === null || Math.abs(nose.x - earsX) < MIN_FACING_OFFSET) return null;
+  return nose.x > earsX ? 'right' : 'left';
+}
+
+function leadFootVote(keypoints: PoseKeypoint[], travel: TravelDirection): Stance | null {
+  const leftAnkle = findJoint(keypoints, 'left_ankle');
+  const rightAnkle = findJoint(keypoints, 'right_ankle');
+  if (!leftAnkle || !rightAnkle || Math.abs(leftAnkle.x - rightAnkle.x) < MIN_FOOT_SEPARATION) return null;
+  const leftAhead = travel === 'right' ? leftAnkle.x > rightAnkle.x : leftAnkle.x < rightAnkle.x;
+  return leftAhead ? 'regular' : 'goofy';
+}
+
+// Gaps take the nearest known direction, preferring the previous frame
+function fillTravelGaps(travel: Array<TravelDirection | null>): Array<TravelDirection | null> {
+  const filled = [...travel];
+  let last: TravelDirection | null = null;
+  for (let i = 0; i < filled.length; i++) {
+    if (filled[i]) last = filled[i];
+    else filled[i] = last;
+  }
+  let next: TravelDirection | null = null;
+  for (let i = filled.length - 1; i >= 0; i--) {
+    if (travel[i]) next = travel[i];
+    else if (!filled[i]) filled[i] = next;
+  }
+  return filled;
+}
+
+// -------- DETECTION --------
+// Works out travel direction per frame and which foot leads over the whole clip; null entries are frames without a subject
+export function detectStance(subjects: Array<PoseKeypoint[] | null>, override: Stance | null = null): StanceEstimate {
+  let previousHipX: number | null = null;
+  const travel = fillTravelGaps(subjects.map(keypoints => {
+    if (!keypoints) return null;
+    const hipX = midpointX(keypoints, 'left_hip', 'right_hip');
+    const shift = hipX !== null && previousHipX !== null ? hipX - previousHipX : 0;
+    if (hipX !== null) previousHipX = hipX;
+    return facingDirection(keypoints) ?? (Math.abs(shift) >= MIN_TRAVEL_SHIFT ? (shift > 0 ? 'right' : 'left') : null);
+  }));
+
+  const votes = { regular: 0, goofy: 0 };
+  subjects.forEach((keypoints, i) => {
+    if (!keypoints || !travel[i]) return;
+    const vote = leadFootVote(keypoints, travel[i]);
+    if (vote) votes[vote]++;
+  });
+  const total = votes.regular + votes.goofy;
+
+  if (override) {
+    return { stance: override, source: 'override', confidence: total > 0 ? votes[override] / total : 0, travel };
+  }
+  // Regular is by far the more common stance, so it wins ties and clips with no usable frames
+  const stance: Stance = votes.goofy > votes.regular ? 'goofy' : 'regular';
+  return { stance, source: 'detected', confidence: total > 0 ? votes[stance] / total : 0, travel };
+}
+
+// Re-expresses keypoints as a regular rider travelling to the right, so metrics read the same for
+// every stance and wave: "left_*" becomes the lead side and +x the direction of travel
+export function toRiderFrame<T extends PoseKeypoint>(
+  keypoints: T[],
+  orientation?: RiderOrientation | null,
+  mirrorX: (x: number) => number = x => 100 - x
+): T[] {
+  if (!orientation) return keypoints;
+  const mirror = orientation.travel === 'left';
+  const swap = orientation.stance === 'goofy';
+  if (!mirror && !swap) return keypoints;
+
+  return keypoints.map(kp => ({
+    ...kp,
+    x: mirror ? mirrorX(kp.x) : kp.x,
+    name: swap
+      ? kp.name.replace(/^(left|right)_/, side => side === 'left_' ? 'right_' : 'left_')
+      : kp.name
+  }));
+}
+
+// -------- MANEUVER SIDE --------
+// Assumes the usual camera on the beach, so the wave face points at the lens and "rider goes left
+// in the image" is a right-hander
+export function waveDirection(travel: TravelDirection | null): WaveDirection | null {
+  if (!travel) return null;
+  return travel === 'left' ? 'right' : 'left';
+}
+
+// Frontside riders face the wave and so show the camera their back: their left side appears on the
+// image left. Falls back to stance and wave direction when the torso is side-on to the camera.
+export function classifyManeuverSide(keypoints: PoseKeypoint[], orientation?: RiderOrientation | null): ManeuverSide {
+  const wave = waveDirection(orientation?.travel ?? null);
+
+  const offsets = [['left_shoulder', 'right_shoulder'], ['left_hip', 'right_hip']]
+    .map(([left, right]) => {
+      const l = findJoint(keypoints, left);
+      const r = findJoint(keypoints, right);
+      return l && r ? l.x - r.x : null;
+    })
+    .filter((offset): offset is number => offset !== null);
+  const twist = offsets.length > 0 ? offsets.reduce((sum, offset) => sum + offset, 0) / offsets.length : 0;
+  if (Math.abs(twist) >= MIN_TORSO_TWIST) {
+    return { side: twist < 0 ? 'frontside' : 'backside', wave };
+  }
+
+  if (!orientation || !wave) return { side: null, wave };
+  // Regular riders face a right-hander, goofy riders a left-hander
+  const facesWave = (orientation.stance === 'regular') === (wave === 'right');
+  return { side: facesWave ? 'frontside' : 'backside', wave };
+}
@@ -0,0 +1,126 @@
+import type { BoundingBox, PoseKeypoint } from './poseDetection';
+
+// -------- CONFIG --------
+const CROP_MARGIN = 0.35;        // fraction of the person box added on each side, for limbs and board
+const CROP_MIN_SIZE = 8;         // % of the frame; tiny detections still get some context around them
+const CROP_MATCH_IOU = 0.2;      // overlap needed to treat a detection as the same crop as last frame
+const CROP_SMOOTHING = 0.6;      // weight of the new detection when updating a tracked crop
+const MAX_HELD_FRAMES = 3;       // frames a crop is kept where the rider was last seen (spray, lip)
+export const CROP_TARGET_SIZE = 512; // px, longest side of the crop handed to the pose model
+const MAX_UPSCALE = 4;           // beyond this the crop is mostly interpolation blur
+
+// -------- INTERFACES --------
+export interface SurferCrop {
+  box: BoundingBox; // region of the frame, in PoseKeypoint percentage coordinates
+  held: boolean;    // no detection this frame; the box is where the rider was last seen
+}
+
+interface TrackedCrop {
+  box: BoundingBox;
+  missed: number;
+}
+
+// -------- GEOMETRY --------
+export function boxIoU(a: BoundingBox, b: BoundingBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+function clampToFrame(box: BoundingBox): BoundingBox {
+  const x = Math.max(0, box.x);
+  const y = Math.max(0, box.y);
+  return {
+    x,
+    y,
+    width: Math.min(100, box.x + box.width) - x,
+    height: Math.min(100, box.y + box.height) - y
+  };
+}
+
+// Person box grown by the margin, never smaller than CROP_MIN_SIZE, kept inside the frame
+export function cropAroundPerson(person: BoundingBox): BoundingBox {
+  const width = Math.max(CROP_MIN_SIZE, person.width * (1 + 2 * CROP_MARGIN));
+  const height = Math.max(CROP_MIN_SIZE, person.height * (1 + 2 * CROP_MARGIN));
+  return clampToFrame({
+    x: person.x + person.width / 2 - width / 2,
+    y: person.y + person.height / 2 - height / 2,
+    width,
+    height
+  });
+}
+
+// Scale from frame pixels to crop pixels so the crop's longest side lands on CROP_TARGET_SIZE
+export function cropScale(widthPx: number, heightPx: number): number {
+  return Math.min(MAX_UPSCALE, CROP_TARGET_SIZE / Math.max(widthPx, heightPx, 1));
+}
+
+// Keypoints estimated on a crop (percent of the crop) back into percent of the full frame
+export function keypointsToFrame(keypoints: PoseKeypoint[], crop: BoundingBox): PoseKeypoint[] {
+  return keypoints.map(kp => ({
+    ...kp,
+    x: crop.x + (kp.x / 100) * crop.width,
+    y: crop.y + (kp.y / 100) * crop.height,
+    // MediaPipe's depth is relative to the input width, so it shrinks with the crop
+    ...(kp.z !== undefined ? { z: kp.z * (crop.width / 100) } : {})
+  }));
+}
+
+// -------- TRACKER --------
+// Follows crop boxes from frame to frame: matched detections are smoothed against last frame's crop
+// so the pose model sees a steady window, and a rider lost for a few frames keeps their last crop
+export class CropTracker {
+  private crops: TrackedCrop[] = [];
+
+  update(people: BoundingBox[]): SurferCrop[] {
+    const detected = people.map(cropAroundPerson);
+    const matched = new Set<number>();
+    const next: TrackedCrop[] = [];
+
+    for (const box of detected) {
+      let best = -1;
+      let bestOverlap = CROP_MATCH_IOU;
+      this.crops.forEach((crop, index) => {
+        const overlap = boxIoU(crop.box, box);
+        if (!matched.has(index) && overlap >= bestOverlap) {
+          best = index;
+          bestOverlap = overlap;
+        }
+      });
+
+      if (best < 0) {
+        next.push({ box, missed: 0 });
+        continue;
+      }
+      matched.add(best);
+      const previous = this.crops[best].box;
+      const blend = (from: number, to: number) => from + CROP_SMOOTHING * (to - from);
+      next.push({
+        box: clampToFrame({
+          x: blend(previous.x, box.x),
+          y: blend(previous.y, box.y),
+          width: blend(previous.width, box.width),
+          height: blend(previous.height, box.height)
+        }),
+        missed: 0
+      });
+    }
+
+    this.crops.forEach((crop, index) => {
+      if (!matched.has(index) && crop.missed < MAX_HELD_FRAMES) {
+        next.push({ box: crop.box, missed: crop.missed + 1 });
+      }
+    });
+
+    this.crops = next;
+    return next.map(({ box, missed }) => ({ box, held: missed > 0 }));
+  }
+
+  reset(): void {
+    this.crops = [];
+  }
+}
@@ -0,0 +1,123 @@
+import { BoundingBox, PoseResult, boundingBoxFromKeypoints } from './poseDetection';
+import { boxIoU } from './surferCrop';
+
+// -------- CONFIG --------
+const MIN_IOU = 0.2;             // overlap needed to match a detection to an existing track
+const MAX_CENTER_DISTANCE = 1.5; // fallback match distance, in track box diagonals
+const MAX_MISSED_FRAMES = 5;     // frames a track survives without a matching detection
+
+interface Track {
+  id: number;
+  box: BoundingBox;
+  missed: number;
+}
+
+// -------- UTILS --------
+function centerDistance(a: BoundingBox, b: BoundingBox): number {
+  const dx = (a.x + a.width / 2) - (b.x + b.width / 2);
+  const dy = (a.y + a.height / 2) - (b.y + b.height / 2);
+  const diagonal = Math.sqrt(a.width * a.width + a.height * a.height) + 1e-9;
+  return Math.sqrt(dx * dx + dy * dy) / diagonal;
+}
+
+function containsPoint(box: BoundingBox, x: number, y: number): boolean {
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height;
+}
+
+// -------- TRACKER --------
+// Assigns stable IDs to people across frames so only the chosen surfer feeds the analysis
+export class SurferTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private subjectId: number | null = null;
+
+  update(poses: PoseResult[]): PoseResult[] {
+    const detections = poses.map(pose => ({
+      pose,
+      box: pose.boundingBox || boundingBoxFromKeypoints(pose.keypoints)
+    }));
+
+    // Greedy matching: best IoU first, then closest centres for fast-moving riders
+    const candidates: Array<{ track: number; detection: number; cost: number }> = [];
+    this.tracks.forEach((track, t) => {
+      detections.forEach(({ box }, d) => {
+        if (!box) return;
+        const overlap = boxIoU(track.box, box);
+        if (overlap >= MIN_IOU) {
+          candidates.push({ track: t, detection: d, cost: 1 - overlap });
+          return;
+        }
+        const distance = centerDistance(track.box, box);
+        if (distance <= MAX_CENTER_DISTANCE) {
+          candidates.push({ track: t, detection: d, cost: 1 + distance });
+        }
+      });
+    });
+    candidates.sort((a, b) => a.cost - b.cost);
+
+    const trackIds = new Array<number | undefined>(detections.length);
+    const matchedTracks = new Set<number>();
+    for (const { track, detection } of candidates) {
+      if (matchedTracks.has(track) || trackIds[detection] !== undefined) continue;
+      matchedTracks.add(track);
+      trackIds[detection] = this.tracks[track].id;
+      this.tracks[track].box = detections[detection].box;
+      this.tracks[track].missed = 0;
+    }
+
+    this.tracks.forEach((track, t) => {
+      if (!matchedTracks.has(t)) track.missed++;
+    });
+    this.tracks = this.tracks.filter(track => track.missed <= MAX_MISSED_FRAMES);
+
+    detections.forEach(({ box }, d) => {
+      if (trackIds[d] !== undefined || !box) return;
+      const id = this.nextId++;
+      this.tracks.push({ id, box, missed: 0 });
+      trackIds[d] = id;
+    });
+
+    return detections.map(({ pose, box }, d) => ({
+      ...pose,
+      boundingBox: box,
+      trackId: trackIds[d]
+    }));
+  }
+
+  // Choose the surfer under a tap/click (percentage coordinates), preferring the tightest box
+  selectSubjectAt(x: number, y: number, trackedPoses: PoseResult[]): number | null {
+    const hits = trackedPoses
+      .filter(pose => pose.trackId !== undefined && pose.boundingBox && containsPoint(pose.boundingBox, x, y))
+      .sort((a, b) => a.boundingBox.width * a.boundingBox.height - b.boundingBox.width * b.boundingBox.height);
+
+    if (hits.length === 0) return null;
+    this.subjectId = hits[0].trackId;
+    return this.subjectId;
+  }
+
+  selectSubject(trackId: number): void {
+    this.subjectId = trackId;
+  }
+
+  getSubjectId(): number | null {
+    return this.subjectId;
+  }
+
+  // Returns the subject's pose; without an explicit choice the largest (closest) rider is followed
+  getSubject(trackedPoses: PoseResult[]): PoseResult | null {
+    if (this.subjectId === null) {
+      const largest = [...trackedPoses]
+        .filter(pose => pose.trackId !== undefined && pose.boundingBox)
+        .sort((a, b) => b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height)[0];
+      if (!largest) return null;
+      this.subjectId = largest.trackId;
+    }
+    return trackedPoses.find(pose => pose.trackId === this.subjectId) || null;
+  }
+
+  reset(): void {
+    this.tracks = [];
+    this.nextId = 1;
+    this.subjectId = null;
+  }
+}
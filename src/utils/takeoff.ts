@@ -0,0 +1,187 @@
+import { findJoint, jointMidpoint, type PoseKeypoint } from './poseDetection';
+import { levelUp, type SceneGeometry } from './sceneGeometry';
+import { riderPosture, type RideSegmentation } from './rideSegmentation';
+import { waveDirection, type RiderOrientation, type WaveDirection } from './stance';
+import { bandPoints, type ScoreBand, type TurnScore } from './TurnAnalyzer';
+
+// -------- CONFIG --------
+const KNEELING_SHIN_ANGLE = 30;    // deg from level; a flatter shin under raised hips is a knee on the board
+const MIN_KNEELING_HIPS = 0.3;     // hips above that knee, in torso lengths, so lying flat doesn't count
+const LANDING_WINDOW = 0.3;        // s after standing in which the landing stance is read
+const SETTLE_WINDOW = 1.5;         // s of riding after the pop-up whose median stance width is the rider's own
+
+// Same [ideal, good, acceptable] bands as turns; a band is worth its points inside ideal and one less per step out
+const TAKEOFF_BANDS: Record<'duration' | 'hands' | 'landing', ScoreBand> = {
+  duration: { ideal: [0, 0.8],     good: [0, 1.2],     acceptable: [0, 1.6] },      // s from prone to standing
+  hands:    { ideal: [0.5, 1.0],   good: [0.3, 1.2],   acceptable: [0.3, 1.2] },    // 0 = at the hips, 1 = at the shoulders
+  landing:  { ideal: [0.85, 1.15], good: [0.7, 1.3],   acceptable: [0.55, 1.45] }   // landing stance / riding stance width
+};
+
+// -------- INTERFACES --------
+export interface TakeoffResult {
+  wave_direction: WaveDirection | null;
+  startFrame: number; // last prone frame; indices into the analysed frames
+  endFrame: number;   // first frame standing
+  start: number;      // s
+  end: number;
+  pop_up: TurnScore & {
+    max_score: number; // 10, less whatever couldn't be seen
+    frames: number;
+    duration: number;  // s
+  };
+  passed_through_knees: boolean | null; // null when the legs were hidden throughout the pop-up
+}
+
+// -------- UTILS --------
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function torsoOf(keypoints: PoseKeypoint[]): { shoulders: { x: number; y: number }; hips: { x: number; y: number }; length: number } | null {
+  const shoulders = jointMidpoint(keypoints, 'left_shoulder', 'right_shoulder');
+  const hips = jointMidpoint(keypoints, 'left_hip', 'right_hip');
+  if (!shoulders || !hips) return null;
+  const length = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+  return length > 0 ? { shoulders, hips, length } : null;
+}
+
+// Where the hands push from along the torso: 0 at the hips, 1 at the shoulders
+function handPosition(keypoints: PoseKeypoint[]): number | null {
+  const torso = torsoOf(keypoints);
+  const wrists = jointMidpoint(keypoints, 'left_wrist', 'right_wrist');
+  if (!torso || !wrists) return null;
+  const axis = { x: torso.shoulders.x - torso.hips.x, y: torso.shoulders.y - torso.hips.y };
+  return ((wrists.x - torso.hips.x) * axis.x + (wrists.y - torso.hips.y) * axis.y) / (torso.length * torso.length);
+}
+
+// Ankle separation in torso lengths, so zoom doesn't change it
+function stanceWidth(keypoints: PoseKeypoint[]): number | null {
+  const torso = torsoOf(keypoints);
+  const left = findJoint(keypoints, 'left_ankle');
+  const right = findJoint(keypoints, 'right_ankle');
+  return torso && left && right ? Math.hypot(left.x - right.x, left.y - right.y) / torso.length : null;
+}
+
+// True when a shin lies nearly flat with the hips held above its knee; null when no leg is visible
+function kneeling(keypoints: PoseKeypoint[], scene: SceneGeometry | null | undefined): boolean | null {
+  const torso = torsoOf(keypoints);
+  if (!torso) return null;
+  const [upX, upY] = levelUp(scene);
+  const up = (v: { x: number; y: number }) => v.x * upX + v.y * upY;
+  let seen = false;
+  for (const side of ['left', 'right']) {
+    const knee = findJoint(keypoints, `${side}_knee`);
+    const ankle = findJoint(keypoints, `${side}_ankle`);
+    if (!knee || !ankle) continue;
+    seen = true;
+    const shin = { x: ankle.x - knee.x, y: ankle.y - knee.y };
+    const shinLength = Math.hypot(shin.x, shin.y);
+    if (shinLength === 0) continue;
+    const shinAngle = Math.asin(Math.min(1, Math.abs(up(shin)) / shinLength)) * (180 / Math.PI);
+    const hipsAbove = up({ x: torso.hips.x - knee.x, y: torso.hips.y - knee.y }) / torso.length;
+    if (shinAngle < KNEELING_SHIN_ANGLE && hipsAbove >= MIN_KNEELING_HIPS) return true;
+  }
+  return seen ? false : null;
+}
+
+// -------- ANALYSIS --------
+// Scores how each ride's surfer got to their feet: the pop-up runs from the last frame lying on the
+// board to the first frame standing, as labelled by ride segmentation. subjects holds the cleaned
+// keypoints per frame (null where there is no surfer), as from cleanSubjectTrajectories.
+export function analyzeTakeoffs(
+  frames: Array<{ timestamp: number; scene?: SceneGeometry | null }>,
+  subjects: Array<PoseKeypoint[] | null>,
+  orientations: Array<RiderOrientation | null>,
+  segmentation: RideSegmentation
+): TakeoffResult[] {
+  const timestamps = frames.map(frame => frame.timestamp);
+  const results: TakeoffResult[] = [];
+
+  for (const ride of segmentation.rides) {
+    const endFrame = segmentation.phases.indexOf('riding', ride.startFrame);
+    if (endFrame < 0 || endFrame > ride.endFrame) continue;
+
+    // Pop-up starts on the last prone frame before standing; without one the clip began mid take-off
+    let startFrame = -1;
+    for (let i = endFrame - 1; i >= ride.startFrame; i--) {
+      const body = subjects[i] && riderPosture(subjects[i], frames[i].scene);
+      if (body?.posture === 'prone') {
+        startFrame = i;
+        break;
+      }
+    }
+    if (startFrame < 0) continue;
+
+    const popUp = subjects.slice(startFrame, endFrame).map((keypoints, k) => ({ keypoints, scene: frames[startFrame + k].scene }));
+    const duration = timestamps[endFrame] - timestamps[startFrame];
+
+    const hands = median(popUp.map(({ keypoints }) => keypoints && handPosition(keypoints)).filter((v): v is number => v !== null));
+    const kneelings = popUp
+      .filter(({ keypoints, scene }) => keypoints && riderPosture(keypoints, scene)?.posture !== 'prone')
+      .map(({ keypoints, scene }) => kneeling(keypoints, scene))
+      .filter((v): v is boolean => v !== null);
+    const throughKnees = kneelings.length > 0 ? kneelings.some(Boolean) : null;
+
+    // Landing stance against the stance the rider settles into once riding
+    const widths = (from: number, to: number) => {
+      const found: number[] = [];
+      for (let i = endFrame; i <= ride.endFrame && timestamps[i] - timestamps[endFrame] <= to; i++) {
+        if (timestamps[i] - timestamps[endFrame] < from || segmentation.phases[i] !== 'riding' || !subjects[i]) continue;
+        const width = stanceWidth(subjects[i]);
+        if (width !== null) found.push(width);
+      }
+      return found;
+    };
+    const landing = median(widths(0, LANDING_WINDOW));
+    const settled = median(widths(LANDING_WINDOW, SETTLE_WINDOW));
+    const landingRatio = landing !== null && settled ? landing / settled : null;
+
+    let score = 0;
+    let maxScore = 0;
+    const detail: Record<string, [number, number]> = {};
+
+    // Quick pop-up (3 points max)
+    const timePts = bandPoints(duration, TAKEOFF_BANDS.duration, 3);
+    score += timePts;
+    maxScore += 3;
+    detail["pop_up_time"] = [timePts, Math.round(duration * 100) / 100];
+
+    // Hands under the chest, not up by the shoulders or back by the hips (2 points max)
+    if (hands !== null) {
+      const handPts = bandPoints(hands, TAKEOFF_BANDS.hands, 2);
+      score += handPts;
+      maxScore += 2;
+      detail["hand_placement"] = [handPts, Math.round(hands * 100) / 100];
+    }
+
+    // Feet landing at riding stance width, with no shuffling afterwards (3 points max)
+    if (landingRatio !== null) {
+      const landingPts = bandPoints(landingRatio, TAKEOFF_BANDS.landing, 3);
+      score += landingPts;
+      maxScore += 3;
+      detail["foot_landing"] = [landingPts, Math.round(landingRatio * 100) / 100];
+    }
+
+    // Straight to the feet, not via the knees (2 points max)
+    if (throughKnees !== null) {
+      const kneePts = throughKnees ? 0 : 2;
+      score += kneePts;
+      maxScore += 2;
+      detail["no_knees"] = [kneePts, throughKnees ? 1 : 0];
+    }
+
+    results.push({
+      wave_direction: waveDirection(orientations[endFrame]?.travel ?? null),
+      startFrame,
+      endFrame,
+      start: timestamps[startFrame],
+      end: timestamps[endFrame],
+      pop_up: { score, max_score: maxScore, detail, frames: endFrame - startFrame + 1, duration },
+      passed_through_knees: throughKnees
+    });
+  }
+
+  return results;
+}
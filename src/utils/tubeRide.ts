@@ -0,0 +1,256 @@
+import { findJoint, jointMidpoint, type PoseKeypoint } from './poseDetection';
+import { toScene, type CameraTransform } from './cameraMotion';
+import { levelUp, type SceneGeometry } from './sceneGeometry';
+import { toRiderFrame, classifyManeuverSide, type RiderOrientation, type TurnSide, type WaveDirection } from './stance';
+import { bandPoints, type ScoreBand, type TurnScore } from './TurnAnalyzer';
+
+// -------- CONFIG --------
+const BODY_JOINTS = [
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+];
+const MAX_UPRIGHT_TILT = 55;       // deg of torso from vertical; beyond this the surfer is lying down, not crouching
+const MAX_TUBE_KNEE = 120;         // deg; knees bent at least this far are a compressed stance
+const MAX_TUBE_HIP_HEIGHT = 1.1;   // hips above the ankles, in torso lengths, at or below which the stance is low
+const MIN_OCCLUSION = 0.25;        // share of body joints hidden that means the lip or curtain covers part of the surfer
+const MIN_COVERED_SHARE = 0.4;     // share of a tube ride's frames in which the surfer must be partly or fully hidden
+const MIN_TUBE_DURATION = 1.0;     // s of sustained low stance
+const MAX_DROPOUT = 0.75;          // s the surfer can vanish completely (deep in the barrel) without ending it
+
+// Same [ideal, good, acceptable] bands as turns; a band is worth its points inside ideal and one less per step out
+const TUBE_BANDS: Record<'knee' | 'hipHeight' | 'trailingHand' | 'wobble' | 'tiltStd', ScoreBand> = {
+  knee:         { ideal: [70, 105],   good: [60, 115],   acceptable: [50, 125] },   // deg, mean knee angle
+  hipHeight:    { ideal: [0.4, 0.9],  good: [0.3, 1.0],  acceptable: [0.2, 1.1] },   // used when the knees stay hidden
+  trailingHand: { ideal: [-1.0, 0.2], good: [-1.3, 0.5], acceptable: [-1.3, 0.5] }, // torso lengths above the hips
+  wobble:       { ideal: [0, 0.15],   good: [0, 0.25],   acceptable: [0, 0.35] },   // torso lengths of hip wander
+  tiltStd:      { ideal: [0, 5],      good: [0, 8],      acceptable: [0, 8] }       // deg of torso tilt spread
+};
+
+// -------- INTERFACES --------
+export interface TubeRideResult {
+  side: TurnSide | null;
+  wave_direction: WaveDirection | null;
+  startFrame: number; // indices into the analysed frames, both ends inclusive
+  endFrame: number;
+  start: number;      // s
+  end: number;
+  tube_ride: TurnScore & {
+    max_score: number; // 10, less whatever the occlusion left unmeasurable
+    frames: number;
+    duration: number;  // s
+  };
+  coverage: number;    // share of frames with the surfer partly or fully hidden
+  dropout: number;     // s the surfer was hidden completely
+}
+
+type TubeLabel = 'tube' | 'low' | 'hidden' | 'open';
+
+interface TubeFeatures {
+  label: TubeLabel;
+  occluded: boolean;
+  knee: number | null;          // deg, mean of the visible legs
+  hipHeight: number | null;     // torso lengths of the hips above the ankles
+  trailingHand: number | null;  // torso lengths of the rear wrist above the hips
+  tilt: number | null;          // deg of torso from the level vertical
+  hips: { x: number; y: number } | null; // in the stabilised scene
+  torsoLength: number | null;
+}
+
+// -------- UTILS --------
+function angleAt(a: PoseKeypoint, b: PoseKeypoint, c: PoseKeypoint): number {
+  const ba = [a.x - b.x, a.y - b.y];
+  const bc = [c.x - b.x, c.y - b.y];
+  const cos = (ba[0] * bc[0] + ba[1] * bc[1]) / (Math.hypot(ba[0], ba[1]) * Math.hypot(bc[0], bc[1]) + 1e-9);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) * (180 / Math.PI);
+}
+
+const mean = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+function std(values: number[]): number | null {
+  const m = mean(values);
+  return m === null ? null : Math.sqrt(values.reduce((sum, value) => sum + (value - m) ** 2, 0) / values.length);
+}
+
+// Spread around a straight-line trend, so riding through the barrel doesn't count as wobble
+function detrendedStd(times: number[], values: number[]): number | null {
+  if (values.length < 3) return null;
+  const mt = mean(times);
+  const mv = mean(values);
+  const variance = times.reduce((sum, t) => sum + (t - mt) ** 2, 0);
+  const slope = variance > 0 ? times.reduce((sum, t, i) => sum + (t - mt) * (values[i] - mv), 0) / variance : 0;
+  return std(values.map((value, i) => value - (mv + slope * (times[i] - mt))));
+}
+
+function tubeFeatures(
+  keypoints: PoseKeypoint[] | null,
+  orientation: RiderOrientation | null,
+  cameraTransform: CameraTransform | null | undefined,
+  scene: SceneGeometry | null | undefined
+): TubeFeatures {
+  const hidden: TubeFeatures = {
+    label: 'hidden', occluded: true, knee: null, hipHeight: null, trailingHand: null, tilt: null, hips: null, torsoLength: null
+  };
+  if (!keypoints) return hidden;
+
+  const visible = BODY_JOINTS.filter(name => findJoint(keypoints, name)).length;
+  const occluded = 1 - visible / BODY_JOINTS.length >= MIN_OCCLUSION;
+  const shoulders = jointMidpoint(keypoints, 'left_shoulder', 'right_shoulder');
+  const hips = jointMidpoint(keypoints, 'left_hip', 'right_hip');
+  if (!shoulders || !hips) return hidden;
+
+  const torsoLength = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+  if (torsoLength === 0) return hidden;
+  const [upX, upY] = levelUp(scene);
+  // Distances along the level vertical, positive upwards
+  const height = (from: { x: number; y: number }, to: { x: number; y: number }) =>
+    ((to.x - from.x) * upX + (to.y - from.y) * upY) / torsoLength;
+  const tilt = Math.acos(Math.max(-1, Math.min(1, height(hips, shoulders)))) * (180 / Math.PI);
+
+  const legs = [['left_hip', 'left_knee', 'left_ankle'], ['right_hip', 'right_knee', 'right_ankle']]
+    .map(names => names.map(name => findJoint(keypoints, name)))
+    .filter(leg => leg.every(Boolean));
+  const knee = mean(legs.map(([hip, kneeJoint, ankle]) => angleAt(hip, kneeJoint, ankle)));
+  const ankles = jointMidpoint(keypoints, 'left_ankle', 'right_ankle');
+  const hipHeight = ankles ? height(ankles, hips) : null;
+
+  // The rear hand, in the rider's frame where "right_*" is the trailing side
+  const rearWrist = findJoint(toRiderFrame(keypoints, orientation), 'right_wrist');
+  const trailingHand = rearWrist ? height(hips, rearWrist) : null;
+
+  const compressed = knee !== null ? knee <= MAX_TUBE_KNEE : hipHeight !== null && hipHeight <= MAX_TUBE_HIP_HEIGHT;
+  const measurable = knee !== null || hipHeight !== null;
+  const label: TubeLabel = tilt > MAX_UPRIGHT_TILT
+    ? 'open'
+    : !measurable
+      ? (occluded ? 'hidden' : 'open')
+      : compressed ? (occluded ? 'tube' : 'low') : 'open';
+
+  return { label, occluded, knee, hipHeight, trailingHand, tilt, hips: toScene(hips, cameraTransform), torsoLength };
+}
+
+function scoreTubeRide(features: TubeFeatures[], timestamps: number[]): [number, number, Record<string, [number, number]>] {
+  let score = 0;
+  let maxScore = 0;
+  const detail: Record<string, [number, number]> = {};
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+  const values = (pick: (f: TubeFeatures) => number | null) =>
+    features.map(pick).filter((value): value is number => value !== null);
+
+  // Compression depth (3 points max); hip height stands in when the legs are hidden throughout
+  const knee = mean(values(f => f.knee));
+  const hipHeight = mean(values(f => f.hipHeight));
+  if (knee !== null) {
+    const pts = bandPoints(knee, TUBE_BANDS.knee, 3);
+    score += pts;
+    maxScore += 3;
+    detail["compression"] = [pts, round(knee, 1)];
+  } else if (hipHeight !== null) {
+    const pts = bandPoints(hipHeight, TUBE_BANDS.hipHeight, 3);
+    score += pts;
+    maxScore += 3;
+    detail["hip_height"] = [pts, round(hipHeight, 2)];
+  }
+
+  // Trailing hand low by the face for balance (2 points max)
+  const hand = mean(values(f => f.trailingHand));
+  if (hand !== null) {
+    const pts = bandPoints(hand, TUBE_BANDS.trailingHand, 2);
+    score += pts;
+    maxScore += 2;
+    detail["trailing_hand"] = [pts, round(hand, 2)];
+  }
+
+  // Hips holding their line through the covered period (3 points max)
+  const tracked = features
+    .map((f, i) => ({ f, t: timestamps[i] }))
+    .filter(({ f }) => f.hips !== null && f.torsoLength !== null);
+  const torso = mean(tracked.map(({ f }) => f.torsoLength));
+  const times = tracked.map(({ t }) => t);
+  const wanderX = detrendedStd(times, tracked.map(({ f }) => f.hips.x));
+  const wanderY = detrendedStd(times, tracked.map(({ f }) => f.hips.y));
+  if (torso && wanderX !== null && wanderY !== null) {
+    const wobble = Math.hypot(wanderX, wanderY) / torso;
+    const pts = bandPoints(wobble, TUBE_BANDS.wobble, 3);
+    score += pts;
+    maxScore += 3;
+    detail["stability"] = [pts, round(wobble, 2)];
+  }
+
+  // Steady upper body (2 points max)
+  const tiltStd = values(f => f.tilt).length >= 3 ? std(values(f => f.tilt)) : null;
+  if (tiltStd !== null) {
+    const pts = bandPoints(tiltStd, TUBE_BANDS.tiltStd, 2);
+    score += pts;
+    maxScore += 2;
+    detail["posture_steadiness"] = [pts, round(tiltStd, 1)];
+  }
+
+  return [score, maxScore, detail];
+}
+
+// -------- DETECTION --------
+// Finds stretches where the surfer holds a compressed, low stance while the wave hides part of them,
+// then scores the stance over that covered period. Frames where the surfer vanishes completely are
+// bridged for up to MAX_DROPOUT, since deep in the barrel the pose is often lost. subjects holds the
+// cleaned keypoints per frame (null where there is no surfer), as from cleanSubjectTrajectories.
+export function analyzeTubeRides(
+  frames: Array<{ timestamp: number; cameraTransform?: CameraTransform | null; scene?: SceneGeometry | null }>,
+  subjects: Array<PoseKeypoint[] | null>,
+  orientations: Array<RiderOrientation | null>
+): TubeRideResult[] {
+  const timestamps = frames.map(frame => frame.timestamp);
+  const features = frames.map((frame, i) => tubeFeatures(subjects[i], orientations[i], frame.cameraTransform, frame.scene));
+  const results: TubeRideResult[] = [];
+
+  let i = 0;
+  while (i < features.length) {
+    if (features[i].label !== 'tube' && features[i].label !== 'low') {
+      i++;
+      continue;
+    }
+
+    // Extend through low and covered frames, bridging complete dropouts that don't last too long
+    const startFrame = i;
+    let endFrame = i;
+    let j = i + 1;
+    while (j < features.length) {
+      const label = features[j].label;
+      if (label === 'tube' || label === 'low') {
+        endFrame = j;
+      } else if (label !== 'hidden' || timestamps[j] - timestamps[endFrame] > MAX_DROPOUT) {
+        break;
+      }
+      j++;
+    }
+    i = endFrame + 1;
+
+    const span = features.slice(startFrame, endFrame + 1);
+    const duration = timestamps[endFrame] - timestamps[startFrame];
+    const coverage = span.filter(f => f.occluded).length / span.length;
+    if (duration < MIN_TUBE_DURATION || coverage < MIN_COVERED_SHARE) continue;
+
+    let dropout = 0;
+    for (let k = startFrame + 1; k <= endFrame; k++) {
+      if (!subjects[k]) dropout += timestamps[k] - timestamps[k - 1];
+    }
+
+    const [score, maxScore, detail] = scoreTubeRide(span, timestamps.slice(startFrame, endFrame + 1));
+    const first = subjects.slice(startFrame, endFrame + 1).findIndex(Boolean);
+    const { side, wave } = classifyManeuverSide(subjects[startFrame + first], orientations[startFrame + first]);
+
+    results.push({
+      side,
+      wave_direction: wave,
+      startFrame,
+      endFrame,
+      start: timestamps[startFrame],
+      end: timestamps[endFrame],
+      tube_ride: { score, max_score: maxScore, detail, frames: span.length, duration },
+      coverage,
+      dropout
+    });
+  }
+
+  return results;
+}
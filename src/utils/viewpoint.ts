@@ -0,0 +1,123 @@
+import { findJoint, type PoseKeypoint, type SurfMetricName, type WorldKeypoint } from './poseDetection';
+import type { AngleSpace } from './kinematics3d';
+
+// -------- CONFIG --------
+const OVERHEAD_TORSO_RATIO = 0.6;  // image torso length / shoulder width below which the torso is seen from above
+const OVERHEAD_TORSO_TILT = 60;    // deg, 3D torso pointing this far into the camera
+const SIDE_ON_FOOT_SPREAD = 0.5;   // horizontal foot spread / leg length that shows the stance across the frame
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+// Angle metrics that a foreshortening view distorts; world landmarks take the camera out of them
+const ANGLE_METRICS: SurfMetricName[] = ['bodyRotation', 'kneeFlexion'];
+
+// What each view can't be trusted for when measured on the image
+const UNRELIABLE_METRICS: Record<CameraViewpoint, SurfMetricName[]> = {
+  'side-on': [],
+  // Travel runs into the picture: the stance and shoulder line collapse and the board is seen end-on
+  'front-on': ['bodyRotation', 'stanceWidth', 'kneeFlexion', 'weightDistribution', 'railEngagement'],
+  'from-behind': ['bodyRotation', 'stanceWidth', 'kneeFlexion', 'weightDistribution', 'railEngagement'],
+  // Legs point at the camera and the board's roll no longer changes its apparent width
+  'overhead': ['kneeFlexion', 'railEngagement']
+};
+
+// -------- INTERFACES --------
+// Relative to the surfer's line: side-on is the usual beach or channel angle across the wave,
+// front-on and from-behind are boat or water shots along it, overhead is a drone
+export type CameraViewpoint = 'side-on' | 'front-on' | 'from-behind' | 'overhead';
+
+export interface ViewpointEstimate {
+  viewpoint: CameraViewpoint;
+  confidence: number;                  // share of usable frames agreeing with it
+  angleSpace: AngleSpace;              // how most frames' angles were measured
+  unreliableMetrics: SurfMetricName[]; // metrics this view distorts; shown with a warning, not scored
+}
+
+// -------- UTILS --------
+// -------- PER FRAME --------
+// Image cues; x is scaled by the aspect ratio so horizontal and vertical distances compare
+function viewFromImage(keypoints: PoseKeypoint[], aspectRatio: number): CameraViewpoint | null {
+  const point = (name: string) => {
+    const kp = findJoint(keypoints, name);
+    return kp ? { x: kp.x * aspectRatio, y: kp.y, confidence: kp.confidence } : null;
+  };
+  const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+  const [leftShoulder, rightShoulder, leftHip, rightHip, leftAnkle, rightAnkle] =
+    ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_ankle', 'right_ankle'].map(point);
+
+  if (leftShoulder && rightShoulder && leftHip && rightHip) {
+    const shoulderWidth = distance(leftShoulder, rightShoulder);
+    const torsoLength = distance(
+      { x: (leftShoulder.x + rightShoulder.x) / 2, y: (leftShoulder.y + rightShoulder.y) / 2 },
+      { x: (leftHip.x + rightHip.x) / 2, y: (leftHip.y + rightHip.y) / 2 }
+    );
+    if (shoulderWidth > 0 && torsoLength < OVERHEAD_TORSO_RATIO * shoulderWidth) return 'overhead';
+  }
+
+  if (!leftHip || !rightHip || !leftAnkle || !rightAnkle) return null;
+  const legLength = (distance(leftHip, leftAnkle) + distance(rightHip, rightAnkle)) / 2;
+  if (legLength <= 0) return null;
+  if (Math.abs(leftAnkle.x - rightAnkle.x) >= SIDE_ON_FOOT_SPREAD * legLength) return 'side-on';
+
+  // Stance runs along the lens: riders look where they go, so a clear face means they are coming at us
+  const nose = keypoints.find(kp => kp.name === 'nose');
+  const ears = keypoints.filter(kp => kp.name === 'left_ear' || kp.name === 'right_ear');
+  if (!nose || ears.length === 0) return null;
+  return nose.confidence >= Math.max(...ears.map(ear => ear.confidence)) ? 'front-on' : 'from-behind';
+}
+
+// World cues (x right, y down, z away from the camera) don't depend on the aspect ratio or scale
+function viewFromWorld(world: WorldKeypoint[]): CameraViewpoint | null {
+  const [leftShoulder, rightShoulder, leftHip, rightHip, leftAnkle, rightAnkle, nose, leftEar, rightEar] =
+    ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip', 'left_ankle', 'right_ankle', 'nose', 'left_ear', 'right_ear']
+      .map(name => findJoint(world, name));
+
+  if (leftShoulder && rightShoulder && leftHip && rightHip) {
+    const tx = (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2;
+    const ty = (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2;
+    const tz = (leftShoulder.z + rightShoulder.z - leftHip.z - rightHip.z) / 2;
+    const tilt = Math.atan2(Math.abs(tz), Math.hypot(tx, ty)) * (180 / Math.PI);
+    if (tilt >= OVERHEAD_TORSO_TILT) return 'overhead';
+  }
+
+  if (!leftAnkle || !rightAnkle) return null;
+  if (Math.abs(leftAnkle.x - rightAnkle.x) >= Math.abs(leftAnkle.z - rightAnkle.z)) return 'side-on';
+
+  if (!nose || !leftEar || !rightEar) return null;
+  return nose.z < (leftEar.z + rightEar.z) / 2 ? 'front-on' : 'from-behind';
+}
+
+// -------- CLIP --------
+// Votes across the clip's subject poses; world landmarks are used for a frame when it has them
+export function estimateViewpoint(
+  subjects: Array<PoseKeypoint[] | null>,
+  worlds: Array<WorldKeypoint[] | null | undefined> = [],
+  aspectRatio: number = DEFAULT_ASPECT_RATIO
+): ViewpointEstimate {
+  const votes: Record<CameraViewpoint, number> = { 'side-on': 0, 'front-on': 0, 'from-behind': 0, 'overhead': 0 };
+  let worldFrames = 0;
+  let imageFrames = 0;
+
+  subjects.forEach((keypoints, i) => {
+    if (!keypoints) return;
+    const world = worlds[i];
+    const hasWorld = Boolean(world && world.length > 0);
+    if (hasWorld) worldFrames++;
+    else imageFrames++;
+    const view = hasWorld ? viewFromWorld(world) : viewFromImage(keypoints, aspectRatio);
+    if (view) votes[view]++;
+  });
+
+  const total = Object.values(votes).reduce((sum, count) => sum + count, 0);
+  // Beach footage is by far the most common, so side-on wins ties and clips with no usable frames
+  const viewpoint = (Object.keys(votes) as CameraViewpoint[])
+    .reduce((best, view) => votes[view] > votes[best] ? view : best, 'side-on' as CameraViewpoint);
+  const angleSpace: AngleSpace = worldFrames > imageFrames ? '3d' : '2d';
+
+  return {
+    viewpoint,
+    confidence: total > 0 ? votes[viewpoint] / total : 0,
+    angleSpace,
+    unreliableMetrics: UNRELIABLE_METRICS[viewpoint]
+      .filter(metric => angleSpace === '2d' || !ANGLE_METRICS.includes(metric))
+  };
+}
@@ -0,0 +1,34 @@
+import { openDecodeStream, type FrameStream } from '@/utils/frameDecoding';
+import type { FrameWorkerRequest, FrameWorkerResponse } from '@/utils/frameWorkerProtocol';
+
+// Demuxes and decodes a video with WebCodecs off the main thread; see openFrameStream for the other end
+
+let stream: FrameStream | null = null;
+
+const post = (message: FrameWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (event: MessageEvent<FrameWorkerRequest>) => {
+  const message = event.data;
+  try {
+    switch (message.type) {
+      case 'open':
+        stream = await openDecodeStream(message.file, message.options);
+        post({ type: 'opened', sampling: stream.sampling, planned: stream.planned });
+        break;
+      case 'next': {
+        if (!stream) {
+          throw new Error('Frame worker was asked for a frame before a video was opened');
+        }
+        const next = await stream.frames.next();
+        if (next.done) {
+          post({ type: 'done' });
+        } else {
+          post({ type: 'frame', ...next.value }, [next.value.image]);
+        }
+        break;
+      }
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Video decoding failed' });
+  }
+};
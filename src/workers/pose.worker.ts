@@ -0,0 +1,69 @@
+import { createPoseBackend, objectDetections, type PoseBackend } from '@/utils/poseDetection';
+import { BoardDetector } from '@/utils/boardDetection';
+import type { PoseWorkerDetect, PoseWorkerRequest, PoseWorkerResponse } from '@/utils/poseWorkerProtocol';
+
+// Runs pose inference (and board detection) off the main thread; see PoseWorkerPool for the other end
+
+let backend: PoseBackend | null = null;
+const boardDetector = new BoardDetector();
+const cancelledJobs = new Set<number>();
+
+const post = (message: PoseWorkerResponse) => self.postMessage(message);
+
+const detect = async ({ jobId, frameIndex, frameNumber, bitmap, detectBoards }: PoseWorkerDetect) => {
+  try {
+    if (cancelledJobs.has(jobId)) {
+      post({ type: 'cancelled', jobId, frameIndex });
+      return;
+    }
+    if (!backend) {
+      throw new Error('Pose worker received a frame before it was initialised');
+    }
+
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d').drawImage(bitmap, 0, 0);
+
+    // People and boards come from the same DETR pass
+    const objects = objectDetections(canvas);
+    const poses = await backend.detectPoses(canvas, frameNumber, objects);
+    // The board pass is skipped once the job is cancelled; the pose pass can't be interrupted
+    if (cancelledJobs.has(jobId)) {
+      post({ type: 'cancelled', jobId, frameIndex });
+      return;
+    }
+    // A missing board only costs the rail metric, never the whole frame
+    const boards = detectBoards && poses.length > 0
+      ? await boardDetector.detectBoards(canvas, objects).catch(error => {
+          console.error(`Board detection failed on frame ${frameNumber}:`, error);
+          return [];
+        })
+      : [];
+    post({ type: 'result', jobId, frameIndex, poses, boards });
+  } catch (error) {
+    post({ type: 'error', jobId, frameIndex, message: error instanceof Error ? error.message : 'Pose detection failed' });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = async (event: MessageEvent<PoseWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'init':
+      try {
+        backend = createPoseBackend(message.backend, message.options);
+        await backend.initialize();
+        post({ type: 'ready', info: { backend: backend.id, modelVersion: backend.modelVersion } });
+      } catch (error) {
+        backend = null;
+        post({ type: 'error', jobId: null, frameIndex: null, message: error instanceof Error ? error.message : 'Pose worker failed to start' });
+      }
+      break;
+    case 'detect':
+      await detect(message);
+      break;
+    case 'cancel':
+      cancelledJobs.add(message.jobId);
+      break;
+  }
+};
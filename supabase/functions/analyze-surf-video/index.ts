@@ -281,35 +281,100 @@ function generateMockFrameData(index: number): any {
   };
 }
 
+// Per-frame metrics below this confidence are skipped; the rest count in proportion to their confidence
+const MIN_METRIC_CONFIDENCE = 0.5;
+
+// Confidence-weighted mean of one client metric; null when no frame measured it reliably
+function weightedMetricAverage<T = number>(
+  frameAnalysis: Array<{ metrics?: Record<string, unknown> }>,
+  metricName: string,
+  valueOf: (value: T) => number = (value) => Number(value)
+): number | null {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const frame of frameAnalysis) {
+    const value = frame.metrics?.[metricName] as T | null | undefined;
+    const confidence = (frame.metrics?.confidence as Record<string, number> | undefined)?.[metricName] ?? 0;
+    if (value === null || value === undefined || confidence < MIN_METRIC_CONFIDENCE) continue;
+    weightedSum += valueOf(value) * confidence;
+    totalWeight += confidence;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
+
+interface TechniqueStandard {
+  metric_name: string;
+  ideal_min: number;
+  ideal_max: number;
+  good_min: number;
+  good_max: number;
+  acceptable_min: number;
+  acceptable_max: number;
+}
+
+// Scores a measured value against its technique_standards band for the surfer's level
+function scoreAgainstStandard(value: number, standard: TechniqueStandard | undefined): number {
+  if (!standard) return Math.min(100, Math.max(0, value));
+  if (value >= standard.ideal_min && value <= standard.ideal_max) return 100;
+  if (value >= standard.good_min && value <= standard.good_max) return 85;
+  if (value >= standard.acceptable_min && value <= standard.acceptable_max) return 70;
+  return 50;
+}
+
+// Client metric keys behind each reported metric, to match the viewpoint's unreliable list
+const METRIC_KEYS: Record<string, string> = {
+  "Stance Width": 'stanceWidth',
+  "Body Rotation": 'bodyRotation',
+  "Knee Flexion": 'kneeFlexion',
+  "Balance Control": 'centerOfGravity',
+  "Rail Engagement": 'railEngagement',
+  "Weight Distribution": 'weightDistribution'
+};
+
 // Process client-provided frame analysis
-async function processClientFrameAnalysis(frameAnalysis: any[], skillLevel: string) {
+async function processClientFrameAnalysis(
+  frameAnalysis: any[],
+  skillLevel: string,
+  standards: TechniqueStandard[] = [],
+  unreliableMetrics: string[] = []
+) {
   console.log(`Processing ${frameAnalysis.length} client-analyzed frames for ${skillLevel} level`);
   
-  // Calculate overall metrics from frame analysis
-  const avgBodyRotation = frameAnalysis.reduce((sum, frame) => sum + (frame.metrics?.bodyRotation || 0), 0) / frameAnalysis.length;
-  const avgStanceWidth = frameAnalysis.reduce((sum, frame) => sum + (frame.metrics?.stanceWidth || 0.5), 0) / frameAnalysis.length;
-  const avgKneeFlexion = frameAnalysis.reduce((sum, frame) => sum + (frame.metrics?.kneeFlexion || 45), 0) / frameAnalysis.length;
+  // Calculate overall metrics from frame analysis, ignoring frames where a metric was not measurable
+  const avgBodyRotation = weightedMetricAverage(frameAnalysis, 'bodyRotation');
+  const avgStanceWidth = weightedMetricAverage(frameAnalysis, 'stanceWidth');
+  const avgKneeFlexion = weightedMetricAverage(frameAnalysis, 'kneeFlexion');
+  const avgRailEngagement = weightedMetricAverage(frameAnalysis, 'railEngagement');
+  const avgWeightDistribution = weightedMetricAverage(frameAnalysis, 'weightDistribution');
+  const avgBalance = weightedMetricAverage<{ x: number; y: number }>(frameAnalysis, 'centerOfGravity', (cog) => Math.min(100, Math.max(0, 100 - Math.abs(cog.x - 50))));
   
-  // Calculate scores based on client analysis
-  const bodyRotationScore = Math.min(100, Math.max(0, 100 - Math.abs(avgBodyRotation - 15) * 2));
-  const stanceWidthScore = Math.min(100, avgStanceWidth * 150);
-  const kneeFlexionScore = Math.min(100, (avgKneeFlexion / 90) * 100);
-  const balanceScore = frameAnalysis.reduce((sum, frame) => {
-    const cog = frame.metrics?.centerOfGravity || { x: 50, y: 50 };
-    return sum + Math.min(100, Math.max(0, 100 - Math.abs(cog.x - 50)));
-  }, 0) / frameAnalysis.length;
-
-  const metrics = [
-    { name: "Stance Width", score: Math.round(stanceWidthScore), trend: "stable", value: avgStanceWidth.toFixed(2) },
-    { name: "Body Rotation", score: Math.round(bodyRotationScore), trend: "stable", value: `${avgBodyRotation.toFixed(1)}°` },
-    { name: "Knee Flexion", score: Math.round(kneeFlexionScore), trend: "stable", value: `${avgKneeFlexion.toFixed(1)}°` },
-    { name: "Balance Control", score: Math.round(balanceScore), trend: "stable", value: "Good" }
+  // Calculate scores based on client analysis (null = not measurable)
+  const bodyRotationScore = avgBodyRotation === null ? null : Math.min(100, Math.max(0, 100 - Math.abs(avgBodyRotation - 15) * 2));
+  const stanceWidthScore = avgStanceWidth === null ? null : Math.min(100, avgStanceWidth * 150);
+  const kneeFlexionScore = avgKneeFlexion === null ? null : Math.min(100, (avgKneeFlexion / 90) * 100);
+  const railEngagementScore = avgRailEngagement === null ? null
+    : scoreAgainstStandard(avgRailEngagement, standards.find(standard => standard.metric_name === 'rail_engagement'));
+  const weightDistributionScore = avgWeightDistribution === null ? null
+    : scoreAgainstStandard(avgWeightDistribution, standards.find(standard => standard.metric_name === 'weight_distribution'));
+  const notMeasurable = "Not measurable";
+
+  const rawMetrics = [
+    { name: "Stance Width", score: stanceWidthScore === null ? null : Math.round(stanceWidthScore), trend: "stable", value: avgStanceWidth === null ? notMeasurable : avgStanceWidth.toFixed(2) },
+    { name: "Body Rotation", score: bodyRotationScore === null ? null : Math.round(bodyRotationScore), trend: "stable", value: avgBodyRotation === null ? notMeasurable : `${avgBodyRotation.toFixed(1)}°` },
+    { name: "Knee Flexion", score: kneeFlexionScore === null ? null : Math.round(kneeFlexionScore), trend: "stable", value: avgKneeFlexion === null ? notMeasurable : `${avgKneeFlexion.toFixed(1)}°` },
+    { name: "Balance Control", score: avgBalance === null ? null : Math.round(avgBalance), trend: "stable", value: avgBalance === null ? notMeasurable : "Good" },
+    { name: "Rail Engagement", score: railEngagementScore, trend: "stable", value: avgRailEngagement === null ? notMeasurable : `${avgRailEngagement.toFixed(0)}%` },
+    { name: "Weight Distribution", score: weightDistributionScore, trend: "stable", value: avgWeightDistribution === null ? notMeasurable : `${avgWeightDistribution.toFixed(0)}% back foot` }
   ];
+  // Metrics the camera viewpoint distorts are still reported, but flagged and left out of the score
+  const metrics = rawMetrics.map(metric => ({ ...metric, unreliable: unreliableMetrics.includes(METRIC_KEYS[metric.name]) }));
 
-  const overallScore = metrics.reduce((sum, metric) => sum + metric.score, 0) / metrics.length;
+  // Only measured, trustworthy metrics contribute to the overall score; with none there is no score
+  const measured = metrics.filter(metric => metric.score !== null && !metric.unreliable);
+  const overallScore = measured.length > 0 ? measured.reduce((sum, metric) => sum + metric.score, 0) / measured.length : null;
 
   return {
-    overallScore: Math.round(overallScore),
+    overallScore: overallScore === null ? null : Math.round(overallScore),
     metrics,
     frameAnalysis,
     pose_analysis: {
@@ -317,16 +382,58 @@ async function processClientFrameAnalysis(frameAnalysis: any[], skillLevel: stri
       avgStanceWidth,
       avgBodyRotation,
       avgKneeFlexion,
+      avgRailEngagement,
+      avgWeightDistribution,
       poseProgression: frameAnalysis.map(frame => ({
         timestamp: frame.timestamp,
-        centerOfGravity: frame.metrics?.centerOfGravity || { x: 50, y: 50 },
-        bodyRotation: frame.metrics?.bodyRotation || 0
+        centerOfGravity: frame.metrics?.centerOfGravity ?? null,
+        bodyRotation: frame.metrics?.bodyRotation ?? null
       }))
     },
     processed: true
   };
 }
 
+// Levels whose coaching focuses on getting to their feet cleanly
+const TAKEOFF_COACHED_LEVELS = ['beginner', 'intermediate'];
+
+// The parts of the client's take-off results the tips read; detail entries are [points, measured value]
+interface TakeoffScore {
+  pop_up?: { detail?: Record<string, [number, number]> };
+  passed_through_knees?: boolean | null;
+}
+
+// Coaching tips from the client's take-off scores
+function takeoffRecommendations(takeoffs: TakeoffScore[], skillLevel: string): string[] {
+  if (!TAKEOFF_COACHED_LEVELS.includes(skillLevel) || takeoffs.length === 0) return [];
+  const values = (key: string) => takeoffs
+    .map(takeoff => takeoff.pop_up?.detail?.[key]?.[1])
+    .filter((value): value is number => typeof value === 'number');
+  const average = (list: number[]) => list.reduce((sum, value) => sum + value, 0) / list.length;
+  const tips: string[] = [];
+
+  const times = values('pop_up_time');
+  if (times.length > 0 && average(times) > 0.8) {
+    tips.push(`Speed up your pop-up - averaging ${average(times).toFixed(1)}s from lying to standing. Practise it on land until it's one motion`);
+  }
+  const hands = values('hand_placement');
+  if (hands.length > 0 && average(hands) > 1.0) {
+    tips.push("Push up with your hands under your chest - they're too far forward, up by your shoulders");
+  } else if (hands.length > 0 && average(hands) < 0.5) {
+    tips.push("Move your hands forward under your chest - pushing from your hips pulls your weight to the tail");
+  }
+  const landings = values('foot_landing');
+  if (landings.length > 0 && average(landings) < 0.85) {
+    tips.push("Land with your feet wider apart - you're landing narrower than your riding stance and shuffling afterwards");
+  } else if (landings.length > 0 && average(landings) > 1.15) {
+    tips.push("Land with your feet closer together - you're landing wider than your riding stance and adjusting afterwards");
+  }
+  if (takeoffs.some(takeoff => takeoff.passed_through_knees)) {
+    tips.push("Pop up straight to your feet instead of through your knees - bring your back foot up first, then your front foot between your hands");
+  }
+  return tips;
+}
+
 function calculateSurfMetrics(poseData: any[], skillLevel: string): any {
   console.log(`Calculating surf metrics for ${skillLevel} level`);
   
@@ -382,7 +489,7 @@ serve(async (req) => {
     console.log('🎬 frameAnalysis length:', requestBody.frameAnalysis?.length);
     console.log('🎬 frameAnalysis exists:', !!requestBody.frameAnalysis);
     
-    const { sessionId, videoPath, frameAnalysis, skillLevel } = requestBody;
+    const { sessionId, videoPath, frameAnalysis, turnResults, cutbackResults, tubeRideResults, takeoffResults, skillLevel, poseBackend, keypointFilter, sampling, stance, viewpoint, ride } = requestBody;
     
     if (!sessionId) {
       throw new Error('Session ID is required');
@@ -518,10 +625,41 @@ serve(async (req) => {
       
       // Process the client frame analysis to get metrics and scores
       console.log('📊 Processing client frame analysis for metrics...');
-      analysisData = await processClientFrameAnalysis(frameAnalysis, skillLevel || session.skill_level);
+      const level = skillLevel || session.skill_level;
+      const { data: standards, error: standardsError } = await supabase
+        .from('technique_standards')
+        .select('*')
+        .eq('technique', 'bottom_turn')
+        .eq('wave_type', session.wave_type)
+        .eq('skill_level', level);
+      if (standardsError) {
+        console.error('⚠️ Could not load technique standards:', standardsError);
+      }
+      const unreliableMetrics = Array.isArray(viewpoint?.unreliableMetrics) ? viewpoint.unreliableMetrics : [];
+      analysisData = await processClientFrameAnalysis(frameAnalysis, level, standards || [], unreliableMetrics);
       
       // CRITICAL: Add the frameAnalysis data to the final result
       analysisData.frameAnalysis = frameAnalysisWithUrls;
+      
+      // Record which pose model produced the keypoints so results are reproducible
+      analysisData.poseBackend = poseBackend || null;
+      // Temporal filter parameters (incl. the frame rate they were derived for) applied to the keypoints
+      analysisData.keypointFilter = keypointFilter || null;
+      // Rate and time range the frames were extracted at
+      analysisData.sampling = sampling || null;
+      // Where in the parent session's clip this ride is; null for a clip analysed whole
+      analysisData.ride = ride || null;
+      // Metrics were measured relative to this stance's lead foot
+      analysisData.stance = stance || null;
+      // Camera angle on the surfer, and the metrics it makes untrustworthy
+      analysisData.viewpoint = viewpoint || null;
+      // Each turn carries its frontside/backside side so results can be reported per side
+      analysisData.turnResults = Array.isArray(turnResults) ? turnResults : [];
+      analysisData.cutbackResults = Array.isArray(cutbackResults) ? cutbackResults : [];
+      analysisData.tubeRideResults = Array.isArray(tubeRideResults) ? tubeRideResults : [];
+      analysisData.takeoffResults = Array.isArray(takeoffResults) ? takeoffResults : [];
+      // Beginner and intermediate feedback leads with how they got to their feet
+      analysisData.recommendations = takeoffRecommendations(analysisData.takeoffResults, level);
       console.log('✅ Added frameAnalysis to analysisData. Final frameAnalysis count:', analysisData.frameAnalysis.length);
       
     } else if (useMockData) {
@@ -559,7 +697,8 @@ serve(async (req) => {
       .from('analysis_sessions')
       .update({
         status: 'completed',
-        overall_score: analysisData.overallScore || analysisData.overall_score,
+        // Client frame analysis reports overallScore (null when nothing was measured), the legacy path overall_score
+        overall_score: 'overallScore' in analysisData ? analysisData.overallScore : analysisData.overall_score,
         analysis_data: analysisData,
         feedback_data: {
           tips: analysisData.recommendations || []
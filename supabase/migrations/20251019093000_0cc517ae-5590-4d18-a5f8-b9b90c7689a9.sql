@@ -0,0 +1,5 @@
+-- Create enum for riding stance
+CREATE TYPE public.surf_stance AS ENUM ('regular', 'goofy');
+
+-- Stance override for analysis; NULL means detect it from each video
+ALTER TABLE public.user_profiles ADD COLUMN stance public.surf_stance;
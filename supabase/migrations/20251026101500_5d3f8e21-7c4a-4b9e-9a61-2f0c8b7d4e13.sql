@@ -0,0 +1,6 @@
+-- Rides found in a session clip are analysed as their own sessions under the upload's row
+ALTER TABLE public.analysis_sessions
+  ADD COLUMN parent_session_id UUID REFERENCES public.analysis_sessions(id) ON DELETE CASCADE,
+  ADD COLUMN ride_index INTEGER;
+
+CREATE INDEX idx_analysis_sessions_parent_session_id ON public.analysis_sessions(parent_session_id);
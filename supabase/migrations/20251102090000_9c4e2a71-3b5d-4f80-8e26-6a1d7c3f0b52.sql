@@ -0,0 +1,135 @@
+-- Turn thresholds for the bottom/top turn state machine, per skill level and wave type.
+-- Angles are in the analyser's own units (frontside; backside is derived from these in the client).
+-- Ideal, good and acceptable ranges are the 3, 2 and 1 point bands of each score.
+INSERT INTO public.technique_standards (technique, wave_type, skill_level, metric_name, ideal_min, ideal_max, good_min, good_max, acceptable_min, acceptable_max, units, description) VALUES
+-- Beach break, beginner
+('bottom_turn', 'beach_break', 'beginner', 'turn_knee_angle', 80, 110, 70, 120, 60, 130, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'beach_break', 'beginner', 'turn_torso_lean', 15, 40, 10, 50, 5, 60, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'beach_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 5, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'beach_break', 'beginner', 'turn_rail_roll', 25, 90, 10, 90, 10, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'beach_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'beach_break', 'beginner', 'turn_knee_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'beach_break', 'beginner', 'turn_torso_lean', 0, 25, 0, 35, 0, 35, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'beach_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 0, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'beach_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Beach break, intermediate
+('bottom_turn', 'beach_break', 'intermediate', 'turn_knee_angle', 70, 100, 60, 110, 50, 120, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'beach_break', 'intermediate', 'turn_torso_lean', 20, 40, 15, 50, 10, 60, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'beach_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'beach_break', 'intermediate', 'turn_rail_roll', 35, 90, 20, 90, 20, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'beach_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'beach_break', 'intermediate', 'turn_knee_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'beach_break', 'intermediate', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'beach_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 5, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'beach_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Beach break, advanced
+('bottom_turn', 'beach_break', 'advanced', 'turn_knee_angle', 65, 95, 55, 105, 45, 115, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'beach_break', 'advanced', 'turn_torso_lean', 25, 45, 20, 55, 15, 65, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'beach_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'beach_break', 'advanced', 'turn_rail_roll', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'beach_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'beach_break', 'advanced', 'turn_knee_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'beach_break', 'advanced', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'beach_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 10, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'beach_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Beach break, pro
+('bottom_turn', 'beach_break', 'pro', 'turn_knee_angle', 60, 90, 50, 100, 40, 110, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'beach_break', 'pro', 'turn_torso_lean', 30, 50, 25, 60, 20, 70, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'beach_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'beach_break', 'pro', 'turn_rail_roll', 45, 90, 30, 90, 30, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'beach_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'beach_break', 'pro', 'turn_knee_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'beach_break', 'pro', 'turn_torso_lean', 0, 15, 0, 25, 0, 25, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'beach_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 15, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'beach_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Point break, beginner
+('bottom_turn', 'point_break', 'beginner', 'turn_knee_angle', 80, 110, 70, 120, 60, 130, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'point_break', 'beginner', 'turn_torso_lean', 15, 40, 10, 50, 5, 60, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'point_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 5, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'point_break', 'beginner', 'turn_rail_roll', 30, 90, 15, 90, 15, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'point_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'point_break', 'beginner', 'turn_knee_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'point_break', 'beginner', 'turn_torso_lean', 0, 25, 0, 35, 0, 35, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'point_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 0, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'point_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Point break, intermediate
+('bottom_turn', 'point_break', 'intermediate', 'turn_knee_angle', 70, 100, 60, 110, 50, 120, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'point_break', 'intermediate', 'turn_torso_lean', 20, 40, 15, 50, 10, 60, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'point_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'point_break', 'intermediate', 'turn_rail_roll', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'point_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'point_break', 'intermediate', 'turn_knee_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'point_break', 'intermediate', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'point_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 5, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'point_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Point break, advanced
+('bottom_turn', 'point_break', 'advanced', 'turn_knee_angle', 65, 95, 55, 105, 45, 115, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'point_break', 'advanced', 'turn_torso_lean', 25, 45, 20, 55, 15, 65, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'point_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'point_break', 'advanced', 'turn_rail_roll', 45, 90, 30, 90, 30, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'point_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'point_break', 'advanced', 'turn_knee_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'point_break', 'advanced', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'point_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 10, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'point_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Point break, pro
+('bottom_turn', 'point_break', 'pro', 'turn_knee_angle', 60, 90, 50, 100, 40, 110, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'point_break', 'pro', 'turn_torso_lean', 30, 50, 25, 60, 20, 70, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'point_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'point_break', 'pro', 'turn_rail_roll', 50, 90, 35, 90, 35, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'point_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'point_break', 'pro', 'turn_knee_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'point_break', 'pro', 'turn_torso_lean', 0, 15, 0, 25, 0, 25, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'point_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 15, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'point_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Reef break, beginner
+('bottom_turn', 'reef_break', 'beginner', 'turn_knee_angle', 75, 105, 65, 115, 55, 125, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'reef_break', 'beginner', 'turn_torso_lean', 20, 45, 15, 55, 10, 65, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'reef_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 5, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'reef_break', 'beginner', 'turn_rail_roll', 30, 90, 15, 90, 15, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'reef_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'reef_break', 'beginner', 'turn_knee_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'reef_break', 'beginner', 'turn_torso_lean', 0, 25, 0, 35, 0, 35, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'reef_break', 'beginner', 'turn_shoulder_rotation', 10, 180, 5, 180, 0, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'reef_break', 'beginner', 'turn_smoothness_std', 0, 10, 0, 15, 0, 15, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Reef break, intermediate
+('bottom_turn', 'reef_break', 'intermediate', 'turn_knee_angle', 65, 95, 55, 105, 45, 115, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'reef_break', 'intermediate', 'turn_torso_lean', 25, 45, 20, 55, 15, 65, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'reef_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'reef_break', 'intermediate', 'turn_rail_roll', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'reef_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'reef_break', 'intermediate', 'turn_knee_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'reef_break', 'intermediate', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'reef_break', 'intermediate', 'turn_shoulder_rotation', 15, 180, 10, 180, 5, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'reef_break', 'intermediate', 'turn_smoothness_std', 0, 8, 0, 12, 0, 12, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Reef break, advanced
+('bottom_turn', 'reef_break', 'advanced', 'turn_knee_angle', 60, 90, 50, 100, 40, 110, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'reef_break', 'advanced', 'turn_torso_lean', 30, 50, 25, 60, 20, 70, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'reef_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'reef_break', 'advanced', 'turn_rail_roll', 45, 90, 30, 90, 30, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'reef_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'reef_break', 'advanced', 'turn_knee_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'reef_break', 'advanced', 'turn_torso_lean', 0, 20, 0, 30, 0, 30, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'reef_break', 'advanced', 'turn_shoulder_rotation', 20, 180, 15, 180, 10, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'reef_break', 'advanced', 'turn_smoothness_std', 0, 7, 0, 10, 0, 10, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)'),
+
+-- Reef break, pro
+('bottom_turn', 'reef_break', 'pro', 'turn_knee_angle', 55, 85, 45, 95, 35, 105, 'degrees', 'Knee angle at the deepest point of the bottom turn (180 = straight)'),
+('bottom_turn', 'reef_break', 'pro', 'turn_torso_lean', 35, 55, 30, 65, 25, 75, 'degrees', 'Torso lean from vertical into the bottom turn'),
+('bottom_turn', 'reef_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the hips through the bottom turn'),
+('bottom_turn', 'reef_break', 'pro', 'turn_rail_roll', 50, 90, 35, 90, 35, 90, 'degrees', 'Board roll onto its rail during the bottom turn'),
+('bottom_turn', 'reef_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the bottom turn (lower = smoother)'),
+('top_turn', 'reef_break', 'pro', 'turn_knee_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension at the top turn compared with the bottom turn'),
+('top_turn', 'reef_break', 'pro', 'turn_torso_lean', 0, 15, 0, 25, 0, 25, 'degrees', 'Torso lean from vertical at the top turn (upright is better)'),
+('top_turn', 'reef_break', 'pro', 'turn_shoulder_rotation', 25, 180, 20, 180, 15, 180, 'degrees', 'Shoulders redirecting the board at the top turn'),
+('top_turn', 'reef_break', 'pro', 'turn_smoothness_std', 0, 6, 0, 9, 0, 9, 'degrees', 'Spread of the joint angles through the top turn (lower = smoother)');
@@ -0,0 +1,86 @@
+-- Cutback bands per skill level and wave type, in the client analyser's units (frontside).
+-- Ideal, good and acceptable ranges are the 3, 2 and 1 point bands of each score.
+INSERT INTO public.technique_standards (technique, wave_type, skill_level, metric_name, ideal_min, ideal_max, good_min, good_max, acceptable_min, acceptable_max, units, description) VALUES
+-- Beach break, beginner
+('cutback', 'beach_break', 'beginner', 'cutback_reversal_time', 0.5, 2, 0.3, 2.5, 0.2, 3, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'beach_break', 'beginner', 'cutback_torso_lean', 20, 45, 15, 55, 10, 65, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'beach_break', 'beginner', 'cutback_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'beach_break', 'beginner', 'cutback_rail_change', 20, 90, 5, 90, 5, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'beach_break', 'beginner', 'cutback_rebound_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Beach break, intermediate
+('cutback', 'beach_break', 'intermediate', 'cutback_reversal_time', 0.6, 1.5, 0.4, 2, 0.3, 2.5, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'beach_break', 'intermediate', 'cutback_torso_lean', 25, 50, 20, 60, 15, 70, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'beach_break', 'intermediate', 'cutback_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'beach_break', 'intermediate', 'cutback_rail_change', 30, 90, 15, 90, 15, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'beach_break', 'intermediate', 'cutback_rebound_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Beach break, advanced
+('cutback', 'beach_break', 'advanced', 'cutback_reversal_time', 0.6, 1.3, 0.4, 1.8, 0.3, 2.3, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'beach_break', 'advanced', 'cutback_torso_lean', 30, 55, 25, 65, 20, 75, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'beach_break', 'advanced', 'cutback_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'beach_break', 'advanced', 'cutback_rail_change', 35, 90, 20, 90, 20, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'beach_break', 'advanced', 'cutback_rebound_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Beach break, pro
+('cutback', 'beach_break', 'pro', 'cutback_reversal_time', 0.5, 1.2, 0.3, 1.7, 0.2, 2.2, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'beach_break', 'pro', 'cutback_torso_lean', 35, 60, 30, 70, 25, 80, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'beach_break', 'pro', 'cutback_shoulder_rotation', 30, 180, 25, 180, 25, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'beach_break', 'pro', 'cutback_rail_change', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'beach_break', 'pro', 'cutback_rebound_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Point break, beginner
+('cutback', 'point_break', 'beginner', 'cutback_reversal_time', 0.5, 2, 0.3, 2.5, 0.2, 3, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'point_break', 'beginner', 'cutback_torso_lean', 20, 45, 15, 55, 10, 65, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'point_break', 'beginner', 'cutback_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'point_break', 'beginner', 'cutback_rail_change', 25, 90, 10, 90, 10, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'point_break', 'beginner', 'cutback_rebound_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Point break, intermediate
+('cutback', 'point_break', 'intermediate', 'cutback_reversal_time', 0.6, 1.5, 0.4, 2, 0.3, 2.5, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'point_break', 'intermediate', 'cutback_torso_lean', 25, 50, 20, 60, 15, 70, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'point_break', 'intermediate', 'cutback_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'point_break', 'intermediate', 'cutback_rail_change', 35, 90, 20, 90, 20, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'point_break', 'intermediate', 'cutback_rebound_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Point break, advanced
+('cutback', 'point_break', 'advanced', 'cutback_reversal_time', 0.6, 1.3, 0.4, 1.8, 0.3, 2.3, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'point_break', 'advanced', 'cutback_torso_lean', 30, 55, 25, 65, 20, 75, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'point_break', 'advanced', 'cutback_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'point_break', 'advanced', 'cutback_rail_change', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'point_break', 'advanced', 'cutback_rebound_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Point break, pro
+('cutback', 'point_break', 'pro', 'cutback_reversal_time', 0.5, 1.2, 0.3, 1.7, 0.2, 2.2, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'point_break', 'pro', 'cutback_torso_lean', 35, 60, 30, 70, 25, 80, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'point_break', 'pro', 'cutback_shoulder_rotation', 30, 180, 25, 180, 25, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'point_break', 'pro', 'cutback_rail_change', 45, 90, 30, 90, 30, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'point_break', 'pro', 'cutback_rebound_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Reef break, beginner
+('cutback', 'reef_break', 'beginner', 'cutback_reversal_time', 0.5, 1.8, 0.3, 2.3, 0.2, 2.8, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'reef_break', 'beginner', 'cutback_torso_lean', 25, 50, 20, 60, 15, 70, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'reef_break', 'beginner', 'cutback_shoulder_rotation', 15, 180, 10, 180, 10, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'reef_break', 'beginner', 'cutback_rail_change', 25, 90, 10, 90, 10, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'reef_break', 'beginner', 'cutback_rebound_extension', 10, 180, 5, 180, 0, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Reef break, intermediate
+('cutback', 'reef_break', 'intermediate', 'cutback_reversal_time', 0.6, 1.3, 0.4, 1.8, 0.3, 2.3, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'reef_break', 'intermediate', 'cutback_torso_lean', 30, 55, 25, 65, 20, 75, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'reef_break', 'intermediate', 'cutback_shoulder_rotation', 20, 180, 15, 180, 15, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'reef_break', 'intermediate', 'cutback_rail_change', 35, 90, 20, 90, 20, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'reef_break', 'intermediate', 'cutback_rebound_extension', 15, 180, 10, 180, 5, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Reef break, advanced
+('cutback', 'reef_break', 'advanced', 'cutback_reversal_time', 0.6, 1.1, 0.4, 1.6, 0.3, 2.1, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'reef_break', 'advanced', 'cutback_torso_lean', 35, 60, 30, 70, 25, 80, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'reef_break', 'advanced', 'cutback_shoulder_rotation', 25, 180, 20, 180, 20, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'reef_break', 'advanced', 'cutback_rail_change', 40, 90, 25, 90, 25, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'reef_break', 'advanced', 'cutback_rebound_extension', 20, 180, 15, 180, 10, 180, 'degrees', 'Knee extension rebounding off the whitewater'),
+
+-- Reef break, pro
+('cutback', 'reef_break', 'pro', 'cutback_reversal_time', 0.5, 1, 0.3, 1.5, 0.2, 2, 'seconds', 'Time spent heading back toward the breaking part of the wave'),
+('cutback', 'reef_break', 'pro', 'cutback_torso_lean', 40, 65, 35, 75, 30, 85, 'degrees', 'Torso lean from vertical into the carve'),
+('cutback', 'reef_break', 'pro', 'cutback_shoulder_rotation', 30, 180, 25, 180, 25, 180, 'degrees', 'Shoulders leading the board round through the cutback'),
+('cutback', 'reef_break', 'pro', 'cutback_rail_change', 45, 90, 30, 90, 30, 90, 'degrees', 'Board roll lost going flat and regained on the other rail'),
+('cutback', 'reef_break', 'pro', 'cutback_rebound_extension', 25, 180, 20, 180, 15, 180, 'degrees', 'Knee extension rebounding off the whitewater');
@@ -1,8 +1,133 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import crypto from "crypto";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Model weights aren't on npm: `npm run fetch-models` downloads the files models/sources.json lists
+const MODELS_DIR = path.resolve(__dirname, "models");
+const TASKS_VISION_DIR = path.resolve(__dirname, "node_modules/@mediapipe/tasks-vision");
+const TRANSFORMERS_DIR = path.resolve(__dirname, "node_modules/@huggingface/transformers");
+
+// A directory of files served from our own origin under `base`, with a manifest.json public/sw.js
+// precaches from
+interface SelfHostedAssets {
+  base: string;
+  dir: string;
+  files: () => string[];
+  version: () => string;
+}
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, "utf-8"));
+const hashOf = (content: string) => crypto.createHash("sha256").update(content).digest("hex").slice(0, 16);
+
+const SELF_HOSTED_ASSETS: SelfHostedAssets[] = [
+  // MediaPipe Tasks wasm runtime, in every build FilesetResolver may pick
+  {
+    base: "mediapipe/tasks-vision",
+    dir: path.join(TASKS_VISION_DIR, "wasm"),
+    files: () => fs.readdirSync(path.join(TASKS_VISION_DIR, "wasm")),
+    version: () => readJson(path.join(TASKS_VISION_DIR, "package.json")).version,
+  },
+  // ONNX runtime that transformers.js runs DETR and ViTPose on
+  {
+    base: "onnxruntime",
+    dir: path.join(TRANSFORMERS_DIR, "dist"),
+    files: () => ["ort-wasm-simd-threaded.jsep.mjs", "ort-wasm-simd-threaded.jsep.wasm"],
+    version: () => readJson(path.join(TRANSFORMERS_DIR, "package.json")).version,
+  },
+  {
+    base: "models",
+    dir: MODELS_DIR,
+    files: () => Object.keys(readJson(path.join(MODELS_DIR, "sources.json")).files),
+    // Every model is pinned to a commit, so the sources pin the weights too
+    version: () => hashOf(fs.readFileSync(path.join(MODELS_DIR, "sources.json"), "utf-8")),
+  },
+];
+
+// Hugging Face repos in models/sources.json still on a branch name rather than a commit
+const unpinnedModelRepos = (): string[] => {
+  const { revisions } = readJson(path.join(MODELS_DIR, "sources.json"));
+  return Object.entries<string>(revisions)
+    .filter(([, revision]) => !/^[0-9a-f]{40}$/.test(revision))
+    .map(([repo]) => repo);
+};
+
+// The built app itself, precached by public/sw.js so it starts offline too
+const SHELL_MANIFEST = "shell-manifest.json";
+
+const manifestFor = (assets: SelfHostedAssets) =>
+  JSON.stringify({ version: assets.version(), files: assets.files() });
+
+const contentTypeFor = (file: string) => {
+  if (file.endsWith(".js") || file.endsWith(".mjs")) return "text/javascript";
+  if (file.endsWith(".wasm")) return "application/wasm";
+  if (file.endsWith(".json")) return "application/json";
+  return "application/octet-stream";
+};
+
+// Serves the pose runtime and model weights from our own origin so analysis works without network access
+const selfHostedAssets = (): Plugin => ({
+  name: "self-hosted-assets",
+  configureServer(server) {
+    for (const assets of SELF_HOSTED_ASSETS) {
+      server.middlewares.use(`/${assets.base}/`, (req, res, next) => {
+        const file = decodeURIComponent((req.url || "").split("?")[0].replace(/^\//, ""));
+        if (file === "manifest.json") {
+          res.setHeader("Content-Type", contentTypeFor(file));
+          res.end(manifestFor(assets));
+          return;
+        }
+        if (!assets.files().includes(file) || !fs.existsSync(path.join(assets.dir, file))) {
+          next();
+          return;
+        }
+        res.setHeader("Content-Type", contentTypeFor(file));
+        fs.createReadStream(path.join(assets.dir, file)).pipe(res);
+      });
+    }
+  },
+  generateBundle(_options, bundle) {
+    const unpinned = unpinnedModelRepos();
+    if (unpinned.length > 0) {
+      throw new Error(`${unpinned.join(", ")} not pinned to a commit: run \`npm run fetch-models\` before building`);
+    }
+
+    // index.html is cached as "/" by the service worker; the hashed bundles change with every build,
+    // so their names version the shell. transformers.js's bundled ort wasm is never loaded (it is
+    // pointed at /onnxruntime/), so it is left out.
+    const shellFiles = Object.keys(bundle)
+      .filter(file => file !== "index.html" && !file.endsWith(".wasm"))
+      .filter(file => !SELF_HOSTED_ASSETS.some(assets => file.startsWith(`${assets.base}/`)))
+      .sort();
+    this.emitFile({
+      type: "asset",
+      fileName: SHELL_MANIFEST,
+      source: JSON.stringify({ version: hashOf(shellFiles.join("\n")), files: shellFiles }),
+    });
+
+    for (const assets of SELF_HOSTED_ASSETS) {
+      for (const file of assets.files()) {
+        const source = path.join(assets.dir, file);
+        if (!fs.existsSync(source)) {
+          throw new Error(`${source} is missing: run \`npm run fetch-models\` before building`);
+        }
+        this.emitFile({
+          type: "asset",
+          fileName: `${assets.base}/${file}`,
+          source: fs.readFileSync(source),
+        });
+      }
+      this.emitFile({
+        type: "asset",
+        fileName: `${assets.base}/manifest.json`,
+        source: manifestFor(assets),
+      });
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,9 +136,14 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    selfHostedAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  // The pose worker lazy-loads its models, and code-split workers need ES module output
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),